@@ -1,8 +1,15 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
+// The subset of ERC-20 that stakes use; calls go through _callToken, so tokens
+// that return nothing from transfer count as well
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
 contract BattleshipPlusFHE is SepoliaConfig {
     using FHE for euint32;
     using FHE for ebool;
@@ -10,11 +17,57 @@ contract BattleshipPlusFHE is SepoliaConfig {
     address public owner;
     mapping(address => bool) public providers;
     bool public paused;
+    uint64 public pausedAt; // When the current pause began; zero while running
+    uint64 public pausedSeconds; // Time spent paused so far; turn deadlines stand still while paused
     uint256 public cooldownSeconds;
+    uint256 public turnTimeoutSeconds; // Time a player has to move, or to place their fleet
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
-    uint256 public currentBatchId;
-    bool public batchOpen;
+    uint256 public currentBatchId; // Last batch id handed out; batches belong to games
+    uint256 public gameCount;
+    mapping(address => bool) public stakeTokens; // ERC-20 tokens matches may be played for; ETH always may
+    mapping(address => mapping(address => uint256)) public pendingPayouts; // recipient => token => amount
+
+    // Board edge length bounds; the web client's rule presets use the same range
+    uint32 public constant MIN_BOARD_SIZE = 6;
+    uint32 public constant MAX_BOARD_SIZE = 16;
+    uint8 public constant MAX_FLEET_SIZE = 10;
+    uint256 public constant MAX_SALVO_SHOTS = MAX_FLEET_SIZE; // One shot per ship afloat
+    uint256 public constant SHIP_TYPE_COUNT = 5; // Ship.typeId ranges over 0..SHIP_TYPE_COUNT-1
+
+    // Shot outcomes, decrypted for the attacker at once and for everyone with the batch
+    uint8 public constant OUTCOME_MISS = 0;
+    uint8 public constant OUTCOME_HIT = 1;
+    uint8 public constant OUTCOME_SUNK = 2;
+    uint256 internal constant MOVE_CLEARTEXTS = 3; // targetX, targetY, outcome
+
+    enum GameStatus {
+        None,
+        WaitingForOpponent,
+        Placing,
+        Active,
+        Finished
+    }
+
+    struct Game {
+        address[2] players; // [creator, joiner]
+        uint32 boardSize;
+        uint8 fleetSize;
+        uint8[SHIP_TYPE_COUNT] fleetCounts; // Ships of each type id, summing to fleetSize
+        bool salvo;
+        GameStatus status;
+        uint8 turn; // Index into players of the side to move
+        uint64 turnDeadline; // While placing or active, when the waiting side may claim victory
+        uint64 deadlinePausedSeconds; // pausedSeconds when turnDeadline was set; later pauses push it back
+        uint64 turnTimeLeft; // While a provider has move intake closed, what was left of the turn
+        uint256 batchId; // Batch collecting this game's moves
+        bool batchOpen;
+        address winner;
+        address stakeToken; // address(0) for ETH
+        uint256 stake; // Deposited by each player; the winner takes both
+    }
+    mapping(uint256 => Game) internal games; // gameId => Game
+    mapping(uint256 => uint256) public batchGame; // batchId => gameId
 
     struct DecryptionContext {
         uint256 batchId;
@@ -22,41 +75,131 @@ contract BattleshipPlusFHE is SepoliaConfig {
         bool processed;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    // A batch is revealed once: these keep a closed or finished game's batch
+    // from being requested, or its moves applied, a second time
+    mapping(uint256 => bool) public batchRequested; // batchId => sent for decryption
+    mapping(uint256 => bool) public batchResolved; // batchId => moves applied
 
     struct Ship {
-        euint32 typeId; // Encrypted: 0=Submarine, 1=Carrier, 2=Destroyer, etc.
-        euint32 x;      // Encrypted: X-coordinate
-        euint32 y;      // Encrypted: Y-coordinate
-        euint32 health; // Encrypted: Health points
+        euint32 typeId;      // Encrypted: 0=Submarine, 1=Carrier, 2=Destroyer, etc.
+        euint32 x;           // Encrypted: row of the origin cell
+        euint32 y;           // Encrypted: column of the origin cell
+        euint32 orientation; // Encrypted: 0 = horizontal (along y), 1 = vertical (along x)
+        euint32 length;      // Encrypted: cells covered from the origin
+        euint32 health;      // Encrypted: Health points
+        euint32 hits;        // Encrypted: bit i set once the i-th cell from the origin is hit
+    }
+    mapping(uint256 => mapping(address => mapping(uint256 => Ship))) public gameShips; // gameId => player => shipIndex => Ship
+
+    // Handles of one ship, all from the same encrypted input as the rest of the fleet
+    struct ShipInput {
+        externalEuint32 typeId;
+        externalEuint32 x;
+        externalEuint32 y;
+        externalEuint32 orientation;
+        externalEuint32 length;
+    }
+
+    enum FleetStatus {
+        None,     // Not submitted, or rejected and free to resubmit
+        Pending,  // Waiting for the oracle to decrypt the validity bit
+        Accepted
+    }
+    mapping(uint256 => mapping(address => FleetStatus)) public fleetStatus; // gameId => player => status
+
+    struct FleetCheck {
+        uint256 gameId;
+        address player;
+        bool processed;
     }
-    mapping(uint256 => mapping(uint256 => Ship)) public playerShips; // playerAddress => shipIndex => Ship
+    mapping(uint256 => FleetCheck) public fleetChecks; // requestId => fleet being checked
 
     struct GameMove {
-        euint32 playerId; // Encrypted: Address of the player making the move
-        euint32 targetX;  // Encrypted: X-coordinate of the target
-        euint32 targetY;  // Encrypted: Y-coordinate of the target
+        address player;  // Seat is public; only the target is secret
+        euint32 targetX; // Encrypted: X-coordinate of the target
+        euint32 targetY; // Encrypted: Y-coordinate of the target
+        euint8 outcome;  // Encrypted: OUTCOME_MISS, OUTCOME_HIT or OUTCOME_SUNK
     }
     mapping(uint256 => GameMove[]) public batchMoves; // batchId => list of moves
 
+    // Public record of a player's revealed fire, updated as batches resolve
+    struct PlayerTally {
+        uint32 shots;
+        uint32 hits; // Includes shots that sank a ship
+        uint8 sunk;
+    }
+    mapping(uint256 => mapping(address => PlayerTally)) public tallies; // gameId => player => tally
+
+    // Running hash over a game's revealed moves in the order they resolved,
+    // sealed when the game finishes; game records are signed over it
+    struct MoveLog {
+        bytes32 hash;
+        uint32 moves;
+        uint64 sealedAt; // Zero until the game finishes
+    }
+    mapping(uint256 => MoveLog) public moveLogs; // gameId => log
+
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event ContractPaused();
     event ContractUnpaused();
     event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
-    event BatchOpened(uint256 batchId);
-    event BatchClosed(uint256 batchId);
-    event ShipSubmitted(address indexed player, uint256 batchId, uint256 shipIndex);
-    event MoveSubmitted(address indexed player, uint256 batchId, uint256 moveIndex);
-    event DecryptionRequested(uint256 indexed requestId, uint256 batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 batchId);
+    event TurnTimeoutSecondsSet(uint256 oldTurnTimeoutSeconds, uint256 newTurnTimeoutSeconds);
+    event GameCreated(uint256 indexed gameId, address indexed creator, uint32 boardSize, uint8 fleetSize, bool salvo);
+    event GameJoined(uint256 indexed gameId, address indexed opponent);
+    event GameStarted(uint256 indexed gameId, address firstPlayer);
+    event BatchOpened(uint256 indexed gameId, uint256 batchId);
+    event BatchClosed(uint256 indexed gameId, uint256 batchId);
+    event ShipSubmitted(uint256 indexed gameId, address indexed player, uint256 shipIndex);
+    event FleetCheckRequested(uint256 indexed requestId, uint256 indexed gameId, address indexed player);
+    event FleetChecked(uint256 indexed gameId, address indexed player, bool valid);
+    event MoveSubmitted(uint256 indexed gameId, address indexed player, uint256 batchId, uint256 moveIndex, euint8 outcome);
+    event SalvoSubmitted(uint256 indexed gameId, address indexed player, uint256 batchId, uint256 shots);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed gameId, uint256 batchId);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed gameId, uint256 batchId);
+    event MoveResolved(
+        uint256 indexed gameId,
+        address indexed player,
+        uint256 batchId,
+        uint256 moveIndex,
+        uint32 targetX,
+        uint32 targetY,
+        uint8 outcome
+    );
+    event GameFinished(uint256 indexed gameId, address indexed winner);
+    event MoveLogSealed(uint256 indexed gameId, bytes32 moveLogHash, uint32 moves, uint64 sealedAt);
+    event TimeoutClaimed(uint256 indexed gameId, address indexed winner, address indexed forfeiter);
+    event StakeTokenSet(address indexed token, bool allowed);
+    event StakeDeposited(uint256 indexed gameId, address indexed player, address token, uint256 amount);
+    event StakePaid(uint256 indexed gameId, address indexed recipient, address token, uint256 amount);
+    event PayoutDeferred(uint256 indexed gameId, address indexed recipient, address token, uint256 amount);
+    event PayoutWithdrawn(address indexed recipient, address token, uint256 amount);
 
     error NotOwner();
     error NotProvider();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchNotOpen();
+    error BatchAlreadyOpen();
     error InvalidCoordinates();
+    error InvalidBoardSize();
+    error InvalidFleetSize();
+    error InvalidSalvo();
+    error GameNotFound();
+    error NotParticipant();
+    error InvalidGameStatus();
+    error CannotJoinOwnGame();
+    error FleetComplete();
+    error NoMovesToDecrypt();
+    error BatchAlreadyRequested();
+    error UnknownRequest();
+    error NotYourTurn();
+    error DeadlineNotReached();
+    error NothingToClaim();
+    error TokenNotAllowed();
+    error InvalidStake();
+    error TransferFailed();
     error ReplayDetected();
     error StateMismatch();
     error InvalidProof();
@@ -91,8 +234,29 @@ contract BattleshipPlusFHE is SepoliaConfig {
         _;
     }
 
-    modifier checkBatchOpen() {
-        if (!batchOpen) revert BatchClosed();
+    modifier gameExists(uint256 gameId) {
+        if (games[gameId].status == GameStatus.None) revert GameNotFound();
+        _;
+    }
+
+    modifier onlyParticipant(uint256 gameId) {
+        if (!_isParticipant(games[gameId], msg.sender)) revert NotParticipant();
+        _;
+    }
+
+    modifier inStatus(uint256 gameId, GameStatus status) {
+        if (games[gameId].status != status) revert InvalidGameStatus();
+        _;
+    }
+
+    modifier onlyTurn(uint256 gameId) {
+        Game storage game = games[gameId];
+        if (game.players[game.turn] != msg.sender) revert NotYourTurn();
+        _;
+    }
+
+    modifier checkBatchOpen(uint256 gameId) {
+        if (!games[gameId].batchOpen) revert BatchNotOpen();
         _;
     }
 
@@ -101,6 +265,7 @@ contract BattleshipPlusFHE is SepoliaConfig {
         providers[msg.sender] = true;
         emit ProviderAdded(msg.sender);
         cooldownSeconds = 30; // Default cooldown
+        turnTimeoutSeconds = 1 days; // Default turn timeout
     }
 
     function transferOwnership(address newOwner) external onlyOwner {
@@ -119,11 +284,16 @@ contract BattleshipPlusFHE is SepoliaConfig {
         emit ProviderRemoved(provider);
     }
 
+    // Nobody can move or claim while paused, so the time doesn't count
+    // against any turn: deadlines move back by however long the pause lasted
     function setPaused(bool _paused) external onlyOwner {
         if (_paused) {
+            if (!paused) pausedAt = uint64(block.timestamp);
             paused = true;
             emit ContractPaused();
         } else {
+            if (paused) pausedSeconds += uint64(block.timestamp) - pausedAt;
+            pausedAt = 0;
             paused = false;
             emit ContractUnpaused();
         }
@@ -135,82 +305,282 @@ contract BattleshipPlusFHE is SepoliaConfig {
         emit CooldownSecondsSet(oldCooldownSeconds, _cooldownSeconds);
     }
 
-    function openBatch() external onlyProvider whenNotPaused {
-        currentBatchId++;
-        batchOpen = true;
-        emit BatchOpened(currentBatchId);
+    // Applies from the next deadline set; running turns keep theirs
+    function setTurnTimeoutSeconds(uint256 _turnTimeoutSeconds) external onlyOwner {
+        uint256 oldTurnTimeoutSeconds = turnTimeoutSeconds;
+        turnTimeoutSeconds = _turnTimeoutSeconds;
+        emit TurnTimeoutSecondsSet(oldTurnTimeoutSeconds, _turnTimeoutSeconds);
     }
 
-    function closeBatch() external onlyProvider whenNotPaused {
-        batchOpen = false;
-        emit BatchClosed(currentBatchId);
+    // Disallowing a token leaves matches already staked in it as they are
+    function setStakeToken(address token, bool allowed) external onlyOwner {
+        if (token == address(0)) revert TokenNotAllowed();
+        stakeTokens[token] = allowed;
+        emit StakeTokenSet(token, allowed);
     }
 
-    function submitShip(
-        euint32 _typeId,
-        euint32 _x,
-        euint32 _y,
-        euint32 _health,
-        uint256 _shipIndex
-    ) external onlyProvider whenNotPaused checkSubmissionCooldown checkBatchOpen {
-        _initIfNeeded(_typeId);
-        _initIfNeeded(_x);
-        _initIfNeeded(_y);
-        _initIfNeeded(_health);
+    // turnDeadline comes back with the time spent paused since it was set added
+    function getGame(uint256 gameId) external view gameExists(gameId) returns (Game memory game) {
+        game = games[gameId];
+        game.turnDeadline = uint64(_turnDeadline(games[gameId]));
+    }
 
-        // Basic validation (example: coordinates within a 10x10 grid)
-        ebool xValid = _x.le(FHE.asEuint32(9));
-        ebool yValid = _y.le(FHE.asEuint32(9));
-        ebool coordsValid = xValid.eAnd(yValid);
-        if (!coordsValid.isInitialized()) revert NotInitialized(); // Ensure FHE ops are done
-        if (!coordsValid.toBool()) revert InvalidCoordinates();
+    // A non-zero stake is sent along as ETH, or approved beforehand for an
+    // allow-listed stakeToken; the joiner has to match it
+    function createGame(
+        uint32 boardSize,
+        uint8[SHIP_TYPE_COUNT] calldata fleetCounts,
+        bool salvo,
+        address stakeToken,
+        uint256 stake
+    ) external payable whenNotPaused returns (uint256 gameId) {
+        if (boardSize < MIN_BOARD_SIZE || boardSize > MAX_BOARD_SIZE) revert InvalidBoardSize();
+        uint256 total = 0;
+        for (uint256 i = 0; i < SHIP_TYPE_COUNT; i++) total += fleetCounts[i];
+        if (total == 0 || total > MAX_FLEET_SIZE) revert InvalidFleetSize();
+        if (stakeToken != address(0) && !stakeTokens[stakeToken]) revert TokenNotAllowed();
+        uint8 fleetSize = uint8(total);
+        gameId = ++gameCount;
+        Game storage game = games[gameId];
+        game.players[0] = msg.sender;
+        game.boardSize = boardSize;
+        game.fleetSize = fleetSize;
+        game.fleetCounts = fleetCounts;
+        game.salvo = salvo;
+        game.status = GameStatus.WaitingForOpponent;
+        game.stakeToken = stakeToken;
+        game.stake = stake;
+        emit GameCreated(gameId, msg.sender, boardSize, fleetSize, salvo);
+        _depositStake(game, gameId);
+    }
 
-        playerShips[msg.sender][_shipIndex] = Ship(_typeId, _x, _y, _health);
-        lastSubmissionTime[msg.sender] = block.timestamp;
-        emit ShipSubmitted(msg.sender, currentBatchId, _shipIndex);
+    function joinGame(
+        uint256 gameId
+    ) external payable whenNotPaused gameExists(gameId) inStatus(gameId, GameStatus.WaitingForOpponent) {
+        Game storage game = games[gameId];
+        if (game.players[0] == msg.sender) revert CannotJoinOwnGame();
+        game.players[1] = msg.sender;
+        game.status = GameStatus.Placing;
+        _resetDeadline(game);
+        emit GameJoined(gameId, msg.sender);
+        _depositStake(game, gameId);
     }
 
-    function submitMove(
-        euint32 _playerId,
-        euint32 _targetX,
-        euint32 _targetY
-    ) external onlyProvider whenNotPaused checkSubmissionCooldown checkBatchOpen {
-        _initIfNeeded(_playerId);
-        _initIfNeeded(_targetX);
-        _initIfNeeded(_targetY);
+    // Until someone joins, the creator may call the match off and take their stake back
+    function cancelGame(
+        uint256 gameId
+    ) external whenNotPaused gameExists(gameId) inStatus(gameId, GameStatus.WaitingForOpponent) {
+        Game storage game = games[gameId];
+        if (game.players[0] != msg.sender) revert NotParticipant();
+        _finishGame(game, gameId, address(0));
+    }
 
-        // Basic validation (example: coordinates within a 10x10 grid)
-        ebool xValid = _targetX.le(FHE.asEuint32(9));
-        ebool yValid = _targetY.le(FHE.asEuint32(9));
-        ebool coordsValid = xValid.eAnd(yValid);
-        if (!coordsValid.isInitialized()) revert NotInitialized(); // Ensure FHE ops are done
-        if (!coordsValid.toBool()) revert InvalidCoordinates();
+    // Providers can pause a single game's move intake and resume it later.
+    // The turn clock stops with it: reopening gives the side to move the time
+    // they had left when intake closed
+    function openBatch(uint256 gameId) external onlyProvider whenNotPaused inStatus(gameId, GameStatus.Active) {
+        Game storage game = games[gameId];
+        if (game.batchOpen) revert BatchAlreadyOpen();
+        _setDeadline(game, game.turnTimeLeft);
+        _openBatch(gameId);
+    }
+
+    function closeBatch(uint256 gameId) external onlyProvider whenNotPaused checkBatchOpen(gameId) {
+        Game storage game = games[gameId];
+        uint256 deadline = _turnDeadline(game);
+        game.turnTimeLeft = deadline > block.timestamp ? uint64(deadline - block.timestamp) : 0;
+        game.batchOpen = false;
+        emit BatchClosed(gameId, game.batchId);
+    }
+
+    // Encrypted arguments are handles from one client-side encrypted input,
+    // bound to this contract and msg.sender and checked against inputProof.
+    // The whole fleet goes in at once so it can be validated as a whole.
+    function submitFleet(
+        uint256 gameId,
+        ShipInput[] calldata _fleet,
+        bytes calldata _inputProof
+    ) external whenNotPaused onlyParticipant(gameId) inStatus(gameId, GameStatus.Placing) {
+        if (fleetStatus[gameId][msg.sender] != FleetStatus.None) revert FleetComplete();
+        if (_fleet.length != games[gameId].fleetSize) revert InvalidFleetSize();
+
+        for (uint256 i = 0; i < _fleet.length; i++) {
+            _storeShip(gameId, i, _fleet[i], _inputProof);
+        }
 
-        batchMoves[currentBatchId].push(GameMove(_playerId, _targetX, _targetY));
+        // Placement can't be checked in the clear, so the oracle decrypts a
+        // single bit saying whether the fleet is legal; see fleetCheckCallback
+        ebool valid = _validateFleet(gameId, msg.sender);
+        FHE.allowThis(valid);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(valid);
+        uint256 requestId = FHE.requestDecryption(cts, this.fleetCheckCallback.selector);
+        fleetChecks[requestId] = FleetCheck({ gameId: gameId, player: msg.sender, processed: false });
+        fleetStatus[gameId][msg.sender] = FleetStatus.Pending;
+        emit FleetCheckRequested(requestId, gameId, msg.sender);
+    }
+
+    function fleetCheckCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        FleetCheck storage check = fleetChecks[requestId];
+        if (check.player == address(0)) revert UnknownRequest();
+        if (check.processed) revert ReplayDetected();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        check.processed = true;
+
+        bool valid = abi.decode(cleartexts, (bool));
+        Game storage game = games[check.gameId];
+        // A rejected fleet is simply replaced by the next submission
+        fleetStatus[check.gameId][check.player] = valid ? FleetStatus.Accepted : FleetStatus.None;
+        emit FleetChecked(check.gameId, check.player, valid);
+
+        if (
+            game.status == GameStatus.Placing &&
+            fleetStatus[check.gameId][game.players[0]] == FleetStatus.Accepted &&
+            fleetStatus[check.gameId][game.players[1]] == FleetStatus.Accepted
+        ) {
+            game.status = GameStatus.Active;
+            _resetDeadline(game);
+            emit GameStarted(check.gameId, game.players[game.turn]);
+            _openBatch(check.gameId);
+        }
+    }
+
+    function submitMove(
+        uint256 gameId,
+        externalEuint32 _targetXInput,
+        externalEuint32 _targetYInput,
+        bytes calldata _inputProof
+    )
+        external
+        whenNotPaused
+        checkSubmissionCooldown
+        onlyParticipant(gameId)
+        inStatus(gameId, GameStatus.Active)
+        onlyTurn(gameId)
+        checkBatchOpen(gameId)
+    {
+        if (games[gameId].salvo) revert InvalidSalvo();
+        _pushMove(gameId, FHE.fromExternal(_targetXInput, _inputProof), FHE.fromExternal(_targetYInput, _inputProof));
+        _endTurn(gameId);
         lastSubmissionTime[msg.sender] = block.timestamp;
-        emit MoveSubmitted(msg.sender, currentBatchId, batchMoves[currentBatchId].length - 1);
     }
 
-    function requestBatchDecryption() external onlyProvider whenNotPaused checkDecryptionCooldown {
-        if (batchMoves[currentBatchId].length == 0) revert("No moves to decrypt");
+    // Salvo variant: every shot of a turn lands in the same batch, so the whole
+    // salvo is decrypted and revealed together by requestBatchDecryption. It is
+    // one shot at most per ship of the sender's that revealed batches left afloat
+    function submitSalvo(
+        uint256 gameId,
+        externalEuint32[] calldata _targetXInputs,
+        externalEuint32[] calldata _targetYInputs,
+        bytes calldata _inputProof
+    )
+        external
+        whenNotPaused
+        checkSubmissionCooldown
+        onlyParticipant(gameId)
+        inStatus(gameId, GameStatus.Active)
+        onlyTurn(gameId)
+        checkBatchOpen(gameId)
+    {
+        Game storage game = games[gameId];
+        uint256 shots = _targetXInputs.length;
+        uint256 afloat = game.fleetSize - tallies[gameId][_opponent(game, msg.sender)].sunk;
+        if (!game.salvo || shots == 0 || shots != _targetYInputs.length || shots > MAX_SALVO_SHOTS || shots > afloat) {
+            revert InvalidSalvo();
+        }
+        for (uint256 i = 0; i < shots; i++) {
+            _pushMove(
+                gameId,
+                FHE.fromExternal(_targetXInputs[i], _inputProof),
+                FHE.fromExternal(_targetYInputs[i], _inputProof)
+            );
+        }
+        _endTurn(gameId);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        emit SalvoSubmitted(gameId, msg.sender, game.batchId, shots);
+    }
 
-        bytes32[] memory cts = new bytes32[](3 * batchMoves[currentBatchId].length);
-        for (uint256 i = 0; i < batchMoves[currentBatchId].length; i++) {
-            GameMove storage move = batchMoves[currentBatchId][i];
-            cts[3*i] = move.playerId.toBytes32();
-            cts[3*i + 1] = move.targetX.toBytes32();
-            cts[3*i + 2] = move.targetY.toBytes32();
+    /**
+     * Wins the game for a player whose opponent let the deadline pass: while
+     * placing, by not getting a legal fleet in when the caller's is; while
+     * active, by not moving on their turn. The stake is forfeited with it.
+     */
+    function claimTimeoutVictory(uint256 gameId) external whenNotPaused onlyParticipant(gameId) {
+        Game storage game = games[gameId];
+        // Nobody can move while a provider has intake closed
+        if (game.status == GameStatus.Active && !game.batchOpen) revert BatchNotOpen();
+        if (block.timestamp <= _turnDeadline(game)) revert DeadlineNotReached();
+        address opponent = _opponent(game, msg.sender);
+        if (game.status == GameStatus.Placing) {
+            if (
+                fleetStatus[gameId][msg.sender] != FleetStatus.Accepted ||
+                fleetStatus[gameId][opponent] == FleetStatus.Accepted
+            ) revert NothingToClaim();
+        } else if (game.status == GameStatus.Active) {
+            if (game.players[game.turn] != opponent) revert NothingToClaim();
+        } else {
+            revert InvalidGameStatus();
         }
+        emit TimeoutClaimed(gameId, msg.sender, opponent);
+        _finishGame(game, gameId, msg.sender);
+    }
 
+    /**
+     * Ends a match as a draw when the placement deadline passes with neither
+     * fleet accepted; nobody is at fault, so both stakes are refunded.
+     */
+    function abandonGame(
+        uint256 gameId
+    ) external whenNotPaused onlyParticipant(gameId) inStatus(gameId, GameStatus.Placing) {
+        Game storage game = games[gameId];
+        if (block.timestamp <= _turnDeadline(game)) revert DeadlineNotReached();
+        if (
+            fleetStatus[gameId][game.players[0]] == FleetStatus.Accepted ||
+            fleetStatus[gameId][game.players[1]] == FleetStatus.Accepted
+        ) revert NothingToClaim();
+        _finishGame(game, gameId, address(0));
+    }
+
+    // Payouts a recipient couldn't take at the time, e.g. a contract wallet
+    // that rejected ETH; kept per token until they call for them
+    function withdrawPayout(address token) external {
+        uint256 amount = pendingPayouts[msg.sender][token];
+        if (amount == 0) revert NothingToClaim();
+        pendingPayouts[msg.sender][token] = 0;
+        if (!_transferOut(token, msg.sender, amount)) revert TransferFailed();
+        emit PayoutWithdrawn(msg.sender, token, amount);
+    }
+
+    function requestBatchDecryption(
+        uint256 gameId
+    ) external whenNotPaused checkDecryptionCooldown gameExists(gameId) {
+        Game storage game = games[gameId];
+        if (!providers[msg.sender] && !_isParticipant(game, msg.sender)) revert NotParticipant();
+        uint256 batchId = game.batchId;
+        if (batchMoves[batchId].length == 0) revert NoMovesToDecrypt();
+        if (batchRequested[batchId]) revert BatchAlreadyRequested();
+        batchRequested[batchId] = true;
+
+        bytes32[] memory cts = _batchCiphertexts(batchId);
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
         decryptionContexts[requestId] = DecryptionContext({
-            batchId: currentBatchId,
+            batchId: batchId,
             stateHash: stateHash,
             processed: false
         });
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
-        emit DecryptionRequested(requestId, currentBatchId);
+        emit DecryptionRequested(requestId, gameId, batchId);
+
+        // Later moves go to a fresh batch so the pending one can't change
+        if (game.batchOpen) {
+            emit BatchClosed(gameId, batchId);
+            _openBatch(gameId);
+        }
     }
 
     function myCallback(
@@ -223,14 +593,9 @@ contract BattleshipPlusFHE is SepoliaConfig {
         // Rebuild ciphertexts from current storage in the exact same order
         // as during requestBatchDecryption
         uint256 batchId = decryptionContexts[requestId].batchId;
+        if (batchResolved[batchId]) revert ReplayDetected();
         uint256 numMoves = batchMoves[batchId].length;
-        bytes32[] memory currentCts = new bytes32[](3 * numMoves);
-        for (uint256 i = 0; i < numMoves; i++) {
-            GameMove storage move = batchMoves[batchId][i];
-            currentCts[3*i] = move.playerId.toBytes32();
-            currentCts[3*i + 1] = move.targetX.toBytes32();
-            currentCts[3*i + 2] = move.targetY.toBytes32();
-        }
+        bytes32[] memory currentCts = _batchCiphertexts(batchId);
 
         // Verify state hash
         bytes32 currentStateHash = _hashCiphertexts(currentCts);
@@ -238,35 +603,351 @@ contract BattleshipPlusFHE is SepoliaConfig {
             revert StateMismatch();
         }
 
-        // Verify proof
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidProof();
-        }
+        // Verify proof; reverts unless the KMS signed exactly these cleartexts,
+        // one word per ciphertext
+        if (cleartexts.length != MOVE_CLEARTEXTS * 32 * numMoves) revert InvalidProof();
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
-        // Decode cleartexts (example: assuming 3 uint32s per move)
-        uint256 offset = 0;
-        uint256[] memory playerIds = new uint256[](numMoves);
-        uint256[] memory targetXs = new uint256[](numMoves);
-        uint256[] memory targetYs = new uint256[](numMoves);
-        for (uint256 i = 0; i < numMoves; i++) {
-            playerIds[i] = abi.decode(cleartexts, (uint256));
-            offset += 32;
-            cleartexts = cleartexts[offset:];
-            targetXs[i] = abi.decode(cleartexts, (uint256));
-            offset += 32;
-            cleartexts = cleartexts[offset:];
-            targetYs[i] = abi.decode(cleartexts, (uint256));
-            offset += 32;
-            if (offset < cleartexts.length) cleartexts = cleartexts[offset:];
-        }
-        
         // Mark as processed
         decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, batchId);
-        // Further game logic using decrypted playerIds, targetXs, targetYs would go here
+        batchResolved[batchId] = true;
+        uint256 gameId = batchGame[batchId];
+        emit DecryptionCompleted(requestId, gameId, batchId);
+
+        // Cleartexts are in the order of _batchCiphertexts, one word per value
+        for (uint256 i = 0; i < numMoves; i++) {
+            uint256 base = MOVE_CLEARTEXTS * i;
+            _applyMove(
+                gameId,
+                batchId,
+                i,
+                uint32(_cleartextWord(cleartexts, base)),
+                uint32(_cleartextWord(cleartexts, base + 1)),
+                uint8(_cleartextWord(cleartexts, base + 2))
+            );
+        }
+    }
+
+    function _applyMove(
+        uint256 gameId,
+        uint256 batchId,
+        uint256 moveIndex,
+        uint32 targetX,
+        uint32 targetY,
+        uint8 outcome
+    ) internal {
+        address player = batchMoves[batchId][moveIndex].player;
+        PlayerTally storage tally = tallies[gameId][player];
+        tally.shots += 1;
+        if (outcome != OUTCOME_MISS) tally.hits += 1;
+        if (outcome == OUTCOME_SUNK) tally.sunk += 1;
+        emit MoveResolved(gameId, player, batchId, moveIndex, targetX, targetY, outcome);
+
+        // Batches can resolve after the game is decided; they still count
+        // towards the tallies but can't change the winner or the sealed log
+        Game storage game = games[gameId];
+        if (game.status != GameStatus.Active) return;
+        MoveLog storage log = moveLogs[gameId];
+        log.hash = keccak256(abi.encode(log.hash, player, targetX, targetY, outcome));
+        log.moves += 1;
+        if (tally.sunk == game.fleetSize) {
+            _finishGame(game, gameId, player);
+        }
+    }
+
+    // A winner of address(0) is a draw, or a match called off before it
+    // started: each player who staked gets their stake back
+    function _finishGame(Game storage game, uint256 gameId, address winner) internal {
+        game.status = GameStatus.Finished;
+        game.winner = winner;
+        game.batchOpen = false;
+        game.turnDeadline = 0;
+        emit GameFinished(gameId, winner);
+        MoveLog storage log = moveLogs[gameId];
+        log.sealedAt = uint64(block.timestamp);
+        emit MoveLogSealed(gameId, log.hash, log.moves, log.sealedAt);
+
+        if (game.stake == 0) return;
+        if (winner != address(0)) {
+            _payStake(game, gameId, winner, 2 * game.stake);
+        } else {
+            for (uint256 i = 0; i < 2; i++) {
+                if (game.players[i] != address(0)) _payStake(game, gameId, game.players[i], game.stake);
+            }
+        }
+    }
+
+    function _depositStake(Game storage game, uint256 gameId) internal {
+        if (game.stakeToken == address(0)) {
+            if (msg.value != game.stake) revert InvalidStake();
+        } else {
+            if (msg.value != 0) revert InvalidStake();
+            bool ok = _callToken(
+                game.stakeToken,
+                abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), game.stake))
+            );
+            if (!ok) revert TransferFailed();
+        }
+        if (game.stake > 0) emit StakeDeposited(gameId, msg.sender, game.stakeToken, game.stake);
+    }
+
+    // Payouts happen inside oracle callbacks and timeout claims, which must
+    // not fail because of the recipient, so a rejected transfer is credited
+    // to pendingPayouts instead of reverting
+    function _payStake(Game storage game, uint256 gameId, address recipient, uint256 amount) internal {
+        address token = game.stakeToken;
+        if (_transferOut(token, recipient, amount)) {
+            emit StakePaid(gameId, recipient, token, amount);
+        } else {
+            pendingPayouts[recipient][token] += amount;
+            emit PayoutDeferred(gameId, recipient, token, amount);
+        }
+    }
+
+    function _transferOut(address token, address to, uint256 amount) internal returns (bool) {
+        if (token == address(0)) {
+            (bool sent, ) = to.call{ value: amount }("");
+            return sent;
+        }
+        return _callToken(token, abi.encodeCall(IERC20.transfer, (to, amount)));
+    }
+
+    function _callToken(address token, bytes memory data) internal returns (bool) {
+        if (token.code.length == 0) return false;
+        (bool success, bytes memory returned) = token.call(data);
+        return success && (returned.length == 0 || abi.decode(returned, (bool)));
+    }
+
+    function _cleartextWord(bytes memory cleartexts, uint256 index) internal pure returns (uint256 word) {
+        assembly {
+            word := mload(add(cleartexts, mul(add(index, 1), 32)))
+        }
+    }
+
+    function _isParticipant(Game storage game, address account) internal view returns (bool) {
+        return account != address(0) && (game.players[0] == account || game.players[1] == account);
+    }
+
+    function _opponent(Game storage game, address player) internal view returns (address) {
+        return game.players[0] == player ? game.players[1] : game.players[0];
+    }
+
+    function _openBatch(uint256 gameId) internal {
+        uint256 batchId = ++currentBatchId;
+        games[gameId].batchId = batchId;
+        games[gameId].batchOpen = true;
+        batchGame[batchId] = gameId;
+        emit BatchOpened(gameId, batchId);
+    }
+
+    function _endTurn(uint256 gameId) internal {
+        games[gameId].turn = 1 - games[gameId].turn;
+        _resetDeadline(games[gameId]);
+    }
+
+    function _resetDeadline(Game storage game) internal {
+        _setDeadline(game, turnTimeoutSeconds);
+    }
+
+    function _setDeadline(Game storage game, uint256 secondsLeft) internal {
+        game.turnDeadline = uint64(block.timestamp + secondsLeft);
+        game.deadlinePausedSeconds = pausedSeconds;
+    }
+
+    // The deadline pushed back by the time spent paused since it was set,
+    // counting a pause still going on; zero when no deadline is running
+    function _turnDeadline(Game storage game) internal view returns (uint256) {
+        if (game.turnDeadline == 0) return 0;
+        uint256 stopped = pausedSeconds - game.deadlinePausedSeconds;
+        if (paused) stopped += block.timestamp - pausedAt;
+        return game.turnDeadline + stopped;
+    }
+
+    function _pushMove(uint256 gameId, euint32 _targetX, euint32 _targetY) internal {
+        Game storage game = games[gameId];
+        _initIfNeeded(_targetX);
+        _initIfNeeded(_targetY);
+
+        // Off-board shots are moved to the sentinel cell (boardSize, boardSize),
+        // which can never hold a ship, so they decrypt as a harmless miss
+        ebool inBounds = _inBounds(game, _targetX, _targetY);
+        euint32 sentinel = FHE.asEuint32(game.boardSize);
+        euint32 targetX = FHE.select(inBounds, _targetX, sentinel);
+        euint32 targetY = FHE.select(inBounds, _targetY, sentinel);
+        // The defender may decrypt where they were shot at straight away, and
+        // the attacker the outcome; everyone else waits for the batch reveal
+        address defender = _opponent(game, msg.sender);
+        FHE.allowThis(targetX);
+        FHE.allowThis(targetY);
+        FHE.allow(targetX, defender);
+        FHE.allow(targetY, defender);
+
+        euint8 outcome = _resolveShot(gameId, defender, targetX, targetY);
+        FHE.allowThis(outcome);
+        FHE.allow(outcome, msg.sender);
+
+        batchMoves[game.batchId].push(GameMove(msg.sender, targetX, targetY, outcome));
+        emit MoveSubmitted(gameId, msg.sender, game.batchId, batchMoves[game.batchId].length - 1, outcome);
+    }
+
+    // Checks the shot against every ship of `defender` without branching on
+    // anything encrypted: each ship's health is rewritten whether or not it
+    // was struck, so neither storage writes nor gas reveal which one was
+    function _resolveShot(
+        uint256 gameId,
+        address defender,
+        euint32 targetX,
+        euint32 targetY
+    ) internal returns (euint8) {
+        uint8 fleetSize = games[gameId].fleetSize;
+        ebool hit = FHE.asEbool(false);
+        ebool sunk = FHE.asEbool(false);
+        for (uint8 i = 0; i < fleetSize; i++) {
+            Ship storage ship = gameShips[gameId][defender][i];
+            // Sunk ships can't be struck again
+            ebool struck = FHE.and(_covers(ship, targetX, targetY), FHE.gt(ship.health, 0));
+            // One coordinate matches the origin's, so this is the cell's index
+            // along the ship; it is garbage, and unused, when nothing was struck
+            euint32 offset = FHE.add(FHE.sub(targetX, ship.x), FHE.sub(targetY, ship.y));
+            euint32 bit = FHE.shl(FHE.asEuint32(1), FHE.asEuint8(offset));
+            // A cell that was already hit reports a hit but does no more damage
+            ebool fresh = FHE.and(struck, FHE.eq(FHE.and(ship.hits, bit), 0));
+            euint32 health = FHE.select(fresh, FHE.sub(ship.health, 1), ship.health);
+            euint32 hits = FHE.or(ship.hits, FHE.select(fresh, bit, FHE.asEuint32(0)));
+            FHE.allowThis(health);
+            FHE.allowThis(hits);
+            FHE.allow(health, defender);
+            FHE.allow(hits, defender);
+            ship.health = health;
+            ship.hits = hits;
+            hit = FHE.or(hit, struck);
+            sunk = FHE.or(sunk, FHE.and(fresh, FHE.eq(health, 0)));
+        }
+        return FHE.select(
+            sunk,
+            FHE.asEuint8(OUTCOME_SUNK),
+            FHE.select(hit, FHE.asEuint8(OUTCOME_HIT), FHE.asEuint8(OUTCOME_MISS))
+        );
+    }
+
+    // A revealed move is where it landed and what it hit, as a called shot
+    // would be in the board game; ship positions are never decrypted
+    function _batchCiphertexts(uint256 batchId) internal view returns (bytes32[] memory cts) {
+        GameMove[] storage moves = batchMoves[batchId];
+        cts = new bytes32[](MOVE_CLEARTEXTS * moves.length);
+        for (uint256 i = 0; i < moves.length; i++) {
+            cts[MOVE_CLEARTEXTS * i] = moves[i].targetX.toBytes32();
+            cts[MOVE_CLEARTEXTS * i + 1] = moves[i].targetY.toBytes32();
+            cts[MOVE_CLEARTEXTS * i + 2] = FHE.toBytes32(moves[i].outcome);
+        }
+    }
+
+    function _storeShip(uint256 gameId, uint256 index, ShipInput calldata input, bytes calldata _inputProof) internal {
+        euint32 _typeId = FHE.fromExternal(input.typeId, _inputProof);
+        euint32 _x = FHE.fromExternal(input.x, _inputProof);
+        euint32 _y = FHE.fromExternal(input.y, _inputProof);
+        euint32 _orientation = FHE.fromExternal(input.orientation, _inputProof);
+        euint32 _length = FHE.fromExternal(input.length, _inputProof);
+        _initIfNeeded(_typeId);
+        _initIfNeeded(_x);
+        _initIfNeeded(_y);
+        _initIfNeeded(_orientation);
+        _initIfNeeded(_length);
+
+        Ship memory ship = Ship({
+            typeId: _typeId,
+            x: _x,
+            y: _y,
+            orientation: _orientation,
+            length: _length,
+            health: _length,
+            hits: FHE.asEuint32(0)
+        });
+        euint32[7] memory handles = [ship.typeId, ship.x, ship.y, ship.orientation, ship.length, ship.health, ship.hits];
+        for (uint256 i = 0; i < handles.length; i++) {
+            FHE.allowThis(handles[i]);
+            // The owner may user-decrypt their own fleet, e.g. to show ship
+            // health; every hit re-grants this on the new health handle
+            FHE.allow(handles[i], msg.sender);
+        }
+        gameShips[gameId][msg.sender][index] = ship;
+        emit ShipSubmitted(gameId, msg.sender, index);
+    }
+
+    // Folds every placement rule into one encrypted bit: each ship lies on
+    // the board with the length of its type, no two ships share a cell, and
+    // the fleet has exactly the game's count of each type
+    function _validateFleet(uint256 gameId, address player) internal returns (ebool valid) {
+        Game storage game = games[gameId];
+        uint256 fleetSize = game.fleetSize;
+        euint32[] memory endXs = new euint32[](fleetSize);
+        euint32[] memory endYs = new euint32[](fleetSize);
+        euint32[SHIP_TYPE_COUNT] memory counts;
+        for (uint256 t = 0; t < SHIP_TYPE_COUNT; t++) counts[t] = FHE.asEuint32(0);
+
+        valid = FHE.asEbool(true);
+        for (uint256 i = 0; i < fleetSize; i++) {
+            Ship storage ship = gameShips[gameId][player][i];
+            (endXs[i], endYs[i]) = _shipEnd(ship);
+            euint32 expectedLength = FHE.asEuint32(0);
+            for (uint256 t = 0; t < SHIP_TYPE_COUNT; t++) {
+                ebool isType = FHE.eq(ship.typeId, uint32(t));
+                counts[t] = FHE.add(counts[t], FHE.asEuint32(isType));
+                expectedLength = FHE.select(isType, FHE.asEuint32(_shipLength(t)), expectedLength);
+            }
+            // An unknown type leaves expectedLength at zero, which no ship matches
+            valid = FHE.and(valid, FHE.eq(ship.length, expectedLength));
+            valid = FHE.and(valid, FHE.le(ship.orientation, 1));
+            // Lengths are at most 5 once checked, so the ends can't wrap around
+            valid = FHE.and(valid, _inBounds(game, ship.x, ship.y));
+            valid = FHE.and(valid, _inBounds(game, endXs[i], endYs[i]));
+
+            for (uint256 j = 0; j < i; j++) {
+                Ship storage other = gameShips[gameId][player][j];
+                // Two straight segments overlap iff their row and column ranges both do
+                ebool overlaps = FHE.and(
+                    FHE.and(FHE.le(ship.x, endXs[j]), FHE.le(other.x, endXs[i])),
+                    FHE.and(FHE.le(ship.y, endYs[j]), FHE.le(other.y, endYs[i]))
+                );
+                valid = FHE.and(valid, FHE.not(overlaps));
+            }
+        }
+        for (uint256 t = 0; t < SHIP_TYPE_COUNT; t++) {
+            valid = FHE.and(valid, FHE.eq(counts[t], uint32(game.fleetCounts[t])));
+        }
+    }
+
+    // Last cell of the ship, the origin when length is one
+    function _shipEnd(Ship storage ship) internal returns (euint32 endX, euint32 endY) {
+        ebool vertical = FHE.eq(ship.orientation, 1);
+        euint32 span = FHE.sub(ship.length, 1);
+        euint32 zero = FHE.asEuint32(0);
+        endX = FHE.add(ship.x, FHE.select(vertical, span, zero));
+        endY = FHE.add(ship.y, FHE.select(vertical, zero, span));
+    }
+
+    function _covers(Ship storage ship, euint32 targetX, euint32 targetY) internal returns (ebool) {
+        (euint32 endX, euint32 endY) = _shipEnd(ship);
+        return FHE.and(
+            FHE.and(FHE.le(ship.x, targetX), FHE.le(targetX, endX)),
+            FHE.and(FHE.le(ship.y, targetY), FHE.le(targetY, endY))
+        );
+    }
+
+    // Cells per ship type id; matches SHIP_TYPES in the web client
+    function _shipLength(uint256 typeId) internal pure returns (uint32) {
+        if (typeId == 1) return 5; // Carrier
+        if (typeId == 3) return 4; // Battleship
+        if (typeId == 2) return 2; // Destroyer
+        return 3; // Submarine, Cruiser
+    }
+
+    function _inBounds(Game storage game, euint32 x, euint32 y) internal returns (ebool) {
+        euint32 size = FHE.asEuint32(game.boardSize);
+        return FHE.and(FHE.lt(x, size), FHE.lt(y, size));
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
@@ -0,0 +1,62 @@
+pragma solidity ^0.8.24;
+
+/**
+ * Append-only log of finished games. Every record gets the next index and is
+ * never rewritten, so concurrent writers can't overwrite each other; readers
+ * page through it newest first with getRecords.
+ */
+contract GameRecords {
+    uint256 public constant MAX_RECORD_BYTES = 4096;
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    struct GameRecord {
+        address author;
+        uint64 timestamp;
+        bytes data; // The client's encoding of the game, UTF-8 JSON for the web app
+    }
+    GameRecord[] internal records;
+
+    event RecordAppended(uint256 indexed index, address indexed author, bytes data);
+
+    error EmptyRecord();
+    error RecordTooLarge();
+    error RecordNotFound();
+    error InvalidPageSize();
+
+    function appendRecord(bytes calldata data) external returns (uint256 index) {
+        if (data.length == 0) revert EmptyRecord();
+        if (data.length > MAX_RECORD_BYTES) revert RecordTooLarge();
+        index = records.length;
+        records.push(GameRecord({ author: msg.sender, timestamp: uint64(block.timestamp), data: data }));
+        emit RecordAppended(index, msg.sender, data);
+    }
+
+    function recordCount() external view returns (uint256) {
+        return records.length;
+    }
+
+    function getRecord(uint256 index) external view returns (GameRecord memory) {
+        if (index >= records.length) revert RecordNotFound();
+        return records[index];
+    }
+
+    /**
+     * Up to `limit` records below index `before`, newest first, with the
+     * indexes they sit at. Pass recordCount() for the first page and the last
+     * index returned for the next; appends in between don't shift the pages.
+     */
+    function getRecords(
+        uint256 before,
+        uint256 limit
+    ) external view returns (uint256[] memory indexes, GameRecord[] memory page) {
+        if (limit == 0 || limit > MAX_PAGE_SIZE) revert InvalidPageSize();
+        if (before > records.length) before = records.length;
+        uint256 count = before < limit ? before : limit;
+        indexes = new uint256[](count);
+        page = new GameRecord[](count);
+        for (uint256 i = 0; i < count; i++) {
+            indexes[i] = before - 1 - i;
+            page[i] = records[indexes[i]];
+        }
+    }
+}
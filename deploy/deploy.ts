@@ -339,8 +339,27 @@ async function main() {
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
+    // The web client's event indexer starts reading each contract's logs here
+    const deployBlocks: Record<string, number> = {};
+    deployBlocks.adapter = (await factory.deploymentTransaction()?.wait())?.blockNumber ?? 0;
     console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+    const BattleshipFactory = await hardhatEthers.getContractFactory("BattleshipPlusFHE", wallet);
+    const game = await BattleshipFactory.deploy();
+    await game.waitForDeployment();
+    deployBlocks.game = (await game.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+
+    const gameAddress = await game.getAddress();
+    console.log("BattleshipPlusFHE contract deployed at:", gameAddress);
+
+    const RecordsFactory = await hardhatEthers.getContractFactory("GameRecords", wallet);
+    const records = await RecordsFactory.deploy();
+    await records.waitForDeployment();
+    deployBlocks.records = (await records.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+
+    const recordsAddress = await records.getAddress();
+    console.log("GameRecords contract deployed at:", recordsAddress);
+
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
       const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
@@ -358,15 +377,18 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const previous = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {};
       const config = {
+        ...previous,
         network: rpc,
         contractAddress: deployedAddress,
+        gameContractAddress: gameAddress,
+        recordsContractAddress: recordsAddress,
+        deployBlocks,
         deployer: wallet.address,
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
       try {
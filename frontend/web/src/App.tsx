@@ -1,38 +1,83 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import { Link, Route, Routes } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getReadProvider, getRecordsContractWithSigner, GAME_CONTRACT_ADDRESS } from "./contract";
+import {
+  clearDecryptionSession,
+  createDecryptionSession,
+  DecryptionSession,
+  getFheInstance,
+  loadDecryptionSession,
+  sessionExpiry
+} from "./fhe";
+import { BattleshipClient, MatchStake, TurnClock, getGameClient } from "./gameClient";
+import { EventIndexer, IndexedEvent, openEventIndexer } from "./indexer";
+import {
+  decodeFiledRecord,
+  encodeFiledRecord,
+  GameResult,
+  LoggedRecord,
+  recordDomain,
+  RecordVerification,
+  resultDigest,
+  signGameResult,
+  verifyRecords,
+  VerifiedRecord
+} from "./records";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-// Ship types and their abilities
-const SHIP_TYPES = {
-  CARRIER: { name: "Aircraft Carrier", size: 5, ability: "Range Attack" },
-  BATTLESHIP: { name: "Battleship", size: 4, ability: "Armor Piercing" },
-  CRUISER: { name: "Cruiser", size: 3, ability: "Radar Scan" },
-  SUBMARINE: { name: "Submarine", size: 3, ability: "Stealth" },
-  DESTROYER: { name: "Destroyer", size: 2, ability: "Sonar Ping" }
-};
-
-// Game state
-interface GameState {
-  board: string[][];
-  ships: Ship[];
-  playerTurn: boolean;
-  gameOver: boolean;
-  winner: string;
-}
-
-interface Ship {
-  id: string;
-  type: string;
-  positions: { x: number; y: number }[];
-  health: number;
-  ability: string;
-  encryptedType: string;
-}
+import { useAccount, useSignTypedData } from 'wagmi';
+import {
+  attack,
+  checkTargets,
+  combatStats,
+  createGame,
+  endTurn,
+  fireSalvo,
+  fogOfWar,
+  GameRuleError,
+  isFleetPlaced,
+  isInBounds,
+  isShipPlaced,
+  isShipSunk,
+  isTargeted,
+  placeShip as placeShipSegment,
+  previewPlacement,
+  recordShot,
+  recordShots,
+  resolveShot,
+  rotate,
+  salvoSize,
+  SHIP_TYPES,
+  shotAccuracy,
+  tallyShots
+} from "./game/rules";
+import { AI_LEVELS, AiLevel, chooseSalvo, chooseTarget, placeRandomFleet } from "./game/ai";
+import { ABILITIES, abilityArea, abilityBlocker, activateAbility } from "./game/abilities";
+import { logEvents } from "./game/log";
+import { presetFor } from "./game/presets";
+import NewGameDialog, { Opponent } from "./components/NewGameDialog";
+import LeaderboardPage from "./components/LeaderboardPage";
+import ReplayPage from "./components/ReplayPage";
+import { computeRatings, PlayerRating } from "./ratings";
+import {
+  AbilityResult,
+  AttackOutcome,
+  AttackResult,
+  Board,
+  BoardView,
+  CombatStats,
+  Coordinate,
+  GameEvent,
+  GameState,
+  Ocean,
+  Orientation,
+  RulePreset,
+  Ship,
+  ShipTypeKey
+} from "./game/types";
 
 interface GameRecord {
   id: string;
@@ -41,113 +86,495 @@ interface GameRecord {
   timestamp: number;
   winner: string;
   moves: number;
+  aiLevel?: AiLevel;
+  /** On-chain match id, for online games. */
+  matchId?: string;
+  rules?: {
+    preset: string;
+    boardSize: number;
+    fleet: ShipTypeKey[];
+    abilities: boolean;
+    salvo?: boolean;
+  };
+  /** Each player's stake in a wagered match, in base units of `token` (the zero address for ETH). */
+  stake?: { token: string; amount: string };
+  /** The pot as paid to the winner; deferred if they have yet to withdraw it. */
+  payout?: { token: string; amount: string; transactionHash: string; deferred: boolean };
+  /**
+   * Each filer's own shots, sinkings and abilities, by lowercased address.
+   * A copy only counts for its signer, so a player can't file the other's.
+   */
+  combat?: Record<string, CombatStats>;
+  /** What backs the record; "unsigned" for ones filed before records were signed. */
+  verification: RecordVerification | "unsigned";
+}
+
+// What a filed record carries besides the signed result
+type RecordDetails = Pick<GameRecord, "aiLevel" | "rules" | "stake" | "payout" | "combat">;
+
+// A player's record over the games loaded, with their combat summed over the
+// games that carry it
+interface LifetimeStats extends CombatStats {
+  wins: number;
+  losses: number;
+  /** Games with combat figures; records filed before they were kept have none. */
+  recordedGames: number;
+  /** Average turns taken in recorded wins; null without one. */
+  turnsToVictory: number | null;
 }
 
-const BOARD_SIZE = 10;
+const EMPTY_STATS: LifetimeStats = {
+  wins: 0, losses: 0, recordedGames: 0, shots: 0, hits: 0, misses: 0, sunk: 0, abilitiesUsed: 0, turns: 0, turnsToVictory: null
+};
+
+// Games listed in the per-game breakdown
+const RECENT_BATTLES = 5;
+
+// Records per page of the game history
+const RECORDS_PAGE_SIZE = 20;
+
+// Records that can't name anyone but their signers falsely
+const TRUSTED_RECORDS: readonly GameRecord["verification"][] = ["co-signed", "attested", "self-signed"];
+
+// Online results both players or the contract vouch for; anyone can file a
+// record naming any winner, so only these are rated
+const RANKED_RECORDS: readonly GameRecord["verification"][] = ["co-signed", "attested"];
+
+const parseGameRecord = (id: string, text: string): GameRecord | null => {
+  try {
+    const recordData = JSON.parse(text);
+    return {
+      id,
+      player: recordData.player,
+      opponent: recordData.opponent,
+      timestamp: recordData.timestamp,
+      winner: recordData.winner,
+      moves: recordData.moves,
+      aiLevel: recordData.aiLevel,
+      matchId: recordData.matchId,
+      rules: recordData.rules,
+      stake: recordData.stake,
+      payout: recordData.payout,
+      verification: "unsigned"
+    };
+  } catch (e) {
+    console.error(`Error parsing record data for ${id}:`, e);
+    return null;
+  }
+};
+
+const toGameRecord = (
+  { digest, result, details, signers, signedDetails }: VerifiedRecord<RecordDetails>,
+  verification: RecordVerification
+): GameRecord => {
+  const [player, opponent] = result.players;
+  const againstAi = opponent === ethers.ZeroAddress;
+  const combat: Record<string, CombatStats> = {};
+  signers.forEach((signer, i) => {
+    const own = signedDetails[i].combat?.[signer.toLowerCase()];
+    if (own) combat[signer.toLowerCase()] = own;
+  });
+  return {
+    ...details,
+    combat,
+    id: digest,
+    player,
+    opponent: againstAi ? "AI" : opponent,
+    timestamp: result.timestamp,
+    winner: againstAi && result.winner === ethers.ZeroAddress ? "AI" : result.winner,
+    moves: result.moves,
+    matchId: result.matchId > 0n ? result.matchId.toString() : undefined,
+    verification
+  };
+};
+
+// Splits record log entries into signed copies and records from before signing
+const decodeEntries = (events: readonly IndexedEvent[]) => {
+  const filed: LoggedRecord<RecordDetails>[] = [];
+  const unsigned: GameRecord[] = [];
+  for (const event of events) {
+    const text = ethers.toUtf8String(event.args.data as string);
+    try {
+      const record = decodeFiledRecord<RecordDetails>(text);
+      if (record) filed.push({ ...record, author: event.args.author as string });
+      else {
+        const legacy = parseGameRecord(`record-${event.recordIndex}`, text);
+        if (legacy) unsigned.push(legacy);
+      }
+    } catch (e) { console.error(`Error parsing record ${event.recordIndex}:`, e); }
+  }
+  return { filed, unsigned };
+};
+
+// Signed copies are verified and merged into one record per result; records
+// from the log that predate signing are kept, flagged as unsigned
+const readGameRecords = async (events: readonly IndexedEvent[], indexer: EventIndexer): Promise<GameRecord[]> => {
+  const { filed, unsigned } = decodeEntries(events);
+  const { chainId } = await indexer.provider.getNetwork();
+  const verified = await verifyRecords(filed, recordDomain(chainId), indexer);
+  return [...verified.map(record => toGameRecord(record, record.verification)), ...unsigned]
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// The whole record log as read so far, which the ratings and lifetime stats
+// are computed from. A result is verified when it first comes in and again
+// only when another copy of it is filed, not the whole log on every event.
+interface RecordLog {
+  readonly indexer: EventIndexer;
+  /** Index of the newest entry read, null before the first. */
+  newestIndex: number | null;
+  /** Filed copies of each result by digest, newest first. */
+  readonly copies: Map<string, LoggedRecord<RecordDetails>[]>;
+  readonly records: Map<string, GameRecord>;
+  readonly unsigned: GameRecord[];
+  /** The update in progress; updates run one after another. */
+  queue: Promise<unknown>;
+}
+
+const openRecordLog = (indexer: EventIndexer): RecordLog =>
+  ({ indexer, newestIndex: null, copies: new Map(), records: new Map(), unsigned: [], queue: Promise.resolve() });
+
+const updateRecordLog = async (log: RecordLog): Promise<GameRecord[]> => {
+  const events = await log.indexer.recordsAfter(log.newestIndex);
+  if (events.length > 0) {
+    const { filed, unsigned } = decodeEntries(events);
+    const domain = recordDomain((await log.indexer.provider.getNetwork()).chainId);
+    const copies = new Map<string, LoggedRecord<RecordDetails>[]>();
+    for (const record of filed) {
+      try {
+        const digest = resultDigest(domain, record.result);
+        copies.set(digest, [...(copies.get(digest) ?? []), record]);
+      } catch (e) { console.error("Error reading a filed result:", e); }
+    }
+    for (const [digest, added] of copies) copies.set(digest, [...added, ...(log.copies.get(digest) ?? [])]);
+    const verified = await verifyRecords([...copies.values()].flat(), domain, log.indexer);
+
+    copies.forEach((merged, digest) => {
+      log.copies.set(digest, merged);
+      log.records.delete(digest);
+    });
+    for (const record of verified) log.records.set(record.digest, toGameRecord(record, record.verification));
+    log.unsigned.push(...unsigned);
+    log.newestIndex = events[0].recordIndex!;
+  }
+  return [...log.records.values(), ...log.unsigned].sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Brings `log` up to date with the index and returns every record in it, newest first
+const readRecordLog = (log: RecordLog): Promise<GameRecord[]> => {
+  const update = log.queue.catch(() => undefined).then(() => updateRecordLog(log));
+  log.queue = update;
+  return update;
+};
+
+const isParticipant = (record: GameRecord, account: string) =>
+  [record.player, record.opponent].some(p => p.toLowerCase() === account.toLowerCase());
+
+const wonBy = (record: GameRecord, account: string) => record.winner.toLowerCase() === account.toLowerCase();
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+// Sums `account`'s games among `records`; only records that can't be forged
+// against them count
+const summarizeStats = (records: readonly GameRecord[], account: string): LifetimeStats => {
+  const stats = { ...EMPTY_STATS };
+  let winTurns = 0;
+  let recordedWins = 0;
+  for (const record of records) {
+    if (!TRUSTED_RECORDS.includes(record.verification) || !isParticipant(record, account)) continue;
+    const won = wonBy(record, account);
+    if (won) stats.wins++;
+    else stats.losses++;
+    
+    const combat = record.combat?.[account.toLowerCase()];
+    if (!combat) continue;
+    stats.recordedGames++;
+    stats.shots += combat.shots;
+    stats.hits += combat.hits;
+    stats.misses += combat.misses;
+    stats.sunk += combat.sunk;
+    stats.abilitiesUsed += combat.abilitiesUsed;
+    stats.turns += combat.turns;
+    if (won) {
+      winTurns += combat.turns;
+      recordedWins++;
+    }
+  }
+  stats.turnsToVictory = recordedWins > 0 ? winTurns / recordedWins : null;
+  return stats;
 };
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
+const describeShot = (result: AttackResult): string => {
+  const { x, y } = result.target;
+  const byEnemy = result.attacker === "enemy";
+  if (result.outcome === "sunk") {
+    // Online, the enemy fleet is hidden and a sinking doesn't name the ship
+    const shipName = result.ship?.name ?? "ship";
+    return byEnemy ? `Enemy sunk your ${shipName} at (${x},${y})` : `Sunk enemy ${shipName} at (${x},${y})`;
+  }
+  if (result.outcome === "hit") {
+    if (!byEnemy) return result.masked ? `Miss at (${x},${y})` : `Hit at (${x},${y})`;
+    return result.masked ? `Enemy hit at (${x},${y}), masked by Stealth` : `Enemy hit at (${x},${y})`;
   }
-  return parseFloat(encryptedData);
+  return byEnemy ? `Enemy missed at (${x},${y})` : `Miss at (${x},${y})`;
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const describeAbility = (result: AbilityResult): string[] => {
+  const lines = [`Used ability: ${result.ability}`, ...result.shots.map(describeShot)];
+  if (result.intel?.kind === "radar") {
+    const spotted = result.intel.sightings.filter(s => s.occupied).length;
+    lines.push(`Radar found ${spotted} ship square(s) around (${result.intel.center.x},${result.intel.center.y})`);
+  } else if (result.intel?.kind === "sonar") {
+    lines.push(`Sonar detected ${result.intel.contacts} ship(s) within ${result.intel.radius} squares of (${result.intel.center.x},${result.intel.center.y})`);
+  } else if (result.ability === "Stealth") {
+    lines.push("Fleet is running silent for the enemy's next turn");
+  }
+  return lines;
+};
+
+const shortAddress = (account: string) => `${account.substring(0, 6)}...${account.substring(38)}`;
+
+const formatCountdown = (seconds: number) => {
+  if (seconds <= 0) return "expired";
+  const h = Math.floor(seconds / 3600), m = Math.floor(seconds / 60) % 60, s = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+interface OnlineMatch {
+  id: bigint;
+  /** 0 for the creator, who shoots first; 1 for the joiner. */
+  seat: number;
+  client: BattleshipClient;
+  /** The stake each player put up, as shown to them, or null for a friendly match. */
+  stake: string | null;
+}
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
   const [loading, setLoading] = useState(true);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [selectedShip, setSelectedShip] = useState<string | null>(null);
   const [isPlacing, setIsPlacing] = useState(false);
+  const [orientation, setOrientation] = useState<Orientation>("horizontal");
+  const [hoverCell, setHoverCell] = useState<Coordinate | null>(null);
+  const [placementHistory, setPlacementHistory] = useState<GameState[]>([]);
   const [isAttacking, setIsAttacking] = useState(false);
+  const [aiLevel, setAiLevel] = useState<AiLevel>("normal");
+  const [showNewGameDialog, setShowNewGameDialog] = useState(false);
   const [gameRecords, setGameRecords] = useState<GameRecord[]>([]);
-  const [playerStats, setPlayerStats] = useState({ wins: 0, losses: 0, accuracy: 0 });
+  // Index in the record log of the oldest record loaded, where the next page starts
+  const [recordEntries, setRecordEntries] = useState<IndexedEvent[]>([]);
+  const [oldestRecordIndex, setOldestRecordIndex] = useState<number | null>(null);
+  const [hasOlderRecords, setHasOlderRecords] = useState(false);
+  const [playerStats, setPlayerStats] = useState<LifetimeStats>(EMPTY_STATS);
+  const [leaderboard, setLeaderboard] = useState<{ ratings: PlayerRating[]; uncounted: number }>({ ratings: [], uncounted: 0 });
   const [showAbilityModal, setShowAbilityModal] = useState(false);
-  const [activeAbility, setActiveAbility] = useState<string | null>(null);
+  const [activeAbility, setActiveAbility] = useState<Ship | null>(null);
+  const [aimingShipId, setAimingShipId] = useState<string | null>(null);
+  const [aimCell, setAimCell] = useState<Coordinate | null>(null);
+  const [salvoTargets, setSalvoTargets] = useState<Coordinate[]>([]);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [fheStatus, setFheStatus] = useState<"disconnected" | "connecting" | "ready" | "unavailable">("disconnected");
+  const [decryptionSession, setDecryptionSession] = useState<DecryptionSession | null>(null);
+  // Online, the player's ship health as decrypted from the contract, in fleet order
+  const [fleetHealth, setFleetHealth] = useState<number[] | null>(null);
   const [operationHistory, setOperationHistory] = useState<string[]>([]);
+  const [onlineMatch, setOnlineMatch] = useState<OnlineMatch | null>(null);
+  const [turnClock, setTurnClock] = useState<TurnClock | null>(null);
+  // The creator's match until someone takes the second seat; it can still be called off
+  const [awaitingOpponent, setAwaitingOpponent] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [eventIndexer, setEventIndexer] = useState<EventIndexer | null>(null);
+  // Bumped whenever the indexer stores new events, to re-read the records
+  const [indexVersion, setIndexVersion] = useState(0);
+  // Chain events arrive outside React's render cycle and need the latest state
+  const gameStateRef = useRef<GameState | null>(null);
+  const recordLogRef = useRef<RecordLog | null>(null);
+  // The typed event log of the game in play, and the state it was last diffed against
+  const gameLogRef = useRef<GameEvent[]>([]);
+  const loggedStateRef = useRef<GameState | null>(null);
+  gameStateRef.current = gameState;
+  
+  // Every move of the game in play goes through here, so the log takes in each
+  // transition as it happens, even ones React renders together; beginPlacement
+  // starts a new log
+  const updateGameState = (next: GameState) => {
+    gameLogRef.current = [...gameLogRef.current, ...logEvents(loggedStateRef.current, next)];
+    loggedStateRef.current = next;
+    gameStateRef.current = next;
+    setGameState(next);
+  };
 
+  // The index follows the wallet's chain, so games on a local node are
+  // indexed too. Records show from what is already stored while the first
+  // sync catches up in the background.
   useEffect(() => {
-    loadGameRecords().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+    let cancelled = false;
+    let unwatch = () => {};
+    getReadProvider(chainId)
+      .then(openEventIndexer)
+      .then(indexer => {
+        if (cancelled) return;
+        const refresh = () => setIndexVersion(version => version + 1);
+        setEventIndexer(indexer);
+        unwatch = indexer.watch(refresh);
+        indexer.sync()
+          .then(stored => { if (stored > 0 && !cancelled) refresh(); })
+          .catch(e => console.error("Event index sync failed:", e));
+      })
+      .catch(e => {
+        console.error("Event index unavailable:", e);
+        setLoading(false);
+      });
+    return () => { cancelled = true; unwatch(); };
+  }, [chainId]);
+
+  useEffect(() => {
+    loadGameRecords();
+  }, [eventIndexer, indexVersion, address]);
+
+  useEffect(() => {
+    if (!chainId) { setFheStatus("disconnected"); return; }
+    let cancelled = false;
+    setFheStatus("connecting");
+    getFheInstance(chainId)
+      .then(() => { if (!cancelled) setFheStatus("ready"); })
+      .catch(e => {
+        console.error("FHE setup failed:", e);
+        if (!cancelled) setFheStatus("unavailable");
+      });
+    return () => { cancelled = true; };
+  }, [chainId]);
+
+  useEffect(() => {
+    setDecryptionSession(address && chainId ? loadDecryptionSession(chainId, address, [GAME_CONTRACT_ADDRESS]) : null);
+  }, [address, chainId]);
+
+  // A session's keys don't outlive the wallet connection or the session itself
+  useEffect(() => {
+    if (!decryptionSession) return;
+    const end = () => {
+      clearDecryptionSession(decryptionSession);
+      setDecryptionSession(null);
+    };
+    if (!isConnected) { end(); return; }
+    const timer = setTimeout(end, Math.max(0, sessionExpiry(decryptionSession) * 1000 - Date.now()));
+    return () => clearTimeout(timer);
+  }, [decryptionSession, isConnected]);
+
+  // Online, ship health comes from the contract's encrypted fleet rather than
+  // the local copy, re-read whenever the enemy has fired
+  const enemyTurns = gameState?.turnsTaken.enemy;
+  useEffect(() => {
+    setFleetHealth(null);
+  }, [onlineMatch, decryptionSession]);
+  useEffect(() => {
+    const shipCount = gameStateRef.current?.player.ships.length ?? 0;
+    if (!onlineMatch || !decryptionSession || isPlacing || shipCount === 0) return;
+    let cancelled = false;
+    onlineMatch.client.readShipHealth(decryptionSession, onlineMatch.id, shipCount)
+      .then(health => { if (!cancelled) setFleetHealth(health); })
+      .catch(e => console.error("Error decrypting ship health:", e));
+    return () => { cancelled = true; };
+  }, [onlineMatch, decryptionSession, isPlacing, enemyTurns]);
+
+  // Ticks the online turn countdown; offline nothing is on the clock
+  useEffect(() => {
+    if (!turnClock?.deadline) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [turnClock]);
+
+  useEffect(() => {
+    if (!isPlacing && !aimingShipId) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'r' || e.key === 'R') setOrientation(current => rotate(current));
     };
-    initSignatureParams();
-  }, []);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isPlacing, aimingShipId]);
 
-  const loadGameRecords = async () => {
+  const authorizeDecryption = async () => {
+    if (!address || !chainId) { alert("Please connect wallet first"); return; }
+    
+    setTransactionStatus({ visible: true, status: "pending", message: "Sign the decryption permission in your wallet..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      
-      const keysBytes = await contract.getData("game_records");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing game records:", e); }
-      }
-      
-      const records: GameRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`record_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              records.push({ 
-                id: key, 
-                player: recordData.player, 
-                opponent: recordData.opponent, 
-                timestamp: recordData.timestamp, 
-                winner: recordData.winner,
-                moves: recordData.moves
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
-      }
-      
-      records.sort((a, b) => b.timestamp - a.timestamp);
-      setGameRecords(records);
+      const instance = await getFheInstance(chainId);
+      const session = await createDecryptionSession(instance, {
+        chainId,
+        userAddress: address,
+        contractAddresses: [GAME_CONTRACT_ADDRESS],
+        signTypedData: ({ domain, types, primaryType, message }) => signTypedDataAsync({
+          domain: { ...domain, verifyingContract: domain.verifyingContract as `0x${string}` },
+          types: { [primaryType]: types[primaryType] },
+          primaryType,
+          message
+        })
+      });
+      setDecryptionSession(session);
+      setTransactionStatus({ visible: true, status: "success", message: "Decryption authorized" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("User rejected") ? "Signature rejected" : "Authorization failed";
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Records written before the record log, under the adapter's key list;
+  // it no longer grows, so they are read in one go
+  const loadLegacyRecords = async (indexer: EventIndexer): Promise<GameRecord[]> => {
+    const keysStr = await indexer.storedText("game_records");
+    let keys: string[] = [];
+    if (keysStr) {
+      try {
+        if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
+      } catch (e) { console.error("Error parsing game records:", e); }
+    }
+    
+    const records: GameRecord[] = [];
+    for (const key of keys) {
+      try {
+        const recordStr = await indexer.storedText(`record_${key}`);
+        const record = recordStr && parseGameRecord(key, recordStr);
+        if (record) records.push(record);
+      } catch (e) { console.error(`Error loading record ${key}:`, e); }
+    }
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  };
+
+  // Records come newest first, a page at a time, from the local event index,
+  // as far as it has synced; each sync that stores events loads them again.
+  // `older` appends the next page to those loaded; otherwise the first page
+  // replaces them.
+  const loadGameRecords = async (older = false) => {
+    if (!eventIndexer) return;
+    try {
+      const before = older ? oldestRecordIndex : null;
+      const page = await eventIndexer.records(before, RECORDS_PAGE_SIZE);
+      const more = page.length === RECORDS_PAGE_SIZE;
+      // The copies each player filed of a result can land on different
+      // pages, so every page loaded so far is verified together
+      const entries = older ? [...recordEntries, ...page] : page;
+      const loaded = await readGameRecords(entries, eventIndexer);
+      if (!more) loaded.push(...await loadLegacyRecords(eventIndexer));
       
-      // Calculate player stats
-      if (address) {
-        const wins = records.filter(r => r.winner.toLowerCase() === address.toLowerCase()).length;
-        const losses = records.filter(r => 
-          (r.player.toLowerCase() === address.toLowerCase() || r.opponent.toLowerCase() === address.toLowerCase()) && 
-          r.winner.toLowerCase() !== address.toLowerCase()
-        ).length;
-        
-        setPlayerStats({
-          wins,
-          losses,
-          accuracy: wins > 0 ? Math.round((wins / (wins + losses)) * 100) : 0
+      setRecordEntries(entries);
+      setGameRecords(loaded);
+      // Ratings and lifetime stats cover the whole log, read in full once
+      // and then only as it grows
+      if (!older) {
+        if (recordLogRef.current?.indexer !== eventIndexer) recordLogRef.current = openRecordLog(eventIndexer);
+        const all = await readRecordLog(recordLogRef.current);
+        const ranked = all.filter(r => RANKED_RECORDS.includes(r.verification));
+        setLeaderboard({
+          ratings: computeRatings(ranked.map(r => ({ players: [r.player, r.opponent], winner: r.winner, timestamp: r.timestamp }))),
+          uncounted: all.filter(r => !TRUSTED_RECORDS.includes(r.verification)).length
         });
+        if (address) setPlayerStats(summarizeStats(all, address));
       }
+      setOldestRecordIndex(page.length > 0 ? page[page.length - 1].recordIndex! : before);
+      setHasOlderRecords(more);
     } catch (e) { 
       console.error("Error loading game records:", e); 
     } finally { 
@@ -155,39 +582,90 @@ const App: React.FC = () => {
     }
   };
 
-  const startNewGame = async () => {
+  const openNewGameDialog = () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    
-    setTransactionStatus({ visible: true, status: "pending", message: "Initializing encrypted game..." });
+    setShowNewGameDialog(true);
+  };
+
+  const beginPlacement = (newGameState: GameState, history: string[]) => {
+    loggedStateRef.current = null;
+    gameLogRef.current = [];
+    updateGameState(newGameState);
+    setSelectedShip(newGameState.player.ships[0].id);
+    setOrientation("horizontal");
+    setPlacementHistory([]);
+    setSalvoTargets([]);
+    setIsAttacking(false);
+    setIsPlacing(true);
+    setOperationHistory(history);
+  };
+
+  const startOnlineMatch = async (rules: RulePreset, joinGameId: bigint | null, stake: MatchStake | null) => {
+    setTransactionStatus({ visible: true, status: "pending", message: joinGameId === null ? "Creating online match..." : "Joining online match..." });
     
     try {
-      // Initialize empty board
-      const board = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill('empty'));
-      
-      // Create ships with encrypted types
-      const ships: Ship[] = Object.entries(SHIP_TYPES).map(([type, shipData]) => {
-        const encryptedType = FHEEncryptNumber(Object.keys(SHIP_TYPES).indexOf(type));
-        return {
-          id: `${type}-${Date.now()}`,
-          type: shipData.name,
-          positions: [],
-          health: shipData.size,
-          ability: shipData.ability,
-          encryptedType
-        };
-      });
+      const client = await getGameClient();
+      let id: bigint;
+      let matchRules: RulePreset;
+      let matchStake = stake;
+      if (joinGameId === null) {
+        // Abilities are resolved locally, so the contract can't referee them
+        matchRules = { ...rules, abilities: false };
+        id = await client.createGame(matchRules, stake);
+      } else {
+        const info = await client.getGame(joinGameId);
+        matchRules = presetFor(info.boardSize, info.fleet, false, info.salvo);
+        matchStake = info.stake;
+        await client.joinGame(joinGameId);
+        id = joinGameId;
+      }
+      const seat = joinGameId === null ? 0 : 1;
+      const stakeLabel = matchStake ? await client.describeStake(matchStake) : null;
       
-      const newGameState: GameState = {
-        board,
-        ships,
-        playerTurn: true,
-        gameOver: false,
-        winner: ""
-      };
+      // The opponent's fleet exists only encrypted on chain, so their ocean
+      // starts without ships and fills in from decrypted shot outcomes
+      const freshGame = createGame(matchRules);
+      setOnlineMatch({ id, seat, client, stake: stakeLabel });
+      setTurnClock(null);
+      setAwaitingOpponent(seat === 0);
+      beginPlacement(
+        { ...freshGame, enemy: { ...freshGame.enemy, ships: [] }, turn: seat === 0 ? "player" : "enemy" },
+        [
+          seat === 0 ?
+            `Online match #${id} created (${matchRules.name}). Share the id with your opponent` :
+            `Joined online match #${id} (${matchRules.name})`,
+          ...(stakeLabel ? [`Staked ${stakeLabel}; the winner takes both stakes`] : [])
+        ]
+      );
       
-      setGameState(newGameState);
-      setIsPlacing(true);
-      setOperationHistory([`Game started at ${new Date().toLocaleTimeString()}`]);
+      setTransactionStatus({ visible: true, status: "success", message: "Match ready! Place your ships." });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected" : "Could not set up the match: " + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const startNewGame = async (rules: RulePreset, opponent: Opponent) => {
+    setShowNewGameDialog(false);
+    if (opponent.kind === "online") {
+      await startOnlineMatch(rules, opponent.joinGameId, opponent.stake);
+      return;
+    }
+    const level = opponent.level;
+    setAiLevel(level);
+    setOnlineMatch(null);
+    setTurnClock(null);
+    setAwaitingOpponent(false);
+    setTransactionStatus({ visible: true, status: "pending", message: "Initializing encrypted game..." });
+    
+    try {
+      const freshGame = createGame(rules);
+      beginPlacement(
+        { ...freshGame, enemy: placeRandomFleet(freshGame.enemy) },
+        [`${rules.name} game started at ${new Date().toLocaleTimeString()} against ${AI_LEVELS[level].label} AI`]
+      );
       
       setTransactionStatus({ visible: true, status: "success", message: "Game initialized! Place your ships." });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
@@ -201,112 +679,150 @@ const App: React.FC = () => {
   const placeShip = (x: number, y: number) => {
     if (!gameState || !selectedShip || !isPlacing) return;
     
-    const shipType = Object.keys(SHIP_TYPES).find(key => 
-      SHIP_TYPES[key as keyof typeof SHIP_TYPES].name === selectedShip
-    );
-    
-    if (!shipType) return;
+    const ship = gameState.player.ships.find(s => s.id === selectedShip);
+    if (!ship) return;
     
-    const shipSize = SHIP_TYPES[shipType as keyof typeof SHIP_TYPES].size;
-    const newBoard = [...gameState.board];
-    const ships = [...gameState.ships];
-    const ship = ships.find(s => s.type === selectedShip);
-    
-    if (!ship || ship.positions.length >= shipSize) return;
-    
-    // Check if position is valid
-    if (newBoard[x][y] !== 'empty') return;
-    
-    // Place ship part
-    newBoard[x][y] = 'ship';
-    ship.positions.push({ x, y });
-    
-    setGameState({
-      ...gameState,
-      board: newBoard,
-      ships
-    });
+    let nextState: GameState;
+    try {
+      nextState = { ...gameState, player: placeShipSegment(gameState.player, ship.id, { x, y }, orientation) };
+    } catch (e) {
+      if (e instanceof GameRuleError) return;
+      throw e;
+    }
     
-    setOperationHistory([...operationHistory, `Placed ${selectedShip} at (${x},${y})`]);
+    setPlacementHistory([...placementHistory, gameState]);
+    updateGameState(nextState);
+    setOperationHistory(history => [...history, `Placed ${ship.name} at (${x},${y}) ${orientation}`]);
     
-    // Check if all ships are placed
-    const allShipsPlaced = ships.every(s => 
-      s.positions.length === SHIP_TYPES[s.type as keyof typeof SHIP_TYPES]?.size
-    );
+    const nextShip = nextState.player.ships.find(s => !isShipPlaced(s));
+    setSelectedShip(nextShip ? nextShip.id : null);
+  };
+
+  const undoPlacement = () => {
+    if (!isPlacing || placementHistory.length === 0) return;
+    const previous = placementHistory[placementHistory.length - 1];
+    setPlacementHistory(placementHistory.slice(0, -1));
+    updateGameState(previous);
+    const nextShip = previous.player.ships.find(s => !isShipPlaced(s));
+    setSelectedShip(nextShip ? nextShip.id : null);
+    setOperationHistory(history => [...history, "Undid last placement"]);
+  };
+
+  const startBattle = async () => {
+    if (!gameState || !isPlacing || !isFleetPlaced(gameState.player)) return;
     
-    if (allShipsPlaced) {
-      setIsPlacing(false);
-      setIsAttacking(true);
-      setOperationHistory([...operationHistory, "All ships placed. Ready for battle!"]);
+    if (onlineMatch && address) {
+      setTransactionStatus({ visible: true, status: "pending", message: "Encrypting and deploying your fleet..." });
+      try {
+        // A fleet that is already in, e.g. before a page reload, isn't sent twice
+        const { client, id } = onlineMatch;
+        if (await client.fleetStatus(id, address) === "none") await client.submitFleet(id, gameState.player.ships);
+      } catch (e: any) {
+        setTransactionStatus({ visible: true, status: "error", message: "Fleet deployment failed: " + (e.shortMessage || e.message || "Unknown error") });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        return;
+      }
+      setTransactionStatus({ visible: true, status: "success", message: "Fleet deployed; the contract is checking it" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     }
+    
+    setIsPlacing(false);
+    // Online, the battle starts with GameStarted once both fleets are in
+    if (!onlineMatch) setIsAttacking(true);
+    setHoverCell(null);
+    setPlacementHistory([]);
+    setOperationHistory(history => [...history, "All ships placed. Ready for battle!"]);
   };
 
-  const attackPosition = async (x: number, y: number) => {
-    if (!gameState || !gameState.playerTurn || !isAttacking || gameState.gameOver) return;
+  // Online shots are resolved by the contract against the hidden enemy fleet.
+  // The outcome comes back as an encrypted handle in MoveSubmitted that only
+  // this player may decrypt; nothing about it is worked out locally.
+  const fireOnline = async (targets: Coordinate[]) => {
+    if (!gameState || !onlineMatch) return;
+    if (!decryptionSession) { alert("Authorize decryption first so you can read your shot results"); return; }
+    try {
+      checkTargets(gameState, "player", targets);
+    } catch (e) {
+      if (e instanceof GameRuleError) return;
+      throw e;
+    }
     
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing attack with FHE..." });
+    const salvo = gameState.rules.salvo;
+    setTransactionStatus({ visible: true, status: "pending", message: salvo ? "Encrypting and firing salvo..." : "Encrypting and firing..." });
     
     try {
-      const newBoard = [...gameState.board];
-      const ships = [...gameState.ships];
-      let hit = false;
-      let shipSunk = false;
-      let sunkShipType = "";
-      
-      // Check if attack hits a ship
-      for (const ship of ships) {
-        const positionIndex = ship.positions.findIndex(pos => pos.x === x && pos.y === y);
-        if (positionIndex !== -1) {
-          hit = true;
-          ship.health--;
-          
-          if (ship.health <= 0) {
-            shipSunk = true;
-            sunkShipType = ship.type;
-            // Mark all positions as sunk
-            ship.positions.forEach(pos => {
-              newBoard[pos.x][pos.y] = 'sunk';
-            });
-          } else {
-            newBoard[x][y] = 'hit';
-          }
-          break;
-        }
+      const { client, id } = onlineMatch;
+      const shots = salvo ? await client.submitSalvo(id, targets) : [await client.submitMove(id, targets[0])];
+      setTransactionStatus({ visible: true, status: "pending", message: "Decrypting the outcome..." });
+      let outcomes: AttackOutcome[] | null = null;
+      try {
+        outcomes = await client.readShotOutcomes(decryptionSession, shots);
+      } catch (e) {
+        console.error("Error decrypting shot outcomes:", e);
       }
       
-      if (!hit) {
-        newBoard[x][y] = 'miss';
+      const current = gameStateRef.current ?? gameState;
+      if (!outcomes) {
+        // The shots are in and the turn has passed on chain either way; the
+        // board fills in from MoveResolved once the batch is revealed
+        const newGameState = endTurn(current, "player");
+        updateGameState(newGameState);
+        setSalvoTargets([]);
+        setOperationHistory(history => [...history, "Shots fired; results will show once the moves are revealed"]);
+        setTransactionStatus({ visible: true, status: "success", message: "Shots fired" });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+        return;
       }
       
-      // Check if all ships are sunk
-      const allShipsSunk = ships.every(ship => ship.health <= 0);
+      const { state: newGameState, results } = recordShots(
+        current,
+        "player",
+        targets.map((target, i) => ({ target, outcome: outcomes[i] }))
+      );
+      updateGameState(newGameState);
+      setSalvoTargets([]);
+      setOperationHistory(history => [...history, ...(salvo ? [`Fired a salvo of ${results.length}`] : []), ...results.map(describeShot)]);
       
-      const newGameState: GameState = {
-        ...gameState,
-        board: newBoard,
-        ships,
-        playerTurn: !gameState.playerTurn,
-        gameOver: allShipsSunk,
-        winner: allShipsSunk ? address || "Player" : ""
-      };
+      if (newGameState.gameOver) {
+        setIsAttacking(false);
+        setOperationHistory(history => [...history, "Victory! All enemy ships destroyed"]);
+      }
       
-      setGameState(newGameState);
+      const hits = results.filter(r => r.outcome !== "miss").length;
+      const message = !salvo ? (hits > 0 ? "Direct hit!" : "Missed target") :
+        hits > 0 ? `${hits} of ${results.length} shots hit!` : "The whole salvo missed";
+      setTransactionStatus({ visible: true, status: "success", message });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected" : "Attack failed: " + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const attackPosition = async (x: number, y: number) => {
+    if (!gameState || gameState.turn !== "player" || !isAttacking || gameState.gameOver) return;
+    if (onlineMatch) {
+      await fireOnline([{ x, y }]);
+      return;
+    }
+    
+    try {
+      const { state: newGameState, result } = attack(gameState, "player", { x, y });
+      updateGameState(newGameState);
       
       // Add to operation history
-      const attackResult = hit ? 
-        (shipSunk ? `Sunk enemy ${sunkShipType} at (${x},${y})` : `Hit at (${x},${y})`) : 
-        `Miss at (${x},${y})`;
-      setOperationHistory([...operationHistory, attackResult]);
+      setOperationHistory(history => [...history, describeShot(result)]);
       
-      if (allShipsSunk) {
+      if (newGameState.gameOver) {
         setIsAttacking(false);
-        setOperationHistory([...operationHistory, "Victory! All enemy ships destroyed"]);
+        setOperationHistory(history => [...history, "Victory! All enemy ships destroyed"]);
         
         // Save game record
-        await saveGameRecord(true);
+        await saveGameRecord(newGameState, true);
       }
       
-      setTransactionStatus({ visible: true, status: "success", message: hit ? "Direct hit!" : "Missed target" });
+      setTransactionStatus({ visible: true, status: "success", message: result.outcome !== "miss" && !result.masked ? "Direct hit!" : "Missed target" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
       setTransactionStatus({ visible: true, status: "error", message: "Attack failed: " + (e.message || "Unknown error") });
@@ -314,66 +830,440 @@ const App: React.FC = () => {
     }
   };
 
-  const saveGameRecord = async (isWinner: boolean) => {
-    if (!address || !gameState) return;
+  const toggleSalvoTarget = (x: number, y: number) => {
+    if (!gameState || gameState.turn !== "player" || !isAttacking || gameState.gameOver) return;
+    if (isTargeted(gameState.enemy.board, { x, y })) return;
+    
+    if (salvoTargets.some(t => t.x === x && t.y === y)) {
+      setSalvoTargets(salvoTargets.filter(t => t.x !== x || t.y !== y));
+    } else if (salvoTargets.length < salvoSize(gameState, "player")) {
+      setSalvoTargets([...salvoTargets, { x, y }]);
+    }
+  };
+
+  const fireSalvoTargets = async () => {
+    if (!gameState || gameState.turn !== "player" || !isAttacking || gameState.gameOver) return;
+    if (onlineMatch) {
+      await fireOnline(salvoTargets);
+      return;
+    }
+    
+    setTransactionStatus({ visible: true, status: "pending", message: "Processing salvo with FHE..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) return;
+      const { state: newGameState, results } = fireSalvo(gameState, "player", salvoTargets);
+      updateGameState(newGameState);
+      setSalvoTargets([]);
+      setOperationHistory(history => [...history, `Fired a salvo of ${results.length}`, ...results.map(describeShot)]);
       
-      const recordId = `game-${Date.now()}`;
-      const recordData = {
-        player: address,
-        opponent: "AI", // In this version, opponent is AI
-        timestamp: Math.floor(Date.now() / 1000),
-        winner: isWinner ? address : "AI",
-        moves: operationHistory.length
-      };
+      if (newGameState.gameOver) {
+        setIsAttacking(false);
+        setOperationHistory(history => [...history, "Victory! All enemy ships destroyed"]);
+        await saveGameRecord(newGameState, true);
+      }
       
-      await contract.setData(`record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
+      const hits = results.filter(r => r.outcome !== "miss" && !r.masked).length;
+      setTransactionStatus({ visible: true, status: "success", message: hits > 0 ? `${hits} of ${results.length} shots hit!` : "The whole salvo missed" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Salvo failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  useEffect(() => {
+    if (onlineMatch || !gameState || !isAttacking || gameState.gameOver || gameState.turn !== "enemy") return;
+    
+    // Give the player a moment to see their own shot land before the reply
+    const timer = setTimeout(() => {
+      let newGameState: GameState;
+      if (gameState.rules.salvo) {
+        const targets = chooseSalvo(aiLevel, gameState.player, salvoSize(gameState, "enemy"));
+        const { state, results } = fireSalvo(gameState, "enemy", targets);
+        newGameState = state;
+        setOperationHistory(history => [...history, `Enemy fired a salvo of ${results.length}`, ...results.map(describeShot)]);
+      } else {
+        const { state, result } = attack(gameState, "enemy", chooseTarget(aiLevel, gameState.player));
+        newGameState = state;
+        setOperationHistory(history => [...history, describeShot(result)]);
+      }
+      updateGameState(newGameState);
+      
+      if (newGameState.gameOver) {
+        setIsAttacking(false);
+        setOperationHistory(history => [...history, "Defeat! Your fleet has been destroyed"]);
+        saveGameRecord(newGameState, false);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [gameState, isAttacking, aiLevel, onlineMatch]);
+
+  useEffect(() => {
+    if (!onlineMatch) return;
+    const { client, id, seat } = onlineMatch;
+    const isOpponent = (player: string) => player.toLowerCase() !== address?.toLowerCase();
+    const refreshClock = () => {
+      if (!address) return;
+      client.getTurnClock(id, address)
+        .then(setTurnClock)
+        .catch(e => console.error("Error reading the turn clock:", e));
+    };
+    refreshClock();
+    
+    // Shots at this player: decrypt where they landed, then resolve them
+    // against the local fleet, the one copy of it that isn't encrypted
+    const receiveShots = async (batchId: bigint, moveIndexes: bigint[]) => {
+      if (!decryptionSession) {
+        // Play goes on; the hits land on the board when the moves are revealed
+        const current = gameStateRef.current;
+        if (current && !current.gameOver) {
+          updateGameState(endTurn(current, "enemy"));
+        }
+        setOperationHistory(history => [...history, "The enemy fired. Authorize decryption to see where"]);
+        return;
+      }
+      try {
+        const targets = await client.readIncomingShots(decryptionSession, batchId, moveIndexes);
+        const current = gameStateRef.current;
+        if (!current) return;
+        
+        let newGameState: GameState;
+        let results: AttackResult[] = [];
+        try {
+          if (current.rules.salvo) {
+            ({ state: newGameState, results } = fireSalvo(current, "enemy", targets));
+          } else {
+            const fired = attack(current, "enemy", targets[0]);
+            newGameState = fired.state;
+            results = [fired.result];
+          }
+        } catch (e) {
+          if (!(e instanceof GameRuleError)) throw e;
+          // The contract has already taken the shots, so they land the way it
+          // resolved them rather than being dropped: off-board and repeated
+          // targets are misses, every other one hits the fleet
+          console.warn("Enemy fire breaks the local rules; applying it as the contract took it:", e);
+          setOperationHistory(history => [...history, `Enemy fire out of step with the local rules (${e.message}); applied as the contract took it`]);
+          let ocean = current.player;
+          for (const target of targets) {
+            if (!isInBounds(ocean.board, target) || isTargeted(ocean.board, target)) continue;
+            const fired = resolveShot(ocean, "enemy", target);
+            ocean = fired.ocean;
+            results.push(fired.result);
+          }
+          newGameState = { ...current, player: ocean };
+          if (!current.gameOver && current.turn === "enemy") newGameState = endTurn(newGameState, "enemy");
+        }
+        updateGameState(newGameState);
+        setOperationHistory(history => [...history, ...(results.length > 1 ? [`Enemy fired a salvo of ${results.length}`] : []), ...results.map(describeShot)]);
+        
+        if (newGameState.gameOver) {
+          setIsAttacking(false);
+          setOperationHistory(history => [...history, "Defeat! Your fleet has been destroyed"]);
+        }
+      } catch (e) {
+        console.error("Error reading enemy fire:", e);
+      }
+    };
+    
+    const unsubscribers = [
+      client.onGameEvent(id, "GameJoined", args => {
+        setAwaitingOpponent(false);
+        setOperationHistory(history => [...history, `${shortAddress(args.opponent)} joined match #${id}`]);
+      }),
+      client.onGameEvent(id, "FleetChecked", args => {
+        if (isOpponent(args.player)) return;
+        if (args.valid) {
+          setOperationHistory(history => [...history, "Your fleet passed the encrypted placement check"]);
+          return;
+        }
+        // Only the verdict is public, so the player can fix and resubmit
+        setIsPlacing(true);
+        setOperationHistory(history => [...history, "Your fleet was rejected by the placement check. Adjust it and start again"]);
+      }),
+      // Revealed moves fill in whatever couldn't be decrypted as it happened,
+      // e.g. without a decryption session or after a reload
+      client.onMoveResolved(id, move => {
+        const current = gameStateRef.current;
+        if (!current) return;
+        const mine = !isOpponent(move.player);
+        const ocean = mine ? current.enemy : current.player;
+        if (!isInBounds(ocean.board, move.target) || isTargeted(ocean.board, move.target)) return;
+        const { ocean: updated, result } = mine ?
+          recordShot(ocean, "player", move.target, move.outcome) :
+          resolveShot(ocean, "enemy", move.target);
+        const newGameState = { ...current, [mine ? "enemy" : "player"]: updated };
+        updateGameState(newGameState);
+        setOperationHistory(history => [...history, `Revealed: ${describeShot(result)}`]);
+      }),
+      client.onGameEvent(id, "GameFinished", args => {
+        // No winner means the match was called off or drawn
+        const drawn = args.winner === ethers.ZeroAddress;
+        const won = !drawn && !isOpponent(args.winner);
+        setIsAttacking(false);
+        setAwaitingOpponent(false);
+        const current = gameStateRef.current;
+        if (!current) return;
+        let finalState = current;
+        if (!current.gameOver) {
+          finalState = { ...current, gameOver: true, winner: drawn ? null : won ? "player" : "enemy" };
+          updateGameState(finalState);
+          setOperationHistory(history => [...history,
+            drawn ? "Match ended without a winner" : won ? "Victory confirmed on chain!" : "Defeat confirmed on chain"]);
+        }
+        // Filed only now that the contract has sealed the move log; the
+        // loser files too, co-signing the result
+        if (!drawn) saveGameRecord(finalState, won);
+      }),
+      client.onGameEvent(id, "StakePaid", args => {
+        if (isOpponent(args.recipient)) return;
+        client.describeStake({ token: args.token, amount: args.amount })
+          .then(amount => setOperationHistory(history => [...history, `Payout: ${amount} sent to your wallet`]))
+          .catch(e => console.error("Error reading the payout:", e));
+      }),
+      client.onGameEvent(id, "PayoutDeferred", args => {
+        if (isOpponent(args.recipient)) return;
+        setOperationHistory(history => [...history, "Your wallet refused the payout; it is held for you to withdraw"]);
+      }),
+      client.onGameEvent(id, "GameStarted", () => {
+        setIsAttacking(true);
+        setOperationHistory(history => [...history, `Both fleets deployed. ${seat === 0 ? "You fire first" : "The enemy fires first"}`]);
+      }),
+      client.onGameEvent(id, "MoveSubmitted", args => {
+        if (isOpponent(args.player) && !gameStateRef.current?.rules.salvo) receiveShots(args.batchId, [args.moveIndex]);
+      }),
+      client.onGameEvent(id, "SalvoSubmitted", async (args, event) => {
+        if (!isOpponent(args.player)) return;
+        const shots = await client.getShots(event.transactionHash);
+        receiveShots(args.batchId, shots.map(shot => shot.moveIndex));
+      }),
+      client.onGameEvent(id, "TimeoutClaimed", args => {
+        setOperationHistory(history => [...history, isOpponent(args.winner) ?
+          "Your opponent claimed victory after your deadline passed" :
+          "Victory claimed: your opponent ran out of time"]);
+      }),
+      // Every one of these moves the deadline or whose turn it is
+      ...(["GameJoined", "FleetChecked", "GameStarted", "MoveSubmitted", "SalvoSubmitted", "BatchOpened", "BatchClosed", "GameFinished"] as const)
+        .map(name => client.onGameEvent(id, name, refreshClock))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [onlineMatch, decryptionSession, address]);
+
+  // Both sides of an online match file the same result, read from the chain,
+  // so the copies co-sign it; a game against the AI is signed by its player
+  const saveGameRecord = async (state: GameState, isWinner: boolean) => {
+    if (!address) return;
+    const events = gameLogRef.current;
+    
+    try {
+      const records = await getRecordsContractWithSigner();
+      const signer = records.runner as ethers.Signer;
+      const domain = recordDomain((await signer.provider!.getNetwork()).chainId);
       
-      // Update keys
-      const keysBytes = await contract.getData("game_records");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
+      let result: GameResult;
+      let stake: GameRecord["stake"];
+      let payout: GameRecord["payout"];
+      if (onlineMatch) {
+        const [info, log] = await Promise.all([
+          onlineMatch.client.getGame(onlineMatch.id),
+          onlineMatch.client.getMoveLog(onlineMatch.id)
+        ]);
+        result = {
+          players: info.players,
+          winner: info.winner ?? ethers.ZeroAddress,
+          moves: log.moves,
+          rulesPreset: presetFor(info.boardSize, info.fleet, false, info.salvo).id,
+          moveLogHash: log.hash,
+          matchId: onlineMatch.id,
+          timestamp: log.sealedAt
+        };
+        // The payout goes out with the finishing transaction, before this runs
+        if (info.stake) {
+          stake = { token: info.stake.token, amount: info.stake.amount.toString() };
+          const paid = (await onlineMatch.client.getPayouts(onlineMatch.id)).find(p => p.recipient.toLowerCase() === address.toLowerCase());
+          if (paid) payout = { token: paid.token, amount: paid.amount.toString(), transactionHash: paid.transactionHash, deferred: paid.deferred };
+        }
+      } else {
+        result = {
+          players: [address, ethers.ZeroAddress],
+          winner: isWinner ? address : ethers.ZeroAddress,
+          moves: state.turnsTaken.player + state.turnsTaken.enemy,
+          rulesPreset: state.rules.id,
+          moveLogHash: ethers.id(JSON.stringify(events)),
+          matchId: 0n,
+          timestamp: Math.floor(Date.now() / 1000)
+        };
       }
-      keys.push(recordId);
-      await contract.setData("game_records", ethers.toUtf8Bytes(JSON.stringify(keys)));
       
-      // Reload records
+      const details: RecordDetails = {
+        aiLevel: onlineMatch ? undefined : aiLevel,
+        stake,
+        payout,
+        combat: { [address.toLowerCase()]: combatStats(state, "player") },
+        rules: {
+          preset: state.rules.id,
+          boardSize: state.rules.boardSize,
+          fleet: [...state.rules.fleet],
+          abilities: state.rules.abilities,
+          salvo: state.rules.salvo
+        }
+      };
+      const signature = await signGameResult(signer, domain, result);
+      
+      // The log hands out the record's index, so there is no shared key list
+      // to read back and rewrite
+      const tx = await records.appendRecord(ethers.toUtf8Bytes(encodeFiledRecord({ result, signature, details })));
+      await tx.wait();
+      // The log is too long for the record itself, so it stays on this
+      // device under the record's digest
+      await eventIndexer?.saveGameLog({ id: resultDigest(domain, result), rules: state.rules, events });
+      
+      // Index the block the record landed in, then reload
+      await eventIndexer?.sync();
       await loadGameRecords();
     } catch (e) {
       console.error("Error saving game record:", e);
     }
   };
 
-  const useShipAbility = (ability: string) => {
-    setActiveAbility(ability);
+  const revealMoves = async () => {
+    if (!onlineMatch) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting the reveal of pending moves..." });
+    try {
+      await onlineMatch.client.requestBatchDecryption(onlineMatch.id);
+      setTransactionStatus({ visible: true, status: "success", message: "Reveal requested; moves resolve when the oracle answers" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Reveal failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const claimTimeoutVictory = async () => {
+    if (!onlineMatch) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming victory on time..." });
+    try {
+      await onlineMatch.client.claimTimeoutVictory(onlineMatch.id);
+      setTransactionStatus({ visible: true, status: "success", message: "Victory claimed!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Claim failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const cancelMatch = async () => {
+    if (!onlineMatch) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Calling off the match..." });
+    try {
+      await onlineMatch.client.cancelGame(onlineMatch.id);
+      setTransactionStatus({ visible: true, status: "success", message: onlineMatch.stake ? "Match called off; your stake is refunded" : "Match called off" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Cancel failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const abandonMatch = async () => {
+    if (!onlineMatch) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Ending the match as a draw..." });
+    try {
+      await onlineMatch.client.abandonGame(onlineMatch.id);
+      setTransactionStatus({ visible: true, status: "success", message: onlineMatch.stake ? "Draw: both stakes are refunded" : "Match drawn" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Draw failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const useShipAbility = (ship: Ship) => {
+    setActiveAbility(ship);
     setShowAbilityModal(true);
-    setOperationHistory([...operationHistory, `Activated ability: ${ability}`]);
+  };
+
+  const fireAbility = async (shipId: string, target?: Coordinate) => {
+    if (!gameState || gameState.turn !== "player" || !isAttacking || gameState.gameOver) return;
+    
+    try {
+      const { state: newGameState, result } = activateAbility(gameState, "player", shipId, target, orientation);
+      updateGameState(newGameState);
+      setAimingShipId(null);
+      setAimCell(null);
+      setSalvoTargets([]);
+      setOperationHistory(history => [...history, ...describeAbility(result)]);
+      
+      if (newGameState.gameOver) {
+        setIsAttacking(false);
+        setOperationHistory(history => [...history, "Victory! All enemy ships destroyed"]);
+        await saveGameRecord(newGameState, true);
+      }
+    } catch (e: any) {
+      if (e instanceof GameRuleError && e.code === "AlreadyTargeted") return;
+      setTransactionStatus({ visible: true, status: "error", message: "Ability failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const confirmAbility = () => {
+    if (!activeAbility) return;
+    setShowAbilityModal(false);
+    if (ABILITIES[activeAbility.ability].targeted) {
+      setAimingShipId(activeAbility.id);
+    } else {
+      fireAbility(activeAbility.id);
+    }
   };
 
   const renderBoard = (isPlayerBoard: boolean) => {
     if (!gameState) return null;
     
+    // The enemy fleet stays hidden until the game is decided
+    const cells: Board | BoardView = isPlayerBoard || gameState.gameOver ?
+      (isPlayerBoard ? gameState.player : gameState.enemy).board :
+      fogOfWar(gameState.enemy);
+    const preview = isPlayerBoard && isPlacing && selectedShip && hoverCell ?
+      previewPlacement(gameState.player, selectedShip, hoverCell, orientation) : null;
+    const aimingShip = !isPlayerBoard && aimingShipId ? gameState.player.ships.find(s => s.id === aimingShipId) : undefined;
+    const aimArea = aimingShip && aimCell ? abilityArea(aimingShip.ability, gameState.enemy, aimCell, orientation) : [];
+    const sonarContacts = isPlayerBoard ? [] : gameState.enemy.intel.flatMap(intel => intel.kind === "sonar" ? [intel] : []);
+    const previewClass = (x: number, y: number) => {
+      if (aimArea.some(c => c.x === x && c.y === y)) return ' aim';
+      if (!isPlayerBoard && salvoTargets.some(c => c.x === x && c.y === y)) return ' salvo-target';
+      if (!preview || !preview.cells.some(c => c.x === x && c.y === y)) return '';
+      return preview.valid ? ' preview' : ' preview-invalid';
+    };
+    
     return (
-      <div className={`game-board ${isPlayerBoard ? 'player-board' : 'enemy-board'}`}>
-        {gameState.board.map((row, x) => (
+      <div 
+        className={`game-board ${isPlayerBoard ? 'player-board' : 'enemy-board'}`}
+        onMouseLeave={() => isPlayerBoard ? setHoverCell(null) : setAimCell(null)}
+      >
+        {cells.map((row, x) => (
           <div key={x} className="board-row">
             {row.map((cell, y) => (
               <div 
                 key={`${x}-${y}`} 
-                className={`board-cell ${cell}`}
+                className={`board-cell ${cell}${previewClass(x, y)}`}
+                title={preview && !preview.valid && hoverCell?.x === x && hoverCell?.y === y ? preview.reason || undefined : undefined}
+                onMouseEnter={() => {
+                  if (isPlayerBoard && isPlacing) setHoverCell({ x, y });
+                  else if (!isPlayerBoard && aimingShipId) setAimCell({ x, y });
+                }}
                 onClick={() => {
                   if (isPlayerBoard && isPlacing) placeShip(x, y);
+                  else if (!isPlayerBoard && isAttacking && aimingShipId) fireAbility(aimingShipId, { x, y });
+                  else if (!isPlayerBoard && isAttacking && gameState.rules.salvo) toggleSalvoTarget(x, y);
                   else if (!isPlayerBoard && isAttacking) attackPosition(x, y);
                 }}
               >
                 {cell === 'hit' && <div className="hit-mark"></div>}
                 {cell === 'miss' && <div className="miss-mark"></div>}
                 {cell === 'sunk' && <div className="sunk-mark"></div>}
+                {sonarContacts.filter(p => p.center.x === x && p.center.y === y).map((p, i) => (
+                  <span key={i} className="sonar-count" title={`${p.contacts} ship(s) within ${p.radius} squares`}>{p.contacts}</span>
+                ))}
               </div>
             ))}
           </div>
@@ -382,22 +1272,50 @@ const App: React.FC = () => {
     );
   };
 
+  const renderShotTally = (ocean: Ocean) => {
+    const tally = tallyShots(ocean);
+    return (
+      <div className="shot-tally">
+        <span>Shots: {tally.shots}</span>
+        <span>Hits: {tally.hits}</span>
+        <span>Misses: {tally.misses}</span>
+        <span>Sunk: {tally.sunk}</span>
+      </div>
+    );
+  };
+
   const renderShipSelector = () => {
     return (
       <div className="ship-selector">
         <h3>Select Ship to Place</h3>
+        <div className="placement-controls">
+          <button className="metal-button" onClick={() => setOrientation(rotate(orientation))}>
+            Rotate ({orientation === "horizontal" ? "Horizontal" : "Vertical"})
+          </button>
+          <button className="metal-button" onClick={undoPlacement} disabled={placementHistory.length === 0}>
+            Undo
+          </button>
+          <button 
+            className="metal-button primary" 
+            onClick={startBattle} 
+            disabled={!gameState || !isFleetPlaced(gameState.player)}
+          >
+            Start Battle
+          </button>
+        </div>
+        <p className="placement-hint">Press R to rotate. Select a placed ship to move it.</p>
         <div className="ships-grid">
-          {Object.values(SHIP_TYPES).map((ship, index) => (
+          {gameState?.player.ships.map(ship => (
             <div 
-              key={index}
-              className={`ship-card ${selectedShip === ship.name ? 'selected' : ''}`}
-              onClick={() => setSelectedShip(ship.name)}
+              key={ship.id}
+              className={`ship-card ${selectedShip === ship.id ? 'selected' : ''} ${isShipPlaced(ship) ? 'placed' : ''}`}
+              onClick={() => setSelectedShip(ship.id)}
             >
               <div className="ship-icon"></div>
               <div className="ship-info">
                 <h4>{ship.name}</h4>
                 <p>Size: {ship.size}</p>
-                <p>Ability: {ship.ability}</p>
+                {gameState.rules.abilities && <p>Ability: {ship.ability}</p>}
               </div>
             </div>
           ))}
@@ -408,29 +1326,46 @@ const App: React.FC = () => {
 
   const renderShipStats = () => {
     if (!gameState) return null;
+    const { abilities } = gameState.rules;
     
     return (
       <div className="ship-stats">
         <h3>Your Fleet</h3>
         <div className="ships-status">
-          {gameState.ships.map((ship, index) => (
-            <div key={index} className="ship-status">
-              <div className="ship-name">{ship.type}</div>
-              <div className="health-bar">
-                <div 
-                  className="health-fill" 
-                  style={{ width: `${(ship.health / SHIP_TYPES[ship.type as keyof typeof SHIP_TYPES]?.size) * 100}%` }}
-                ></div>
+          {gameState.player.ships.map((ship, index) => {
+            const blocker = abilityBlocker(ship);
+            const { charges, cooldown } = ship.abilityState;
+            const health = fleetHealth?.[index] ?? ship.health;
+            return (
+              <div key={index} className={`ship-status ${isShipSunk(ship) ? 'sunk' : ''}`}>
+                <div className="ship-name">{ship.name}</div>
+                <div className="health-bar" title={fleetHealth ? "Decrypted from the contract" : undefined}>
+                  <div 
+                    className="health-fill" 
+                    style={{ width: `${(health / ship.size) * 100}%` }}
+                  ></div>
+                </div>
+                {abilities && <div className="ability-state" title={`${charges} of ${SHIP_TYPES[ship.type].charges} charges left`}>
+                  <div className="charge-pips">
+                    {Array.from({ length: SHIP_TYPES[ship.type].charges }, (_, i) => (
+                      <span key={i} className={`charge-pip ${i < charges ? 'full' : ''}`}></span>
+                    ))}
+                  </div>
+                  <div className="cooldown-label">
+                    {isShipSunk(ship) ? "Lost" : charges === 0 ? "Spent" : cooldown > 0 ? `Ready in ${cooldown}` : "Ready"}
+                  </div>
+                </div>}
+                {abilities && <button 
+                  className="ability-btn"
+                  onClick={() => useShipAbility(ship)}
+                  disabled={!isAttacking || gameState.turn !== "player" || blocker !== null}
+                  title={blocker ?? ABILITIES[ship.ability].description}
+                >
+                  Use {ship.ability}
+                </button>}
               </div>
-              <button 
-                className="ability-btn"
-                onClick={() => useShipAbility(ship.ability)}
-                disabled={!isAttacking}
-              >
-                Use {ship.ability}
-              </button>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     );
@@ -457,63 +1392,91 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="accuracy">
-          <div className="accuracy-value">{playerStats.accuracy}%</div>
-          <div className="accuracy-label">Accuracy</div>
+          <div className="accuracy-value">{Math.round(shotAccuracy(playerStats) * 100)}%</div>
+          <div className="accuracy-label">Accuracy ({playerStats.hits} hits / {playerStats.shots} shots)</div>
         </div>
       </div>
     );
   };
 
-  const renderLeaderboard = () => {
-    // Calculate player rankings
-    const playerStatsMap: Record<string, { wins: number; games: number }> = {};
+  // The player's own figures in each of their latest recorded battles, with
+  // a replay for those played on this device
+  const renderBattleBreakdown = () => {
+    if (!address) return null;
+    const battles = gameRecords
+      .filter(record => TRUSTED_RECORDS.includes(record.verification) && record.combat?.[address.toLowerCase()])
+      .slice(0, RECENT_BATTLES);
+    if (battles.length === 0) return null;
     
-    gameRecords.forEach(record => {
-      if (!playerStatsMap[record.player]) {
-        playerStatsMap[record.player] = { wins: 0, games: 0 };
-      }
-      if (!playerStatsMap[record.opponent]) {
-        playerStatsMap[record.opponent] = { wins: 0, games: 0 };
-      }
-      
-      playerStatsMap[record.player].games++;
-      playerStatsMap[record.opponent].games++;
-      
-      if (record.winner === record.player) {
-        playerStatsMap[record.player].wins++;
-      } else if (record.winner === record.opponent) {
-        playerStatsMap[record.opponent].wins++;
-      }
-    });
-    
-    const leaderboard = Object.entries(playerStatsMap)
-      .map(([player, stats]) => ({
-        player,
-        wins: stats.wins,
-        losses: stats.games - stats.wins,
-        winRate: stats.games > 0 ? Math.round((stats.wins / stats.games) * 100) : 0
-      }))
-      .sort((a, b) => b.winRate - a.winRate || b.wins - a.wins)
+    return (
+      <div className="battle-breakdown">
+        <h4>Recent Battles</h4>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Result</th>
+              <th>Shots</th>
+              <th>Hits</th>
+              <th>Acc.</th>
+              <th>Sunk</th>
+              <th>Abilities</th>
+              <th>Turns</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {battles.map(record => {
+              const combat = record.combat![address.toLowerCase()];
+              return (
+                <tr key={record.id}>
+                  <td>{new Date(record.timestamp * 1000).toLocaleDateString()}</td>
+                  <td className={wonBy(record, address) ? "won" : "lost"}>{wonBy(record, address) ? "Win" : "Loss"}</td>
+                  <td>{combat.shots}</td>
+                  <td>{combat.hits}</td>
+                  <td>{Math.round(shotAccuracy(combat) * 100)}%</td>
+                  <td>{combat.sunk}</td>
+                  <td>{combat.abilitiesUsed}</td>
+                  <td>{combat.turns}</td>
+                  <td><Link to={`/replay/${record.id}`}>Replay</Link></td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderLeaderboard = () => {
+    // Established ratings first, so one lucky win doesn't top the list
+    const top = [...leaderboard.ratings]
+      .sort((a, b) => Number(a.provisional) - Number(b.provisional) || b.rating - a.rating)
       .slice(0, 5);
+    const { uncounted } = leaderboard;
     
     return (
       <div className="leaderboard">
         <h3>Top Commanders</h3>
         <div className="leaderboard-list">
-          {leaderboard.map((entry, index) => (
-            <div key={index} className="leaderboard-entry">
+          {top.map((entry, index) => (
+            <div key={entry.player} className="leaderboard-entry">
               <div className="rank">#{index + 1}</div>
               <div className="player-info">
-                <div className="player-address">{entry.player.substring(0, 6)}...{entry.player.substring(38)}</div>
+                <div className="player-address">{shortAddress(entry.player)}</div>
                 <div className="player-stats">
+                  <span title={`± ${Math.round(entry.deviation * 2)}`}>{Math.round(entry.rating)}{entry.provisional && "?"}</span>
                   <span>{entry.wins}W</span>
                   <span>{entry.losses}L</span>
-                  <span>{entry.winRate}%</span>
                 </div>
               </div>
             </div>
           ))}
         </div>
+        {uncounted > 0 && (
+          <div className="leaderboard-note">{uncounted} unverified {uncounted === 1 ? "record" : "records"} not counted</div>
+        )}
+        <Link to="/leaderboard" className="metal-button leaderboard-link">Full leaderboard</Link>
       </div>
     );
   };
@@ -533,7 +1496,9 @@ const App: React.FC = () => {
           <h1>Battleship<span>Plus</span>FHE</h1>
         </div>
         <div className="header-actions">
-          <button onClick={startNewGame} className="new-game-btn metal-button">
+          <Link to="/" className="metal-button">Battle</Link>
+          <Link to="/leaderboard" className="metal-button">Leaderboard</Link>
+          <button onClick={openNewGameDialog} className="new-game-btn metal-button">
             <div className="target-icon"></div>New Game
           </button>
           <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
@@ -541,115 +1506,200 @@ const App: React.FC = () => {
       </header>
       
       <div className="main-content">
-        <div className="welcome-banner">
-          <div className="welcome-text">
-            <h2>Naval Warfare with FHE Encryption</h2>
-            <p>Deploy encrypted warships with special abilities powered by Zama FHE technology</p>
-          </div>
-          <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
-        </div>
-        
-        <div className="game-grid">
-          {gameState ? (
-            <>
-              <div className="player-section">
-                <h3>Your Fleet</h3>
-                {renderBoard(true)}
-                {isPlacing && renderShipSelector()}
-                {renderShipStats()}
+        <Routes>
+          <Route path="/leaderboard" element={
+            <LeaderboardPage ratings={leaderboard.ratings} uncounted={leaderboard.uncounted} address={address} />
+          } />
+          <Route path="/replay/:id" element={<ReplayPage indexer={eventIndexer} />} />
+          <Route path="*" element={<>
+            <div className="welcome-banner">
+              <div className="welcome-text">
+                <h2>Naval Warfare with FHE Encryption</h2>
+                <p>Deploy encrypted warships with special abilities powered by Zama FHE technology</p>
+              </div>
+              <div className={`fhe-indicator ${fheStatus}`}>
+                <div className="fhe-lock"></div>
+                <span>
+                  {fheStatus === "ready" ? "FHE Encryption Active" :
+                    fheStatus === "connecting" ? "Connecting to FHE..." :
+                    fheStatus === "disconnected" ? "Connect wallet for FHE" : "FHE Unavailable"}
+                </span>
+                {fheStatus === "ready" && (decryptionSession ? (
+                  <span 
+                    className="decryption-session" 
+                    title={`Valid until ${new Date((decryptionSession.startTimestamp + decryptionSession.durationDays * 86400) * 1000).toLocaleString()}`}
+                  >
+                    Decryption authorized
+                  </span>
+                ) : (
+                  <button className="metal-button" onClick={authorizeDecryption}>Authorize Decryption</button>
+                ))}
               </div>
+            </div>
+        
+            <div className="game-grid">
+              {gameState ? (
+                <>
+                  <div className="player-section">
+                    <h3>Your Fleet</h3>
+                    {renderBoard(true)}
+                    {!isPlacing && renderShotTally(gameState.player)}
+                    {isPlacing && renderShipSelector()}
+                    {renderShipStats()}
+                  </div>
               
-              <div className="enemy-section">
-                <h3>Enemy Waters</h3>
-                {renderBoard(false)}
-                <div className="game-status">
-                  <div className={`status-indicator ${gameState.playerTurn ? 'active' : ''}`}>
-                    {gameState.playerTurn ? "Your Turn" : "Enemy Turn"}
+                  <div className="enemy-section">
+                    <h3>Enemy Waters</h3>
+                    {renderBoard(false)}
+                    {renderShotTally(gameState.enemy)}
+                    <div className="game-status">
+                      <div className={`status-indicator ${gameState.turn === "player" ? 'active' : ''}`}>
+                        {gameState.turn === "player" ? "Your Turn" : "Enemy Turn"}
+                      </div>
+                      {onlineMatch && (
+                        <div className="match-info">
+                          Online match #{onlineMatch.id.toString()}
+                          {onlineMatch.stake && ` · stake ${onlineMatch.stake} each`}
+                          {!isPlacing && !isAttacking && !gameState.gameOver && " · waiting for both fleets"}
+                          {turnClock?.waitingOn && !gameState.gameOver && (
+                            <span className={`turn-clock ${turnClock.deadline <= now ? 'expired' : ''}`}>
+                              {turnClock.waitingOn === "self" ? "Your deadline" : "Opponent's deadline"}: {formatCountdown(turnClock.deadline - now)}
+                            </span>
+                          )}
+                          {turnClock?.waitingOn === "opponent" && turnClock.deadline < now && !gameState.gameOver && (
+                            <button className="metal-button" onClick={claimTimeoutVictory}>Claim Victory</button>
+                          )}
+                          {awaitingOpponent && !gameState.gameOver && (
+                            <button className="metal-button" onClick={cancelMatch}>Cancel Match</button>
+                          )}
+                          {/* Placement ran out with no fleet accepted on either side */}
+                          {turnClock && !turnClock.waitingOn && turnClock.deadline > 0 && turnClock.deadline < now && !gameState.gameOver && (
+                            <button className="metal-button" onClick={abandonMatch}>Call a Draw</button>
+                          )}
+                          {(isAttacking || gameState.gameOver) && (
+                            <button className="metal-button" onClick={revealMoves}>Reveal Moves</button>
+                          )}
+                        </div>
+                      )}
+                      {gameState.rules.salvo && isAttacking && gameState.turn === "player" && !aimingShipId && (
+                        <div className="salvo-controls">
+                          <span>Salvo: {salvoTargets.length} / {salvoSize(gameState, "player")} targets</span>
+                          <button className="metal-button" onClick={() => setSalvoTargets([])} disabled={salvoTargets.length === 0}>Clear</button>
+                          <button 
+                            className="metal-button primary" 
+                            onClick={fireSalvoTargets} 
+                            disabled={salvoTargets.length !== salvoSize(gameState, "player")}
+                          >
+                            Fire Salvo
+                          </button>
+                        </div>
+                      )}
+                      {aimingShipId && (
+                        <div className="aiming-hint">
+                          Select a target for {gameState.player.ships.find(s => s.id === aimingShipId)?.ability}
+                          <button className="metal-button" onClick={() => { setAimingShipId(null); setAimCell(null); }}>Cancel</button>
+                        </div>
+                      )}
+                      {gameState.gameOver && (
+                        <div className="victory-message">
+                          {gameState.winner === "player" ? "Victory!" : "Defeat!"}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="start-prompt">
+                  <div className="battleship-icon"></div>
+                  <h2>Ready for Naval Combat?</h2>
+                  <p>Deploy your encrypted fleet and engage in tactical warfare</p>
+                  <button className="metal-button primary" onClick={openNewGameDialog}>Start New Game</button>
+                </div>
+              )}
+          
+              <div className="stats-section">
+                <h3>Commander Statistics</h3>
+                {renderStatsChart()}
+                <div className="stats-grid">
+                  <div className="stat-card">
+                    <div className="stat-value">{playerStats.wins}</div>
+                    <div className="stat-label">Victories</div>
+                  </div>
+                  <div className="stat-card">
+                    <div className="stat-value">{playerStats.losses}</div>
+                    <div className="stat-label">Defeats</div>
+                  </div>
+                  <div className="stat-card">
+                    <div className="stat-value">{playerStats.wins + playerStats.losses}</div>
+                    <div className="stat-label">Battles</div>
+                  </div>
+                  <div className="stat-card">
+                    <div className="stat-value">{playerStats.sunk}</div>
+                    <div className="stat-label">Ships Sunk</div>
+                  </div>
+                  <div className="stat-card">
+                    <div className="stat-value">{playerStats.abilitiesUsed}</div>
+                    <div className="stat-label">Abilities Used</div>
+                  </div>
+                  <div className="stat-card">
+                    <div className="stat-value">{playerStats.turnsToVictory === null ? "-" : playerStats.turnsToVictory.toFixed(1)}</div>
+                    <div className="stat-label">Turns to Victory</div>
                   </div>
-                  {gameState.gameOver && (
-                    <div className="victory-message">
-                      {gameState.winner === address ? "Victory!" : "Defeat!"}
+                </div>
+                {renderBattleBreakdown()}
+              </div>
+          
+              <div className="history-section">
+                <h3>Operation History</h3>
+                <div className="history-list">
+                  {operationHistory.map((op, index) => (
+                    <div key={index} className="history-entry">
+                      <div className="history-icon"></div>
+                      <div className="history-text">{op}</div>
                     </div>
+                  ))}
+                  {operationHistory.length === 0 && (
+                    <div className="empty-history">No operations recorded</div>
                   )}
                 </div>
               </div>
-            </>
-          ) : (
-            <div className="start-prompt">
-              <div className="battleship-icon"></div>
-              <h2>Ready for Naval Combat?</h2>
-              <p>Deploy your encrypted fleet and engage in tactical warfare</p>
-              <button className="metal-button primary" onClick={startNewGame}>Start New Game</button>
-            </div>
-          )}
           
-          <div className="stats-section">
-            <h3>Commander Statistics</h3>
-            {renderStatsChart()}
-            <div className="stats-grid">
-              <div className="stat-card">
-                <div className="stat-value">{playerStats.wins}</div>
-                <div className="stat-label">Victories</div>
-              </div>
-              <div className="stat-card">
-                <div className="stat-value">{playerStats.losses}</div>
-                <div className="stat-label">Defeats</div>
+              <div className="leaderboard-section">
+                {renderLeaderboard()}
+                {hasOlderRecords && (
+                  <button className="metal-button load-older" onClick={() => loadGameRecords(true)}>Load older games</button>
+                )}
               </div>
-              <div className="stat-card">
-                <div className="stat-value">{gameRecords.length}</div>
-                <div className="stat-label">Battles</div>
-              </div>
-            </div>
-          </div>
-          
-          <div className="history-section">
-            <h3>Operation History</h3>
-            <div className="history-list">
-              {operationHistory.map((op, index) => (
-                <div key={index} className="history-entry">
-                  <div className="history-icon"></div>
-                  <div className="history-text">{op}</div>
-                </div>
-              ))}
-              {operationHistory.length === 0 && (
-                <div className="empty-history">No operations recorded</div>
-              )}
             </div>
-          </div>
-          
-          <div className="leaderboard-section">
-            {renderLeaderboard()}
-          </div>
-        </div>
+          </>} />
+        </Routes>
       </div>
       
+      {showNewGameDialog && (
+        <NewGameDialog
+          aiLevel={aiLevel}
+          onStart={startNewGame}
+          onClose={() => setShowNewGameDialog(false)}
+        />
+      )}
+      
       {showAbilityModal && activeAbility && (
         <div className="ability-modal">
           <div className="ability-content metal-card">
             <div className="modal-header">
-              <h3>Activate {activeAbility}</h3>
+              <h3>Activate {activeAbility.ability}</h3>
               <button onClick={() => setShowAbilityModal(false)} className="close-modal">&times;</button>
             </div>
             <div className="modal-body">
               <div className="ability-description">
-                {activeAbility === "Stealth" && "Submarine becomes undetectable for next enemy turn"}
-                {activeAbility === "Range Attack" && "Attack 3 adjacent squares simultaneously"}
-                {activeAbility === "Armor Piercing" && "Next attack penetrates armor for double damage"}
-                {activeAbility === "Radar Scan" && "Reveal enemy ships in a 3x3 area"}
-                {activeAbility === "Sonar Ping" && "Detect all enemy ships within 2 squares"}
-              </div>
-              <div className="fhe-notice">
-                <div className="encryption-icon"></div>
-                <p>Ability activation processed with Zama FHE encryption</p>
+                {ABILITIES[activeAbility.ability].description}
+                {ABILITIES[activeAbility.ability].targeted && ". Pick a target on the enemy board; this uses your turn."}
               </div>
             </div>
             <div className="modal-footer">
               <button 
                 className="metal-button" 
-                onClick={() => {
-                  setOperationHistory([...operationHistory, `Used ability: ${activeAbility}`]);
-                  setShowAbilityModal(false);
-                }}
+                onClick={confirmAbility}
               >
                 Activate
               </button>
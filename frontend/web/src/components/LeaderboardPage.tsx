@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Filler,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { PlayerRating, PROVISIONAL_DEVIATION } from '../ratings';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip);
+
+type SortKey = 'rating' | 'games' | 'wins' | 'winRate';
+
+interface LeaderboardPageProps {
+  /** Highest rated first, as computeRatings returns them. */
+  ratings: readonly PlayerRating[];
+  /** Records left out of the ratings for lack of a co-signature or the contract's backing. */
+  uncounted: number;
+  address?: string;
+}
+
+const PAGE_SIZE = 20;
+
+const COLUMNS: readonly { key: SortKey; label: string }[] = [
+  { key: 'rating', label: 'Rating' },
+  { key: 'games', label: 'Games' },
+  { key: 'wins', label: 'W / L' },
+  { key: 'winRate', label: 'Win %' }
+];
+
+const winRate = (entry: PlayerRating) => entry.games > 0 ? entry.wins / entry.games : 0;
+
+const sortValue = (entry: PlayerRating, key: SortKey) => key === 'winRate' ? winRate(entry) : entry[key];
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function LeaderboardPage({ ratings, uncounted, address }: LeaderboardPageProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('rating');
+  const [descending, setDescending] = useState(true);
+  const [showProvisional, setShowProvisional] = useState(true);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<string | null>(address ?? null);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setDescending(!descending);
+    else {
+      setSortKey(key);
+      setDescending(true);
+    }
+    setPage(0);
+  };
+
+  // Established ratings rank ahead of provisional ones whatever the sort
+  const rows = ratings
+    .filter(entry => showProvisional || !entry.provisional)
+    .sort((a, b) =>
+      Number(a.provisional) - Number(b.provisional) ||
+      (descending ? -1 : 1) * (sortValue(a, sortKey) - sortValue(b, sortKey)) ||
+      b.rating - a.rating);
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const shown = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const player = ratings.find(entry => entry.player.toLowerCase() === selected?.toLowerCase());
+
+  const renderChart = () => {
+    if (!player) return <div className="rating-chart-empty">Select a commander to see their rating history</div>;
+    const data = {
+      labels: player.history.map(point => new Date(point.timestamp * 1000).toLocaleDateString()),
+      datasets: [{
+        label: 'Rating',
+        data: player.history.map(point => Math.round(point.rating)),
+        borderColor: '#d4af37',
+        backgroundColor: 'rgba(212, 175, 55, 0.15)',
+        fill: true,
+        tension: 0.2
+      }]
+    };
+    return (
+      <>
+        <h3>{shortAddress(player.player)} · {Math.round(player.rating)} ± {Math.round(player.deviation * 2)}</h3>
+        <Line
+          data={data}
+          options={{
+            responsive: true,
+            plugins: {
+              tooltip: {
+                callbacks: {
+                  afterLabel: item => `± ${Math.round(player.history[item.dataIndex].deviation * 2)}`
+                }
+              }
+            },
+            scales: { x: { ticks: { color: '#c0c0c0' } }, y: { ticks: { color: '#c0c0c0' } } }
+          }}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div className="leaderboard-page">
+      <div className="leaderboard-table">
+        <div className="leaderboard-header">
+          <h2>Commander Rankings</h2>
+          <label className="provisional-toggle">
+            <input type="checkbox" checked={showProvisional} onChange={e => { setShowProvisional(e.target.checked); setPage(0); }} />
+            Show provisional
+          </label>
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Commander</th>
+              {COLUMNS.map(column => (
+                <th key={column.key} className="sortable" onClick={() => sortBy(column.key)}>
+                  {column.label}{sortKey === column.key && (descending ? ' ▼' : ' ▲')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((entry, index) => (
+              <tr
+                key={entry.player}
+                className={`${entry.player.toLowerCase() === selected?.toLowerCase() ? 'selected' : ''} ${entry.provisional ? 'provisional' : ''}`}
+                onClick={() => setSelected(entry.player)}
+              >
+                <td>{page * PAGE_SIZE + index + 1}</td>
+                <td>
+                  {shortAddress(entry.player)}
+                  {entry.player.toLowerCase() === address?.toLowerCase() && <span className="you-badge">You</span>}
+                </td>
+                <td title={`± ${Math.round(entry.deviation * 2)}`}>
+                  {Math.round(entry.rating)}{entry.provisional && '?'}
+                </td>
+                <td>{entry.games}</td>
+                <td>{entry.wins} / {entry.losses}</td>
+                <td>{Math.round(winRate(entry) * 100)}%</td>
+              </tr>
+            ))}
+            {shown.length === 0 && (
+              <tr><td colSpan={COLUMNS.length + 2} className="empty-history">No rated games yet</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="pagination">
+          <button className="metal-button" onClick={() => setPage(page - 1)} disabled={page === 0}>Previous</button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <button className="metal-button" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>Next</button>
+        </div>
+        <div className="leaderboard-note">
+          Glicko-2 ratings over co-signed and contract-attested games. A ? marks a provisional rating,
+          one still uncertain by more than ±{PROVISIONAL_DEVIATION * 2}.
+          {uncounted > 0 && ` ${uncounted} unverified ${uncounted === 1 ? 'record' : 'records'} not counted.`}
+        </div>
+      </div>
+      <div className="rating-chart">
+        {renderChart()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { STAKE_TOKENS } from '../contract';
+import { MatchStake } from '../gameClient';
+import { AI_LEVELS, AiLevel } from '../game/ai';
+import {
+  customPreset,
+  DEFAULT_PRESET,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  RULE_PRESETS,
+  validatePreset
+} from '../game/presets';
+import { SHIP_TYPE_KEYS, SHIP_TYPES } from '../game/rules';
+import { RulePreset, ShipTypeKey } from '../game/types';
+
+/**
+ * Who the game is against; online matches are created or joined on chain.
+ * A created match may carry a stake; a joined one takes whatever it has.
+ */
+export type Opponent =
+  | { kind: 'ai'; level: AiLevel }
+  | { kind: 'online'; joinGameId: bigint | null; stake: MatchStake | null };
+
+interface NewGameDialogProps {
+  aiLevel: AiLevel;
+  onStart: (rules: RulePreset, opponent: Opponent) => void;
+  onClose: () => void;
+}
+
+// Base units of a stake typed in whole tokens; null if it isn't a positive amount
+const parseStake = (amount: string, decimals: number): bigint | null => {
+  try {
+    const units = ethers.parseUnits(amount, decimals);
+    return units > 0n ? units : null;
+  } catch {
+    return null;
+  }
+};
+
+const countFleet = (fleet: readonly ShipTypeKey[]) =>
+  Object.fromEntries(SHIP_TYPE_KEYS.map(type => [type, fleet.filter(t => t === type).length])) as Record<ShipTypeKey, number>;
+
+export default function NewGameDialog({ aiLevel, onStart, onClose }: NewGameDialogProps) {
+  const [presetId, setPresetId] = useState<string>(DEFAULT_PRESET.id);
+  const [level, setLevel] = useState<AiLevel | 'online'>(aiLevel);
+  const [joinId, setJoinId] = useState('');
+  const [customSize, setCustomSize] = useState<number>(DEFAULT_PRESET.boardSize);
+  const [customCounts, setCustomCounts] = useState<Record<ShipTypeKey, number>>(countFleet(DEFAULT_PRESET.fleet));
+  const [customAbilities, setCustomAbilities] = useState(true);
+  const [customSalvo, setCustomSalvo] = useState(false);
+  const [stakeAmount, setStakeAmount] = useState('');
+  const [stakeToken, setStakeToken] = useState<string>(ethers.ZeroAddress);
+
+  const customFleet = SHIP_TYPE_KEYS.flatMap(type => Array<ShipTypeKey>(customCounts[type]).fill(type));
+  const rules = presetId === 'custom' ?
+    customPreset(customSize, customFleet, customAbilities, customSalvo) :
+    RULE_PRESETS.find(preset => preset.id === presetId) ?? DEFAULT_PRESET;
+  const joining = level === 'online' && joinId.trim() !== '';
+  const staking = level === 'online' && !joining && stakeAmount.trim() !== '';
+  const stakeDecimals = STAKE_TOKENS.find(token => token.address === stakeToken)?.decimals ?? 18;
+  const stake = staking ? parseStake(stakeAmount.trim(), stakeDecimals) : null;
+  const problem = joining ?
+    (/^\d+$/.test(joinId.trim()) ? null : 'Match ids are whole numbers') :
+    staking && stake === null ? 'Stakes are positive amounts, e.g. 0.01' :
+    validatePreset(rules);
+
+  const start = () => {
+    if (level !== 'online') onStart(rules, { kind: 'ai', level });
+    else onStart(rules, {
+      kind: 'online',
+      joinGameId: joining ? BigInt(joinId.trim()) : null,
+      stake: stake === null ? null : { token: stakeToken, amount: stake }
+    });
+  };
+
+  const setCount = (type: ShipTypeKey, count: number) => {
+    setCustomCounts({ ...customCounts, [type]: Math.max(0, Math.min(3, count)) });
+  };
+
+  return (
+    <div className="ability-modal">
+      <div className="ability-content new-game-content metal-card">
+        <div className="modal-header">
+          <h3>New Game</h3>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        <div className="modal-body">
+          {!joining && <div className="preset-list">
+            {[...RULE_PRESETS, customPreset(customSize, customFleet, customAbilities, customSalvo)].map(preset => (
+              <label key={preset.id} className={`preset-option ${presetId === preset.id ? 'selected' : ''}`}>
+                <input
+                  type="radio"
+                  name="preset"
+                  value={preset.id}
+                  checked={presetId === preset.id}
+                  onChange={() => setPresetId(preset.id)}
+                />
+                <div>
+                  <div className="preset-name">{preset.id === 'custom' ? 'Custom' : preset.name}</div>
+                  <div className="preset-description">{preset.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>}
+
+          {!joining && presetId === 'custom' && (
+            <div className="custom-rules">
+              <label className="custom-row">
+                <span>Board size</span>
+                <input
+                  type="number"
+                  min={MIN_BOARD_SIZE}
+                  max={MAX_BOARD_SIZE}
+                  value={customSize}
+                  onChange={e => setCustomSize(parseInt(e.target.value, 10) || MIN_BOARD_SIZE)}
+                />
+              </label>
+              {SHIP_TYPE_KEYS.map(type => (
+                <div key={type} className="custom-row">
+                  <span>{SHIP_TYPES[type].name} ({SHIP_TYPES[type].size})</span>
+                  <div className="count-stepper">
+                    <button onClick={() => setCount(type, customCounts[type] - 1)}>-</button>
+                    <span>{customCounts[type]}</span>
+                    <button onClick={() => setCount(type, customCounts[type] + 1)}>+</button>
+                  </div>
+                </div>
+              ))}
+              <label className="custom-row">
+                <span>Ship abilities</span>
+                <input type="checkbox" checked={customAbilities} onChange={e => setCustomAbilities(e.target.checked)} />
+              </label>
+              <label className="custom-row">
+                <span>Salvo fire</span>
+                <input type="checkbox" checked={customSalvo} onChange={e => setCustomSalvo(e.target.checked)} />
+              </label>
+            </div>
+          )}
+
+          <label className="custom-row">
+            <span>Opponent</span>
+            <select className="ai-level-select" value={level} onChange={e => setLevel(e.target.value as AiLevel | 'online')}>
+              {(Object.keys(AI_LEVELS) as AiLevel[]).map(key => (
+                <option key={key} value={key}>{AI_LEVELS[key].label} AI: {AI_LEVELS[key].description}</option>
+              ))}
+              <option value="online">Online match: another player, resolved on chain</option>
+            </select>
+          </label>
+
+          {level === 'online' && (
+            <>
+              <label className="custom-row">
+                <span>Join match #</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="Leave empty to create one"
+                  value={joinId}
+                  onChange={e => setJoinId(e.target.value)}
+                />
+              </label>
+              {!joining && (
+                <label className="custom-row">
+                  <span>Stake</span>
+                  <div className="stake-input">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="None"
+                      value={stakeAmount}
+                      onChange={e => setStakeAmount(e.target.value)}
+                    />
+                    <select value={stakeToken} onChange={e => setStakeToken(e.target.value)}>
+                      <option value={ethers.ZeroAddress}>ETH</option>
+                      {STAKE_TOKENS.map(token => (
+                        <option key={token.address} value={token.address}>{token.symbol}</option>
+                      ))}
+                    </select>
+                  </div>
+                </label>
+              )}
+              <div className="preset-description">
+                {joining ?
+                  'The board, fleet and any stake come from the match you join.' :
+                  'Online matches are played without ship abilities. Both players put up the stake; the winner takes both, and a draw or a match nobody joins refunds it.'}
+              </div>
+            </>
+          )}
+
+          {problem && <div className="preset-error">{problem}</div>}
+        </div>
+        <div className="modal-footer">
+          <button className="metal-button primary" disabled={problem !== null} onClick={start}>
+            {level !== 'online' ? 'Start Game' : joining ? 'Join Match' : 'Create Match'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
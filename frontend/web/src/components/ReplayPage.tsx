@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { GameLog, replayFrame } from '../game/log';
+import { opponentOf, SHIP_TYPES } from '../game/rules';
+import { Board, Coordinate, GameEvent, Side } from '../game/types';
+import type { EventIndexer } from '../indexer';
+
+interface ReplayPageProps {
+  /** Where game logs are stored; null until it has opened. */
+  indexer: EventIndexer | null;
+}
+
+// Milliseconds per step while playing
+const PLAY_INTERVAL = 600;
+
+const who = (side: Side) => side === 'player' ? 'You' : 'Enemy';
+
+const cell = ({ x, y }: Coordinate) => `(${x},${y})`;
+
+function describeEvent(event: GameEvent): string {
+  switch (event.kind) {
+    case 'placement':
+      return event.positions.length > 0 ?
+        `${who(event.side)} placed a ${SHIP_TYPES[event.shipType].name} at ${cell(event.positions[0])}` :
+        `${who(event.side)} took back a ${SHIP_TYPES[event.shipType].name}`;
+    case 'shot':
+      return `${who(event.side)} fired at ${cell(event.target)}`;
+    case 'result':
+      return `${event.outcome === 'miss' ? 'Miss' : event.outcome === 'sunk' ? 'Ship sunk' : 'Hit'} at ${cell(event.target)}` +
+        (event.masked ? ', reported as a miss under Stealth' : '');
+    case 'ability':
+      return `${who(event.side)} used ${event.ability}`;
+    case 'turn':
+      return event.side === 'player' ? 'Your turn' : 'Enemy turn';
+  }
+}
+
+const renderBoard = (board: Board, title: string, highlight: Coordinate | null) => (
+  <div className="replay-board">
+    <h3>{title}</h3>
+    <div className="game-board">
+      {board.map((row, x) => (
+        <div key={x} className="board-row">
+          {row.map((state, y) => (
+            <div key={`${x}-${y}`} className={`board-cell ${state}${highlight?.x === x && highlight?.y === y ? ' aim' : ''}`}>
+              {state === 'hit' && <div className="hit-mark"></div>}
+              {state === 'miss' && <div className="miss-mark"></div>}
+              {state === 'sunk' && <div className="sunk-mark"></div>}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default function ReplayPage({ indexer }: ReplayPageProps) {
+  const { id = '' } = useParams();
+  // undefined while loading, null when there is no log for the game
+  const [log, setLog] = useState<GameLog | null | undefined>(undefined);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLog(undefined);
+    setStep(0);
+    setPlaying(false);
+    if (!indexer) return;
+    indexer.gameLog(id)
+      .then(loaded => { if (!cancelled) setLog(loaded); })
+      .catch(e => {
+        console.error('Error loading the game log:', e);
+        if (!cancelled) setLog(null);
+      });
+    return () => { cancelled = true; };
+  }, [id, indexer]);
+
+  const last = log?.events.length ?? 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= last) { setPlaying(false); return; }
+    const timer = setTimeout(() => setStep(step + 1), PLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, step, last]);
+
+  if (log === undefined) return <div className="replay-page"><div className="metal-spinner"></div></div>;
+  if (log === null) return (
+    <div className="replay-page">
+      <div className="empty-history">No replay of this game is stored on this device</div>
+      <Link to="/" className="metal-button">Back to battle</Link>
+    </div>
+  );
+
+  const frame = replayFrame(log.rules, log.events, step);
+  // A shot lands on the board of the side it was fired at
+  const shot = frame.event?.kind === 'shot' || frame.event?.kind === 'result' ? frame.event : null;
+  const aimedAt = (side: Side) => shot && opponentOf(shot.side) === side ? shot.target : null;
+  const go = (next: number) => {
+    setPlaying(false);
+    setStep(Math.max(0, Math.min(last, next)));
+  };
+
+  return (
+    <div className="replay-page">
+      <div className="replay-header">
+        <h2>Replay · {log.rules.name}</h2>
+        <div className="replay-event">
+          {frame.event ? describeEvent(frame.event) : 'Start of the game'}
+          {frame.turn && <span className="replay-turn">{frame.turn === 'player' ? 'Your move' : "Enemy's move"}</span>}
+        </div>
+      </div>
+      <div className="replay-boards">
+        {renderBoard(frame.player, 'Your Fleet', aimedAt('player'))}
+        {renderBoard(frame.enemy, 'Enemy Fleet', aimedAt('enemy'))}
+      </div>
+      <div className="replay-controls">
+        <button className="metal-button" onClick={() => go(0)} disabled={step === 0}>⏮</button>
+        <button className="metal-button" onClick={() => go(step - 1)} disabled={step === 0}>◀ Back</button>
+        <button className="metal-button primary" onClick={() => setPlaying(!playing)} disabled={step >= last && !playing}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button className="metal-button" onClick={() => go(step + 1)} disabled={step >= last}>Forward ▶</button>
+        <button className="metal-button" onClick={() => go(last)} disabled={step >= last}>⏭</button>
+      </div>
+      <div className="replay-timeline">
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={step}
+          onChange={e => go(Number(e.target.value))}
+        />
+        <span>{step} / {last}</span>
+      </div>
+    </div>
+  );
+}
@@ -2,23 +2,30 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { BattleshipPlusFHE, BattleshipPlusFHE__factory, GameRecords, GameRecords__factory } from "./typechain";
 
-export const ABI = (abiJson as any).abi || abiJson;
+// The adapter storage that held game records before the record log
+export const ABI: ethers.InterfaceAbi = abiJson.abi;
 export const config = configJson;
+export const GAME_CONTRACT_ADDRESS = configJson.gameContractAddress;
+export const RECORDS_CONTRACT_ADDRESS = configJson.recordsContractAddress;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
+/** An ERC-20 the game's owner allow-listed for stakes, as listed under `stakeTokens` in config.json. */
+export interface StakeTokenConfig {
+  readonly symbol: string;
+  readonly address: string;
+  readonly decimals: number;
+}
 
-const getTestnetProvider = async () => {
+export const STAKE_TOKENS = configJson.stakeTokens as readonly StakeTokenConfig[];
+
+/**
+ * The block each contract was deployed in, as the deploy script writes them
+ * under `deployBlocks` in config.json; the event index reads logs from there.
+ */
+export const DEPLOY_BLOCKS = configJson.deployBlocks as Partial<Record<"adapter" | "game" | "records", number>>;
+
+export const getTestnetProvider = async () => {
   const rpcUrls = [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
     "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
@@ -49,36 +56,25 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
-  }
+/** The wallet's provider on `chainId` when one is connected, otherwise a public Sepolia endpoint. */
+export async function getReadProvider(chainId?: number): Promise<ethers.Provider> {
+  if (chainId && window.ethereum) return new ethers.BrowserProvider(window.ethereum, chainId);
+  return getTestnetProvider();
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
-  try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
-  } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
-  }
+// Bindings are generated from the compiled contract by `npm run typechain`
+export function getGameContract(runner: ethers.ContractRunner, address: string = GAME_CONTRACT_ADDRESS): BattleshipPlusFHE {
+  return BattleshipPlusFHE__factory.connect(address, runner);
+}
+
+export function getRecordsContract(runner: ethers.ContractRunner, address: string = RECORDS_CONTRACT_ADDRESS): GameRecords {
+  return GameRecords__factory.connect(address, runner);
+}
+
+export async function getRecordsContractWithSigner(): Promise<GameRecords> {
+  if (!window.ethereum) throw new Error("No injected wallet");
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  return getRecordsContract(await provider.getSigner());
 }
 
 export function normAddr(a: string) { 
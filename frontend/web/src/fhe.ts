@@ -0,0 +1,350 @@
+// fhe.ts
+// Encrypted inputs and user decryption for BattleshipPlusFHE. On Sepolia the
+// Zama relayer does the work; on a local Hardhat node (chain 31337) the fhevm
+// mock does, so the same calls work against both.
+import { ethers } from "ethers";
+import type { EIP712, FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { AttackOutcome, Coordinate, Orientation, ShipTypeKey } from "./game/types";
+
+export const HARDHAT_CHAIN_ID = 31337;
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const DEFAULT_MOCK_RPC_URL = "http://127.0.0.1:8545";
+
+// Gateway-side addresses baked into the Hardhat fhevm plugin
+const MOCK_GATEWAY_CHAIN_ID = 55815;
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+const UINT32_MAX = 0xffffffff;
+
+export const DEFAULT_SESSION_DAYS = 1;
+const SESSION_STORAGE_PREFIX = "fhe-session";
+// Sessions this close to expiring are renewed rather than reused
+const SESSION_EXPIRY_MARGIN_SECONDS = 300;
+
+/** Ship type ids as the contract stores them in `Ship.typeId`. */
+export const SHIP_TYPE_IDS: Readonly<Record<ShipTypeKey, number>> = {
+  SUBMARINE: 0,
+  CARRIER: 1,
+  DESTROYER: 2,
+  BATTLESHIP: 3,
+  CRUISER: 4
+};
+
+/** Orientation ids as the contract stores them in `Ship.orientation`. */
+export const ORIENTATION_IDS: Readonly<Record<Orientation, number>> = {
+  horizontal: 0,
+  vertical: 1
+};
+
+/** `GameMove.outcome` values, indexed by the contract's OUTCOME_* constants. */
+export const SHOT_OUTCOMES: readonly AttackOutcome[] = ["miss", "hit", "sunk"];
+
+/** One `ShipInput` of `submitFleet`; the health and hit mask start on chain. */
+export interface EncryptedShip {
+  typeId: string;
+  x: string;
+  y: string;
+  orientation: string;
+  length: string;
+}
+
+export interface EncryptedFleet {
+  ships: EncryptedShip[];
+  inputProof: string;
+}
+
+export interface EncryptedMove {
+  targetX: string;
+  targetY: string;
+  inputProof: string;
+}
+
+export interface EncryptedSalvo {
+  targetXs: string[];
+  targetYs: string[];
+  inputProof: string;
+}
+
+/**
+ * A signed permission to user-decrypt, for one account, chain and set of
+ * contracts. The keypair is the relayer's re-encryption key, not a wallet key.
+ */
+export interface DecryptionSession {
+  chainId: number;
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+const createSepoliaInstance = async (): Promise<FhevmInstance> => {
+  const { createInstance, initSDK, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: window.ethereum ?? SepoliaConfig.network });
+};
+
+const createMockInstance = async (rpcUrl: string): Promise<FhevmInstance> => {
+  // Loaded on demand so production bundles never pull in the mock
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: HARDHAT_CHAIN_ID,
+    gatewayChainId: MOCK_GATEWAY_CHAIN_ID,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance;
+};
+
+/**
+ * The FHE instance for `chainId`, created once and shared. Sepolia goes
+ * through the relayer and chain 31337 uses the Hardhat mock at `mockRpcUrl`.
+ */
+export function getFheInstance(chainId: number, mockRpcUrl: string = DEFAULT_MOCK_RPC_URL): Promise<FhevmInstance> {
+  let instance = instances.get(chainId);
+  if (!instance) {
+    if (chainId !== HARDHAT_CHAIN_ID && chainId !== SEPOLIA_CHAIN_ID) {
+      return Promise.reject(new Error(`FHE is not available on chain ${chainId}`));
+    }
+    instance = chainId === HARDHAT_CHAIN_ID ? createMockInstance(mockRpcUrl) : createSepoliaInstance();
+    // A failed setup (relayer down, node not running) shouldn't stick
+    instance.catch(() => instances.delete(chainId));
+    instances.set(chainId, instance);
+  }
+  return instance;
+}
+
+const checkUint32 = (label: string, value: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new RangeError(`${label} must be a uint32, got ${value}`);
+  }
+};
+
+/**
+ * Encrypts `values` as euint32s in one input bound to `contractAddress` and
+ * `userAddress`, which must be the account that sends the transaction.
+ */
+export async function encryptUint32s(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  values: readonly number[]
+): Promise<{ handles: string[]; inputProof: string }> {
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  values.forEach((value, i) => {
+    checkUint32(`Value ${i}`, value);
+    input.add32(value);
+  });
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map(handle => ethers.hexlify(handle)), inputProof: ethers.hexlify(inputProof) };
+}
+
+const SHIP_INPUT_FIELDS = 5;
+
+/**
+ * Encrypted arguments for `submitFleet`, every ship in one input: five
+ * euint32s each, so a full ten-ship fleet is 1600 of the 2048 bits an input
+ * may carry. The contract checks the placement itself, encrypted.
+ */
+export async function encryptFleet(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  ships: readonly { type: ShipTypeKey; origin: Coordinate; orientation: Orientation; length: number }[]
+): Promise<EncryptedFleet> {
+  const { handles, inputProof } = await encryptUint32s(
+    instance,
+    contractAddress,
+    userAddress,
+    ships.flatMap(ship => [
+      SHIP_TYPE_IDS[ship.type],
+      ship.origin.x,
+      ship.origin.y,
+      ORIENTATION_IDS[ship.orientation],
+      ship.length
+    ])
+  );
+  return {
+    ships: ships.map((_, i) => {
+      const [typeId, x, y, orientation, length] = handles.slice(i * SHIP_INPUT_FIELDS, (i + 1) * SHIP_INPUT_FIELDS);
+      return { typeId, x, y, orientation, length };
+    }),
+    inputProof
+  };
+}
+
+/** Encrypted arguments for `submitMove`. */
+export async function encryptMove(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  target: { x: number; y: number }
+): Promise<EncryptedMove> {
+  const { handles, inputProof } = await encryptUint32s(instance, contractAddress, userAddress, [target.x, target.y]);
+  return { targetX: handles[0], targetY: handles[1], inputProof };
+}
+
+/** Encrypted arguments for `submitSalvo`: every target shares one input proof. */
+export async function encryptSalvo(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  targets: readonly { x: number; y: number }[]
+): Promise<EncryptedSalvo> {
+  const { handles, inputProof } = await encryptUint32s(
+    instance,
+    contractAddress,
+    userAddress,
+    targets.flatMap(({ x, y }) => [x, y])
+  );
+  return {
+    targetXs: handles.filter((_, i) => i % 2 === 0),
+    targetYs: handles.filter((_, i) => i % 2 === 1),
+    inputProof
+  };
+}
+
+const sessionKey = (chainId: number, userAddress: string, contractAddresses: readonly string[]) =>
+  [SESSION_STORAGE_PREFIX, chainId, userAddress.toLowerCase(), ...contractAddresses.map(a => a.toLowerCase()).sort()].join(":");
+
+/** Unix seconds after which the session is no longer used, a margin ahead of its real expiry. */
+export function sessionExpiry(session: DecryptionSession): number {
+  return session.startTimestamp + session.durationDays * 24 * 60 * 60 - SESSION_EXPIRY_MARGIN_SECONDS;
+}
+
+export function isSessionValid(session: DecryptionSession, now: number = Math.floor(Date.now() / 1000)): boolean {
+  return now < sessionExpiry(session);
+}
+
+/** A cached, still valid session for exactly these parameters, if there is one. */
+export function loadDecryptionSession(
+  chainId: number,
+  userAddress: string,
+  contractAddresses: readonly string[]
+): DecryptionSession | null {
+  const key = sessionKey(chainId, userAddress, contractAddresses);
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return null;
+    const session: DecryptionSession = JSON.parse(stored);
+    if (isSessionValid(session)) return session;
+    localStorage.removeItem(key);
+  } catch (e) {
+    console.error("Error reading decryption session:", e);
+  }
+  return null;
+}
+
+export function clearDecryptionSession(session: DecryptionSession): void {
+  localStorage.removeItem(sessionKey(session.chainId, session.userAddress, session.contractAddresses));
+}
+
+/**
+ * Generates a relayer keypair and has the wallet sign the EIP-712 user-decrypt
+ * authorization for `contractAddresses`, valid for `durationDays` from now.
+ * The signed session is cached per account, chain and contract set.
+ */
+export async function createDecryptionSession(
+  instance: FhevmInstance,
+  options: {
+    chainId: number;
+    userAddress: string;
+    contractAddresses: readonly string[];
+    durationDays?: number;
+    signTypedData: (typedData: EIP712) => Promise<string>;
+  }
+): Promise<DecryptionSession> {
+  const contractAddresses = [...options.contractAddresses];
+  const durationDays = options.durationDays ?? DEFAULT_SESSION_DAYS;
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const typedData = instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await options.signTypedData(typedData);
+
+  const session: DecryptionSession = {
+    chainId: options.chainId,
+    userAddress: options.userAddress,
+    contractAddresses,
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays
+  };
+  localStorage.setItem(sessionKey(session.chainId, session.userAddress, contractAddresses), JSON.stringify(session));
+  return session;
+}
+
+/**
+ * Decrypts `handles` of `contractAddress` for the session's account, which
+ * the contract must have allowed on each of them. Values come back in order.
+ */
+export async function userDecrypt(
+  instance: FhevmInstance,
+  session: DecryptionSession,
+  contractAddress: string,
+  handles: readonly string[]
+): Promise<bigint[]> {
+  if (!isSessionValid(session)) throw new Error("The decryption session has expired");
+  if (!session.contractAddresses.some(a => a.toLowerCase() === contractAddress.toLowerCase())) {
+    throw new Error(`The decryption session does not cover ${contractAddress}`);
+  }
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace(/^0x/, ""),
+    session.contractAddresses,
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays
+  );
+  return handles.map(handle => BigInt(results[handle]));
+}
+
+/** The player's own ship health, from the `health` handles of `gameShips`. */
+export async function decryptShipHealth(
+  instance: FhevmInstance,
+  session: DecryptionSession,
+  contractAddress: string,
+  healthHandles: readonly string[]
+): Promise<number[]> {
+  const values = await userDecrypt(instance, session, contractAddress, healthHandles);
+  return values.map(Number);
+}
+
+/** The caller's own shot outcomes, from `GameMove.outcome` handles. */
+export async function decryptShotOutcomes(
+  instance: FhevmInstance,
+  session: DecryptionSession,
+  contractAddress: string,
+  outcomeHandles: readonly string[]
+): Promise<AttackOutcome[]> {
+  const values = await userDecrypt(instance, session, contractAddress, outcomeHandles);
+  return values.map(value => {
+    const outcome = SHOT_OUTCOMES[Number(value)];
+    if (!outcome) throw new Error(`Unknown shot outcome ${value}`);
+    return outcome;
+  });
+}
+
+/** Targets of shots fired at the caller, from `GameMove` target handles. */
+export async function decryptShotTargets(
+  instance: FhevmInstance,
+  session: DecryptionSession,
+  contractAddress: string,
+  targetHandles: readonly (readonly [string, string])[]
+): Promise<{ x: number; y: number }[]> {
+  const values = await userDecrypt(instance, session, contractAddress, targetHandles.flat());
+  return targetHandles.map((_, i) => ({ x: Number(values[2 * i]), y: Number(values[2 * i + 1]) }));
+}
@@ -0,0 +1,185 @@
+// game/abilities.ts
+// Ship abilities. Each one is tied to a ship that must still be afloat and
+// takes the place of that side's shot for the turn.
+import {
+  assertTurn,
+  endTurn,
+  findShipAt,
+  GameRuleError,
+  isInBounds,
+  isShipPlaced,
+  isShipSunk,
+  isTargeted,
+  opponentOf,
+  resolveShot,
+  SHIP_TYPES,
+  shipCells
+} from "./rules";
+import {
+  AbilityName,
+  AbilityResult,
+  AttackResult,
+  Coordinate,
+  GameState,
+  Intel,
+  Ocean,
+  Orientation,
+  Ship,
+  Side
+} from "./types";
+
+export interface AbilitySpec {
+  readonly description: string;
+  /** Whether the ability is aimed at a cell of the enemy ocean. */
+  readonly targeted: boolean;
+}
+
+export const ABILITIES: Readonly<Record<AbilityName, AbilitySpec>> = {
+  "Range Attack": { description: "Strike 3 adjacent squares in a line at once", targeted: true },
+  "Armor Piercing": { description: "Fire a shell that deals double damage to the ship it hits", targeted: true },
+  "Radar Scan": { description: "Reveal enemy ships in a 3x3 area", targeted: true },
+  "Stealth": { description: "Enemy hits are reported as misses during their next turn", targeted: false },
+  "Sonar Ping": { description: "Count enemy ships within 2 squares of a point", targeted: true }
+};
+
+export const SONAR_RADIUS = 2;
+
+/** Why `ship` can't use its ability right now, or null if it can. */
+export function abilityBlocker(ship: Ship): string | null {
+  if (!isShipPlaced(ship)) return `The ${ship.name} is not deployed`;
+  if (isShipSunk(ship)) return `The ${ship.name} has been sunk`;
+  if (ship.abilityState.charges <= 0) return `${ship.ability} has no charges left`;
+  if (ship.abilityState.cooldown > 0) {
+    return `${ship.ability} is ready in ${ship.abilityState.cooldown} turn${ship.abilityState.cooldown === 1 ? "" : "s"}`;
+  }
+  return null;
+}
+
+export function canUseAbility(ship: Ship): boolean {
+  return abilityBlocker(ship) === null;
+}
+
+function withinDistance(center: Coordinate, radius: number, cell: Coordinate): boolean {
+  return Math.abs(cell.x - center.x) + Math.abs(cell.y - center.y) <= radius;
+}
+
+/** The cells an ability aimed at `target` covers, clipped to the board. */
+export function abilityArea(
+  ability: AbilityName,
+  ocean: Ocean,
+  target: Coordinate,
+  orientation: Orientation = "horizontal"
+): Coordinate[] {
+  let cells: Coordinate[] = [];
+  switch (ability) {
+    case "Range Attack": {
+      const start = orientation === "horizontal" ? { x: target.x, y: target.y - 1 } : { x: target.x - 1, y: target.y };
+      cells = shipCells(start, 3, orientation);
+      break;
+    }
+    case "Armor Piercing":
+      cells = [target];
+      break;
+    case "Radar Scan":
+    case "Sonar Ping": {
+      const reach = ability === "Radar Scan" ? 1 : SONAR_RADIUS;
+      for (let dx = -reach; dx <= reach; dx++) {
+        for (let dy = -reach; dy <= reach; dy++) {
+          const cell = { x: target.x + dx, y: target.y + dy };
+          if (ability === "Radar Scan" || withinDistance(target, SONAR_RADIUS, cell)) cells.push(cell);
+        }
+      }
+      break;
+    }
+    case "Stealth":
+      break;
+  }
+  return cells.filter(cell => isInBounds(ocean.board, cell));
+}
+
+function radarScan(ocean: Ocean, center: Coordinate): Intel {
+  const sightings = abilityArea("Radar Scan", ocean, center).map(cell => ({
+    cell,
+    occupied: findShipAt(ocean.ships, cell) !== undefined
+  }));
+  return { kind: "radar", center, sightings };
+}
+
+function sonarPing(ocean: Ocean, center: Coordinate): Intel {
+  const contacts = ocean.ships.filter(ship =>
+    !isShipSunk(ship) && ship.positions.some(pos => withinDistance(center, SONAR_RADIUS, pos))
+  ).length;
+  return { kind: "sonar", center, radius: SONAR_RADIUS, contacts };
+}
+
+/**
+ * Uses the ability of `shipId` for `side` and ends that side's turn. Targeted
+ * abilities need `target` in the enemy ocean; Range Attack lays its three
+ * cells along `orientation`, centred on `target`.
+ */
+export function activateAbility(
+  state: GameState,
+  side: Side,
+  shipId: string,
+  target?: Coordinate,
+  orientation: Orientation = "horizontal"
+): { state: GameState; result: AbilityResult } {
+  assertTurn(state, side);
+  if (!state.rules.abilities) throw new GameRuleError("AbilityUnavailable", `${state.rules.name} is played without abilities`);
+  const ship = state[side].ships.find(s => s.id === shipId);
+  if (!ship) throw new GameRuleError("UnknownShip", `No ship with id ${shipId}`);
+  const blocker = abilityBlocker(ship);
+  if (blocker) throw new GameRuleError("AbilityUnavailable", blocker);
+
+  const ability = ship.ability;
+  const defender = opponentOf(side);
+  const spent: Ship = {
+    ...ship,
+    abilityState: { charges: ship.abilityState.charges - 1, cooldown: SHIP_TYPES[ship.type].cooldown }
+  };
+  const own = { ...state[side], ships: state[side].ships.map(s => (s.id === shipId ? spent : s)) };
+  if (ability === "Stealth") {
+    const next = endTurn({ ...state, [side]: { ...own, stealthed: true } }, side);
+    return { state: next, result: { ability, shipId, shots: [], intel: null } };
+  }
+
+  if (!target) throw new GameRuleError("TargetRequired", `${ability} needs a target`);
+  let ocean = state[defender];
+  if (!isInBounds(ocean.board, target)) throw new GameRuleError("OutOfBounds", `(${target.x},${target.y}) is off the board`);
+  if ((ability === "Range Attack" || ability === "Armor Piercing") && isTargeted(ocean.board, target)) {
+    throw new GameRuleError("AlreadyTargeted", `(${target.x},${target.y}) was already fired upon`);
+  }
+
+  const shots: AttackResult[] = [];
+  let intel: Intel | null = null;
+  switch (ability) {
+    case "Range Attack":
+      // Neighbours that were already shot, or went down with a ship sunk by
+      // this same strike, are skipped rather than wasting the ability
+      for (const cell of abilityArea(ability, ocean, target, orientation)) {
+        if (isTargeted(ocean.board, cell)) continue;
+        const fired = resolveShot(ocean, side, cell);
+        ocean = fired.ocean;
+        shots.push(fired.result);
+      }
+      break;
+    case "Armor Piercing": {
+      const fired = resolveShot(ocean, side, target, 2);
+      ocean = fired.ocean;
+      shots.push(fired.result);
+      break;
+    }
+    case "Radar Scan":
+      intel = radarScan(ocean, target);
+      break;
+    case "Sonar Ping":
+      intel = sonarPing(ocean, target);
+      break;
+  }
+  if (intel) ocean = { ...ocean, intel: [...ocean.intel, intel] };
+
+  return {
+    state: endTurn({ ...state, [side]: own, [defender]: ocean }, side),
+    result: { ability, shipId, shots, intel }
+  };
+}
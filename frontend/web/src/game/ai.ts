@@ -0,0 +1,196 @@
+// game/ai.ts
+// Computer opponent. It plays from the fog-of-war view of the player's ocean,
+// the same one a human in its seat would get, plus the sizes of the ships
+// still afloat.
+import {
+  fogOfWar,
+  GameRuleError,
+  isShipPlaced,
+  placeShip,
+  remainingShipSizes,
+  shipCells
+} from "./rules";
+import { BoardView, Coordinate, Ocean, Orientation } from "./types";
+
+export type AiLevel = "easy" | "normal" | "hard";
+
+export const AI_LEVELS: Readonly<Record<AiLevel, { label: string; description: string }>> = {
+  easy: { label: "Easy", description: "Fires at random" },
+  normal: { label: "Normal", description: "Hunts, then finishes off damaged ships" },
+  hard: { label: "Hard", description: "Fires where ships are most likely to be" }
+};
+
+export type RandomSource = () => number;
+
+const ORIENTATIONS: readonly Orientation[] = ["horizontal", "vertical"];
+
+const NEIGHBOURS: readonly Coordinate[] = [
+  { x: -1, y: 0 },
+  { x: 1, y: 0 },
+  { x: 0, y: -1 },
+  { x: 0, y: 1 }
+];
+
+function pick<T>(items: readonly T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function allCells(view: BoardView): Coordinate[] {
+  return view.flatMap((row, x) => row.map((_, y) => ({ x, y })));
+}
+
+function isInView(view: BoardView, { x, y }: Coordinate): boolean {
+  return x >= 0 && y >= 0 && x < view.length && y < view[x].length;
+}
+
+function isUnknown(view: BoardView, cell: Coordinate): boolean {
+  return isInView(view, cell) && view[cell.x][cell.y] === "unknown";
+}
+
+function untargetedCells(view: BoardView): Coordinate[] {
+  return allCells(view).filter(cell => isUnknown(view, cell));
+}
+
+/** Hits on ships that are still afloat, i.e. ships worth finishing off. */
+function openHits(view: BoardView): Coordinate[] {
+  return allCells(view).filter(({ x, y }) => view[x][y] === "hit");
+}
+
+/**
+ * Drops every unplaced ship of `ocean` at a random legal position. Gives up
+ * with a GameRuleError if the board is too crowded to fit the fleet.
+ */
+export function placeRandomFleet(ocean: Ocean, random: RandomSource = Math.random): Ocean {
+  let current = ocean;
+  for (const ship of ocean.ships) {
+    if (isShipPlaced(ship)) continue;
+    let placed = false;
+    for (let attempt = 0; attempt < 500 && !placed; attempt++) {
+      const origin = { x: Math.floor(random() * current.board.length), y: Math.floor(random() * current.board.length) };
+      try {
+        current = placeShip(current, ship.id, origin, pick(ORIENTATIONS, random));
+        placed = true;
+      } catch (e) {
+        if (!(e instanceof GameRuleError)) throw e;
+      }
+    }
+    if (!placed) throw new GameRuleError("CellOccupied", `No room left for the ${ship.name}`);
+  }
+  return current;
+}
+
+function chooseRandom(view: BoardView, random: RandomSource): Coordinate {
+  return pick(untargetedCells(view), random);
+}
+
+function chooseHuntTarget(view: BoardView, sizes: readonly number[], random: RandomSource): Coordinate {
+  const hits = openHits(view);
+  if (hits.length > 0) {
+    // Two or more hits in a row give away the orientation: extend the line.
+    const candidates: Coordinate[] = [];
+    for (const hit of hits) {
+      for (const step of NEIGHBOURS) {
+        const back = { x: hit.x - step.x, y: hit.y - step.y };
+        if (!isInView(view, back) || view[back.x][back.y] !== "hit") continue;
+        let next = { x: hit.x + step.x, y: hit.y + step.y };
+        while (isInView(view, next) && view[next.x][next.y] === "hit") {
+          next = { x: next.x + step.x, y: next.y + step.y };
+        }
+        if (isUnknown(view, next)) candidates.push(next);
+      }
+    }
+    if (candidates.length > 0) return pick(candidates, random);
+
+    const adjacent = hits.flatMap(hit =>
+      NEIGHBOURS.map(step => ({ x: hit.x + step.x, y: hit.y + step.y }))
+        .filter(cell => isUnknown(view, cell))
+    );
+    if (adjacent.length > 0) return pick(adjacent, random);
+  }
+
+  // Every ship covers at least `smallest` cells, so a spaced grid is enough.
+  const smallest = Math.max(1, Math.min(...sizes));
+  const spaced = untargetedCells(view).filter(({ x, y }) => (x + y) % smallest === 0);
+  return spaced.length > 0 ? pick(spaced, random) : chooseRandom(view, random);
+}
+
+/**
+ * Scores every untargeted cell by how many ways the remaining ships could
+ * still cover it. Placements through open hits count far more, which turns
+ * the same map into a targeting mode once something has been hit.
+ */
+export function probabilityDensity(view: BoardView, sizes: readonly number[]): number[][] {
+  const density = view.map(row => row.map(() => 0));
+  const huntingHits = openHits(view).length > 0;
+
+  for (const size of sizes) {
+    for (const origin of allCells(view)) {
+      for (const orientation of ORIENTATIONS) {
+        const cells = shipCells(origin, size, orientation);
+        if (!cells.every(cell => isInView(view, cell))) continue;
+        if (cells.some(({ x, y }) => view[x][y] === "miss" || view[x][y] === "sunk")) continue;
+        const hitsCovered = cells.filter(({ x, y }) => view[x][y] === "hit").length;
+        if (huntingHits && hitsCovered === 0) continue;
+        const weight = 1 + hitsCovered * 10;
+        for (const cell of cells) {
+          if (isUnknown(view, cell)) density[cell.x][cell.y] += weight;
+        }
+      }
+    }
+  }
+  return density;
+}
+
+function chooseDensityTarget(view: BoardView, sizes: readonly number[], random: RandomSource): Coordinate {
+  const density = probabilityDensity(view, sizes);
+  let best: Coordinate[] = [];
+  let bestScore = 0;
+  for (const cell of untargetedCells(view)) {
+    const score = density[cell.x][cell.y];
+    if (score > bestScore) {
+      best = [cell];
+      bestScore = score;
+    } else if (score === bestScore && score > 0) {
+      best.push(cell);
+    }
+  }
+  return best.length > 0 ? pick(best, random) : chooseHuntTarget(view, sizes, random);
+}
+
+function chooseFromView(level: AiLevel, view: BoardView, sizes: readonly number[], random: RandomSource): Coordinate {
+  switch (level) {
+    case "easy":
+      return chooseRandom(view, random);
+    case "normal":
+      return chooseHuntTarget(view, sizes, random);
+    case "hard":
+      return chooseDensityTarget(view, sizes, random);
+  }
+}
+
+/** Picks the next cell to fire at in `target`, seen through the fog of war. */
+export function chooseTarget(level: AiLevel, target: Ocean, random: RandomSource = Math.random): Coordinate {
+  return chooseFromView(level, fogOfWar(target), remainingShipSizes(target), random);
+}
+
+/**
+ * Picks `count` distinct cells for a salvo. Each pick is pencilled in as a
+ * miss before the next one, which spreads the shots instead of stacking them
+ * on the single most likely cell.
+ */
+export function chooseSalvo(
+  level: AiLevel,
+  target: Ocean,
+  count: number,
+  random: RandomSource = Math.random
+): Coordinate[] {
+  const view = fogOfWar(target).map(row => [...row]);
+  const sizes = remainingShipSizes(target);
+  const picks: Coordinate[] = [];
+  for (let i = 0; i < count && untargetedCells(view).length > 0; i++) {
+    const cell = chooseFromView(level, view, sizes, random);
+    picks.push(cell);
+    view[cell.x][cell.y] = "miss";
+  }
+  return picks;
+}
@@ -0,0 +1,76 @@
+// game/log.ts
+// The typed event log of a game and the boards at any point of it. Events are
+// diffed from one game state to the next rather than written at each call
+// site, so every shot, sinking and ability that reaches the state is logged.
+import { createBoard, opponentOf, setCells } from "./rules";
+import { Board, Coordinate, GameEvent, GameState, ReplayFrame, RulePreset, Side } from "./types";
+
+/** A finished game's log, stored under the digest of its signed record. */
+export interface GameLog {
+  readonly id: string;
+  readonly rules: RulePreset;
+  readonly events: readonly GameEvent[];
+}
+
+const SIDES: readonly Side[] = ["player", "enemy"];
+
+const sameCells = (a: readonly Coordinate[], b: readonly Coordinate[]) =>
+  a.length === b.length && a.every((cell, i) => cell.x === b[i].x && cell.y === b[i].y);
+
+/**
+ * What happened between `prev` and `next`: ship placements, abilities spent,
+ * shots with their results, and the turn passing. `prev` is null for the
+ * first state of a game.
+ */
+export function logEvents(prev: GameState | null, next: GameState): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const side of SIDES) {
+    for (const ship of next[side].ships) {
+      const before = prev?.[side].ships.find(s => s.id === ship.id);
+      if (!sameCells(before?.positions ?? [], ship.positions)) {
+        events.push({ kind: "placement", side, shipId: ship.id, shipType: ship.type, positions: ship.positions });
+      }
+      if (before && ship.abilityState.charges < before.abilityState.charges) {
+        events.push({ kind: "ability", side, shipId: ship.id, ability: ship.ability });
+      }
+    }
+  }
+  for (const side of SIDES) {
+    // Shots at a side's ocean were fired by the other
+    const attacker = opponentOf(side);
+    for (const shot of next[side].shots.slice(prev?.[side].shots.length ?? 0)) {
+      events.push({ kind: "shot", side: attacker, target: shot.target });
+      events.push({ kind: "result", side: attacker, ...shot });
+    }
+  }
+  if (prev && prev.turn !== next.turn) events.push({ kind: "turn", side: next.turn });
+  return events;
+}
+
+/** The boards after the first `step` events of `events`, with every ship shown. */
+export function replayFrame(rules: RulePreset, events: readonly GameEvent[], step: number): ReplayFrame {
+  const fleets: Record<Side, Map<string, readonly Coordinate[]>> = { player: new Map(), enemy: new Map() };
+  const boards: Record<Side, Board> = {
+    player: createBoard(rules.boardSize),
+    enemy: createBoard(rules.boardSize)
+  };
+  let turn: Side | null = null;
+
+  const played = events.slice(0, step);
+  for (const event of played) {
+    if (event.kind === "placement") fleets[event.side].set(event.shipId, event.positions);
+    else if (event.kind === "turn") turn = event.side;
+  }
+  for (const side of SIDES) {
+    for (const positions of fleets[side].values()) boards[side] = setCells(boards[side], positions, "ship");
+  }
+  for (const event of played) {
+    if (event.kind !== "result") continue;
+    const defender = opponentOf(event.side);
+    boards[defender] = event.sunkCells ?
+      setCells(boards[defender], event.sunkCells, "sunk") :
+      setCells(boards[defender], [event.target], event.outcome);
+  }
+
+  return { player: boards.player, enemy: boards.enemy, turn, event: played[played.length - 1] ?? null };
+}
@@ -0,0 +1,122 @@
+// game/presets.ts
+// Named rule presets for the New Game dialog. Board bounds mirror
+// MIN_BOARD_SIZE/MAX_BOARD_SIZE in BattleshipPlusFHE.sol, which checks the
+// same coordinates on chain.
+import { SHIP_TYPES } from "./rules";
+import { RulePreset, ShipTypeKey } from "./types";
+
+export const MIN_BOARD_SIZE = 6;
+export const MAX_BOARD_SIZE = 16;
+export const MAX_FLEET_SIZE = 10;
+
+/** Share of the board a fleet may cover, so random placement always fits. */
+const MAX_FLEET_COVERAGE = 0.35;
+
+const STANDARD_FLEET: readonly ShipTypeKey[] = ["CARRIER", "BATTLESHIP", "CRUISER", "SUBMARINE", "DESTROYER"];
+
+export const RULE_PRESETS: readonly RulePreset[] = [
+  {
+    id: "classic",
+    name: "Classic 10x10",
+    description: "The original game: five ships, no abilities",
+    boardSize: 10,
+    fleet: STANDARD_FLEET,
+    abilities: false,
+    salvo: false
+  },
+  {
+    id: "plus",
+    name: "Plus",
+    description: "Classic board and fleet with ship abilities",
+    boardSize: 10,
+    fleet: STANDARD_FLEET,
+    abilities: true,
+    salvo: false
+  },
+  {
+    id: "small",
+    name: "Small 8x8",
+    description: "A quick skirmish with four ships",
+    boardSize: 8,
+    fleet: ["BATTLESHIP", "CRUISER", "SUBMARINE", "DESTROYER"],
+    abilities: true,
+    salvo: false
+  },
+  {
+    id: "large",
+    name: "Large 12x12",
+    description: "Open water and a seven-ship fleet",
+    boardSize: 12,
+    fleet: ["CARRIER", "BATTLESHIP", "BATTLESHIP", "CRUISER", "SUBMARINE", "DESTROYER", "DESTROYER"],
+    abilities: true,
+    salvo: false
+  },
+  {
+    id: "salvo",
+    name: "Salvo",
+    description: "One shot per ship still afloat, all fired at once",
+    boardSize: 10,
+    fleet: STANDARD_FLEET,
+    abilities: false,
+    salvo: true
+  }
+];
+
+export const DEFAULT_PRESET = RULE_PRESETS[1];
+
+export function findPreset(id: string): RulePreset | undefined {
+  return RULE_PRESETS.find(preset => preset.id === id);
+}
+
+export function customPreset(
+  boardSize: number,
+  fleet: readonly ShipTypeKey[],
+  abilities: boolean,
+  salvo: boolean
+): RulePreset {
+  const extras = [abilities && "abilities", salvo && "salvo fire"].filter(Boolean).join(" and ");
+  return {
+    id: "custom",
+    name: `Custom ${boardSize}x${boardSize}`,
+    description: `${fleet.length} ships${extras ? ` with ${extras}` : ""}`,
+    boardSize,
+    fleet,
+    abilities,
+    salvo
+  };
+}
+
+/**
+ * The named preset with exactly these rules, else a custom one. Fleets match
+ * regardless of order, since the contract only keeps a count per ship type.
+ */
+export function presetFor(
+  boardSize: number,
+  fleet: readonly ShipTypeKey[],
+  abilities: boolean,
+  salvo: boolean
+): RulePreset {
+  const key = (types: readonly ShipTypeKey[]) => [...types].sort().join(",");
+  const named = RULE_PRESETS.find(preset =>
+    preset.boardSize === boardSize &&
+    preset.abilities === abilities &&
+    preset.salvo === salvo &&
+    key(preset.fleet) === key(fleet)
+  );
+  return named ?? customPreset(boardSize, fleet, abilities, salvo);
+}
+
+/** Why `preset` can't be played, or null if it can. */
+export function validatePreset(preset: RulePreset): string | null {
+  const { boardSize, fleet } = preset;
+  if (!Number.isInteger(boardSize) || boardSize < MIN_BOARD_SIZE || boardSize > MAX_BOARD_SIZE) {
+    return `Board size must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}`;
+  }
+  if (fleet.length === 0) return "The fleet needs at least one ship";
+  if (fleet.length > MAX_FLEET_SIZE) return `The fleet can have at most ${MAX_FLEET_SIZE} ships`;
+  const unknown = fleet.find(type => !(type in SHIP_TYPES));
+  if (unknown) return `Unknown ship type ${unknown}`;
+  const cells = fleet.reduce((total, type) => total + SHIP_TYPES[type].size, 0);
+  if (cells > boardSize * boardSize * MAX_FLEET_COVERAGE) return "The fleet is too large for this board";
+  return null;
+}
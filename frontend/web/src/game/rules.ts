@@ -0,0 +1,484 @@
+// game/rules.ts
+// Headless Battleship rules. Nothing in here touches React, the wallet or the
+// contract, so the same functions can drive the UI, a bot or a test.
+import {
+  AttackOutcome,
+  AttackResult,
+  Board,
+  BoardView,
+  CellState,
+  CombatStats,
+  Coordinate,
+  GameState,
+  Ocean,
+  Orientation,
+  PlacementPreview,
+  RulePreset,
+  Ship,
+  ShipType,
+  ShipTypeKey,
+  Shot,
+  ShotTally,
+  Side,
+  ViewCell,
+} from "./types";
+
+// Ship types and their abilities
+export const SHIP_TYPES: Readonly<Record<ShipTypeKey, ShipType>> = {
+  CARRIER: { name: "Aircraft Carrier", size: 5, ability: "Range Attack", charges: 2, cooldown: 4 },
+  BATTLESHIP: { name: "Battleship", size: 4, ability: "Armor Piercing", charges: 2, cooldown: 3 },
+  CRUISER: { name: "Cruiser", size: 3, ability: "Radar Scan", charges: 3, cooldown: 3 },
+  SUBMARINE: { name: "Submarine", size: 3, ability: "Stealth", charges: 2, cooldown: 4 },
+  DESTROYER: { name: "Destroyer", size: 2, ability: "Sonar Ping", charges: 3, cooldown: 2 }
+};
+
+export const SHIP_TYPE_KEYS = Object.keys(SHIP_TYPES) as ShipTypeKey[];
+
+export type GameRuleErrorCode =
+  | "UnknownShip"
+  | "OutOfBounds"
+  | "CellOccupied"
+  | "NotYourTurn"
+  | "GameOver"
+  | "AlreadyTargeted"
+  | "AbilityUnavailable"
+  | "TargetRequired"
+  | "SalvoSize";
+
+export class GameRuleError extends Error {
+  readonly code: GameRuleErrorCode;
+
+  constructor(code: GameRuleErrorCode, message: string) {
+    super(message);
+    this.name = "GameRuleError";
+    this.code = code;
+  }
+}
+
+export function createBoard(size: number): Board {
+  return Array.from({ length: size }, () => Array<CellState>(size).fill("empty"));
+}
+
+/** One ship per entry of `fleet`; repeated types are numbered so names stay distinct. */
+export function createFleet(fleet: readonly ShipTypeKey[], idSuffix: string = `${Date.now()}`): Ship[] {
+  return fleet.map((type, index) => {
+    const shipType = SHIP_TYPES[type];
+    const copies = fleet.filter(t => t === type).length;
+    const number = fleet.slice(0, index + 1).filter(t => t === type).length;
+    return {
+      id: `${type}-${index}-${idSuffix}`,
+      type,
+      name: copies > 1 ? `${shipType.name} ${number}` : shipType.name,
+      size: shipType.size,
+      orientation: "horizontal",
+      positions: [],
+      health: shipType.size,
+      ability: shipType.ability,
+      abilityState: { charges: shipType.charges, cooldown: 0 }
+    };
+  });
+}
+
+export function createOcean(rules: RulePreset, idSuffix?: string): Ocean {
+  return {
+    board: createBoard(rules.boardSize),
+    ships: createFleet(rules.fleet, idSuffix),
+    shots: [],
+    intel: [],
+    stealthed: false
+  };
+}
+
+/** A fresh game under `rules` with both fleets still to be placed; the player shoots first. */
+export function createGame(rules: RulePreset): GameState {
+  const stamp = `${Date.now()}`;
+  return {
+    rules,
+    player: createOcean(rules, `player-${stamp}`),
+    enemy: createOcean(rules, `enemy-${stamp}`),
+    turn: "player",
+    turnsTaken: { player: 0, enemy: 0 },
+    gameOver: false,
+    winner: null
+  };
+}
+
+export function opponentOf(side: Side): Side {
+  return side === "player" ? "enemy" : "player";
+}
+
+export function isInBounds(board: Board, { x, y }: Coordinate): boolean {
+  return x >= 0 && y >= 0 && x < board.length && y < board[x].length;
+}
+
+export function setCells(board: Board, cells: readonly Coordinate[], value: CellState): Board {
+  if (cells.length === 0) return board;
+  const next = board.map(row => [...row]);
+  for (const { x, y } of cells) next[x][y] = value;
+  return next;
+}
+
+export function isShipPlaced(ship: Ship): boolean {
+  return ship.positions.length === ship.size;
+}
+
+export function isFleetPlaced(ocean: Ocean): boolean {
+  return ocean.ships.every(isShipPlaced);
+}
+
+export function rotate(orientation: Orientation): Orientation {
+  return orientation === "horizontal" ? "vertical" : "horizontal";
+}
+
+/** The straight segment a ship of `size` covers from `origin`. */
+export function shipCells(origin: Coordinate, size: number, orientation: Orientation): Coordinate[] {
+  return Array.from({ length: size }, (_, i) =>
+    orientation === "horizontal" ? { x: origin.x, y: origin.y + i } : { x: origin.x + i, y: origin.y }
+  );
+}
+
+function findShip(ocean: Ocean, shipId: string): Ship {
+  const ship = ocean.ships.find(s => s.id === shipId);
+  if (!ship) throw new GameRuleError("UnknownShip", `No ship with id ${shipId}`);
+  return ship;
+}
+
+/**
+ * Checks a placement without applying it. The ship's own current cells don't
+ * count as occupied, so an already placed ship can be moved or rotated.
+ */
+export function validatePlacement(
+  ocean: Ocean,
+  shipId: string,
+  origin: Coordinate,
+  orientation: Orientation
+): GameRuleError | null {
+  const ship = ocean.ships.find(s => s.id === shipId);
+  if (!ship) return new GameRuleError("UnknownShip", `No ship with id ${shipId}`);
+  for (const cell of shipCells(origin, ship.size, orientation)) {
+    if (!isInBounds(ocean.board, cell)) {
+      return new GameRuleError("OutOfBounds", `${ship.name} doesn't fit at (${origin.x},${origin.y})`);
+    }
+    const owner = findShipAt(ocean.ships, cell);
+    if (owner && owner.id !== ship.id) {
+      return new GameRuleError("CellOccupied", `${ship.name} would overlap the ${owner.name}`);
+    }
+  }
+  return null;
+}
+
+/** Cells and validity for a hover preview; out-of-bounds cells are clipped. */
+export function previewPlacement(
+  ocean: Ocean,
+  shipId: string,
+  origin: Coordinate,
+  orientation: Orientation
+): PlacementPreview {
+  const ship = ocean.ships.find(s => s.id === shipId);
+  if (!ship) return { cells: [], valid: false, reason: `No ship with id ${shipId}` };
+  const error = validatePlacement(ocean, shipId, origin, orientation);
+  return {
+    cells: shipCells(origin, ship.size, orientation).filter(cell => isInBounds(ocean.board, cell)),
+    valid: error === null,
+    reason: error ? error.message : null
+  };
+}
+
+/**
+ * Places `shipId` as one straight segment starting at `origin`. A ship that is
+ * already on the board is picked up and moved. Throws a GameRuleError when the
+ * segment leaves the board or overlaps another ship.
+ */
+export function placeShip(
+  ocean: Ocean,
+  shipId: string,
+  origin: Coordinate,
+  orientation: Orientation
+): Ocean {
+  const error = validatePlacement(ocean, shipId, origin, orientation);
+  if (error) throw error;
+
+  const lifted = removeShip(ocean, shipId);
+  const ship = findShip(lifted, shipId);
+  const positions = shipCells(origin, ship.size, orientation);
+  const placed: Ship = { ...ship, orientation, positions };
+  return {
+    ...lifted,
+    board: setCells(lifted.board, positions, "ship"),
+    ships: lifted.ships.map(s => (s.id === shipId ? placed : s))
+  };
+}
+
+/** Takes a ship back off the board so it can be placed again. */
+export function removeShip(ocean: Ocean, shipId: string): Ocean {
+  const ship = findShip(ocean, shipId);
+  if (ship.positions.length === 0) return ocean;
+  return {
+    ...ocean,
+    board: setCells(ocean.board, ship.positions, "empty"),
+    ships: ocean.ships.map(s => (s.id === shipId ? { ...s, positions: [] } : s))
+  };
+}
+
+export function findShipAt(ships: readonly Ship[], { x, y }: Coordinate): Ship | undefined {
+  return ships.find(ship => ship.positions.some(pos => pos.x === x && pos.y === y));
+}
+
+export function isShipSunk(ship: Ship): boolean {
+  return ship.health <= 0;
+}
+
+export function isVictory(ships: readonly Ship[]): boolean {
+  return ships.length > 0 && ships.every(isShipSunk);
+}
+
+/**
+ * Ships `side` still has afloat. An ocean with no ships is a hidden fleet,
+ * e.g. an online opponent's, known only through the sinkings shot into it.
+ */
+export function fleetAfloat(state: GameState, side: Side): number {
+  const ocean = state[side];
+  if (ocean.ships.length === 0) return state.rules.fleet.length - tallyShots(ocean).sunk;
+  return ocean.ships.filter(ship => !isShipSunk(ship)).length;
+}
+
+/** Ship sizes still afloat in `ocean`; sinking a ship is public knowledge. */
+export function remainingShipSizes(ocean: Ocean): number[] {
+  return ocean.ships.filter(ship => !isShipSunk(ship)).map(ship => ship.size);
+}
+
+export function isTargeted(board: Board, { x, y }: Coordinate): boolean {
+  const cell = board[x][y];
+  return cell === "hit" || cell === "miss" || cell === "sunk";
+}
+
+export function assertTurn(state: GameState, side: Side): void {
+  if (state.gameOver) throw new GameRuleError("GameOver", "The game is already over");
+  if (state.turn !== side) throw new GameRuleError("NotYourTurn", `It is not the ${side}'s turn`);
+}
+
+/**
+ * Applies one shot to `ocean` without touching the turn. `damage` above one is
+ * Armor Piercing. Hits on a stealthed ocean are masked unless they sink.
+ */
+export function resolveShot(
+  ocean: Ocean,
+  attacker: Side,
+  target: Coordinate,
+  damage: number = 1
+): { ocean: Ocean; result: AttackResult } {
+  if (!isInBounds(ocean.board, target)) throw new GameRuleError("OutOfBounds", `(${target.x},${target.y}) is off the board`);
+  if (isTargeted(ocean.board, target)) {
+    throw new GameRuleError("AlreadyTargeted", `(${target.x},${target.y}) was already fired upon`);
+  }
+
+  const ship = findShipAt(ocean.ships, target);
+  if (!ship) {
+    const shot: Shot = { target, outcome: "miss" };
+    return {
+      ocean: { ...ocean, board: setCells(ocean.board, [target], "miss"), shots: [...ocean.shots, shot] },
+      result: { attacker, target, outcome: "miss", ship: null, masked: false }
+    };
+  }
+
+  const damaged: Ship = { ...ship, health: Math.max(0, ship.health - damage) };
+  const sunk = isShipSunk(damaged);
+  const masked = ocean.stealthed && !sunk;
+  const ships = ocean.ships.map(s => (s.id === ship.id ? damaged : s));
+  const board = sunk ? setCells(ocean.board, damaged.positions, "sunk") : setCells(ocean.board, [target], "hit");
+  const shot: Shot = sunk ?
+    { target, outcome: "sunk", sunkCells: damaged.positions } :
+    { target, outcome: "hit", ...(masked ? { masked } : {}) };
+
+  return {
+    ocean: { ...ocean, board, ships, shots: [...ocean.shots, shot] },
+    result: { attacker, target, outcome: sunk ? "sunk" : "hit", ship: damaged, masked }
+  };
+}
+
+function tickCooldowns(ships: readonly Ship[]): readonly Ship[] {
+  if (ships.every(ship => ship.abilityState.cooldown === 0)) return ships;
+  return ships.map(ship => ship.abilityState.cooldown === 0 ? ship : {
+    ...ship,
+    abilityState: { ...ship.abilityState, cooldown: ship.abilityState.cooldown - 1 }
+  });
+}
+
+// The shot log once Stealth lapses: hits it masked show as the hits they were
+function unmaskShots(shots: readonly Shot[]): readonly Shot[] {
+  if (!shots.some(shot => shot.masked)) return shots;
+  return shots.map(shot => (shot.masked ? { target: shot.target, outcome: shot.outcome } : shot));
+}
+
+/**
+ * Hands the turn from `side` to its opponent, whose ability cooldowns tick
+ * down as their turn begins. Stealth on the defending ocean lasts exactly one
+ * of its opponent's turns, so it lapses here and the hits it masked come out.
+ */
+export function endTurn(state: GameState, side: Side): GameState {
+  const defender = opponentOf(side);
+  const ocean = state[defender];
+  const gameOver = fleetAfloat(state, defender) === 0;
+  return {
+    ...state,
+    [defender]: { ...ocean, ships: tickCooldowns(ocean.ships), shots: unmaskShots(ocean.shots), stealthed: false },
+    turn: defender,
+    turnsTaken: { ...state.turnsTaken, [side]: state.turnsTaken[side] + 1 },
+    gameOver,
+    winner: gameOver ? side : null
+  };
+}
+
+/**
+ * Shots `side` fires this turn in a Salvo game: one per ship still afloat,
+ * but never more than there are untargeted cells left. Always 1 otherwise.
+ */
+export function salvoSize(state: GameState, side: Side): number {
+  if (!state.rules.salvo) return 1;
+  const afloat = fleetAfloat(state, side);
+  const open = state[opponentOf(side)].board.flat().filter(cell => cell === "empty" || cell === "ship").length;
+  return Math.min(afloat, open);
+}
+
+/**
+ * Resolves one shot by `attacker` against the other side's ocean and passes
+ * the turn. Sinking the last ship ends the game in the attacker's favour.
+ */
+export function attack(
+  state: GameState,
+  attacker: Side,
+  target: Coordinate
+): { state: GameState; result: AttackResult } {
+  assertTurn(state, attacker);
+  const size = salvoSize(state, attacker);
+  if (size !== 1) throw new GameRuleError("SalvoSize", `This turn is a salvo of ${size} shots`);
+  const defender = opponentOf(attacker);
+  const { ocean, result } = resolveShot(state[defender], attacker, target);
+  return { state: endTurn({ ...state, [defender]: ocean }, attacker), result };
+}
+
+/**
+ * Checks a whole turn of fire by `attacker` without resolving any of it: the
+ * turn, the shot count (salvoSize), and that every target is a distinct,
+ * untargeted cell of the enemy ocean.
+ */
+export function checkTargets(state: GameState, attacker: Side, targets: readonly Coordinate[]): void {
+  assertTurn(state, attacker);
+  const size = salvoSize(state, attacker);
+  if (targets.length !== size) {
+    throw new GameRuleError("SalvoSize", `A salvo this turn is ${size} shot${size === 1 ? "" : "s"}, got ${targets.length}`);
+  }
+  const board = state[opponentOf(attacker)].board;
+  const seen = new Set<string>();
+  for (const target of targets) {
+    const key = `${target.x},${target.y}`;
+    if (!isInBounds(board, target)) throw new GameRuleError("OutOfBounds", `(${key}) is off the board`);
+    if (isTargeted(board, target)) throw new GameRuleError("AlreadyTargeted", `(${key}) was already fired upon`);
+    if (seen.has(key)) throw new GameRuleError("AlreadyTargeted", `(${key}) is in the salvo twice`);
+    seen.add(key);
+  }
+}
+
+/**
+ * Fires a full salvo: every target is checked before any is resolved, then
+ * all of them land together and the turn passes once. The count must match
+ * salvoSize exactly.
+ */
+export function fireSalvo(
+  state: GameState,
+  attacker: Side,
+  targets: readonly Coordinate[]
+): { state: GameState; results: AttackResult[] } {
+  checkTargets(state, attacker, targets);
+  const defender = opponentOf(attacker);
+  let ocean = state[defender];
+
+  const results: AttackResult[] = [];
+  for (const target of targets) {
+    const fired = resolveShot(ocean, attacker, target);
+    ocean = fired.ocean;
+    results.push(fired.result);
+  }
+  return { state: endTurn({ ...state, [defender]: ocean }, attacker), results };
+}
+
+/**
+ * Marks one shot whose outcome was resolved elsewhere, by the contract
+ * against a hidden fleet, without touching the turn. Only the target cell is
+ * marked: a sinking doesn't say which other cells the ship covered.
+ */
+export function recordShot(
+  ocean: Ocean,
+  attacker: Side,
+  target: Coordinate,
+  outcome: AttackOutcome
+): { ocean: Ocean; result: AttackResult } {
+  if (!isInBounds(ocean.board, target)) throw new GameRuleError("OutOfBounds", `(${target.x},${target.y}) is off the board`);
+  if (isTargeted(ocean.board, target)) {
+    throw new GameRuleError("AlreadyTargeted", `(${target.x},${target.y}) was already fired upon`);
+  }
+  const shot: Shot = { target, outcome };
+  return {
+    ocean: { ...ocean, board: setCells(ocean.board, [target], outcome), shots: [...ocean.shots, shot] },
+    result: { attacker, target, outcome, ship: null, masked: false }
+  };
+}
+
+/** recordShot for a whole turn of fire, which then passes the turn like attack or fireSalvo. */
+export function recordShots(
+  state: GameState,
+  attacker: Side,
+  shots: readonly { target: Coordinate; outcome: AttackOutcome }[]
+): { state: GameState; results: AttackResult[] } {
+  checkTargets(state, attacker, shots.map(shot => shot.target));
+  const defender = opponentOf(attacker);
+  let ocean = state[defender];
+  const results: AttackResult[] = [];
+  for (const { target, outcome } of shots) {
+    const recorded = recordShot(ocean, attacker, target, outcome);
+    ocean = recorded.ocean;
+    results.push(recorded.result);
+  }
+  return { state: endTurn({ ...state, [defender]: ocean }, attacker), results };
+}
+
+/**
+ * The opponent's picture of `ocean`, rebuilt from its shot log and radar
+ * sightings alone so that no undiscovered ship cell can leak into it.
+ */
+export function fogOfWar(ocean: Ocean): BoardView {
+  const view: ViewCell[][] = ocean.board.map(row => row.map((): ViewCell => "unknown"));
+  for (const intel of ocean.intel) {
+    if (intel.kind !== "radar") continue;
+    for (const { cell, occupied } of intel.sightings) view[cell.x][cell.y] = occupied ? "spotted" : "clear";
+  }
+  for (const shot of ocean.shots) {
+    view[shot.target.x][shot.target.y] = shot.masked ? "miss" : shot.outcome;
+    for (const { x, y } of shot.sunkCells ?? []) view[x][y] = "sunk";
+  }
+  return view;
+}
+
+export function tallyShots(ocean: Ocean): ShotTally {
+  return {
+    shots: ocean.shots.length,
+    hits: ocean.shots.filter(shot => shot.outcome !== "miss").length,
+    misses: ocean.shots.filter(shot => shot.outcome === "miss").length,
+    sunk: ocean.shots.filter(shot => shot.outcome === "sunk").length
+  };
+}
+
+/** Hits per shot fired, 0 to 1; 0 before the first shot. */
+export function shotAccuracy(tally: ShotTally): number {
+  return tally.shots > 0 ? tally.hits / tally.shots : 0;
+}
+
+/** What `side` fired, hit, sank and spent so far in `state`. */
+export function combatStats(state: GameState, side: Side): CombatStats {
+  const fleet = state[side].ships;
+  return {
+    ...tallyShots(state[opponentOf(side)]),
+    abilitiesUsed: fleet.reduce((used, ship) => used + SHIP_TYPES[ship.type].charges - ship.abilityState.charges, 0),
+    turns: state.turnsTaken[side]
+  };
+}
@@ -0,0 +1,188 @@
+// game/types.ts
+// Plain data shapes shared by the rules engine and the UI. Every field is
+// readonly: rule functions return a new GameState instead of mutating one.
+
+export type ShipTypeKey = "CARRIER" | "BATTLESHIP" | "CRUISER" | "SUBMARINE" | "DESTROYER";
+
+export type AbilityName = "Range Attack" | "Armor Piercing" | "Radar Scan" | "Stealth" | "Sonar Ping";
+
+export interface ShipType {
+  readonly name: string;
+  readonly size: number;
+  readonly ability: AbilityName;
+  /** Uses of the ability per game. */
+  readonly charges: number;
+  /** Own turns that must pass after a use before the ability is ready again. */
+  readonly cooldown: number;
+}
+
+export type CellState = "empty" | "ship" | "hit" | "miss" | "sunk";
+
+export type Board = readonly (readonly CellState[])[];
+
+export interface Coordinate {
+  readonly x: number;
+  readonly y: number;
+}
+
+export type Orientation = "horizontal" | "vertical";
+
+export interface Ship {
+  readonly id: string;
+  readonly type: ShipTypeKey;
+  readonly name: string;
+  readonly size: number;
+  readonly orientation: Orientation;
+  readonly positions: readonly Coordinate[];
+  readonly health: number;
+  readonly ability: AbilityName;
+  readonly abilityState: AbilityState;
+}
+
+export interface AbilityState {
+  readonly charges: number;
+  /** Own turns left until the ability is ready; 0 means ready. */
+  readonly cooldown: number;
+}
+
+export type Side = "player" | "enemy";
+
+/** Everything that can differ between games: grid, fleet and variant. */
+export interface RulePreset {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  /** Edge length of the square board. */
+  readonly boardSize: number;
+  /** One entry per ship; a type may appear more than once. */
+  readonly fleet: readonly ShipTypeKey[];
+  /** The "Plus" variant: ship abilities are available. */
+  readonly abilities: boolean;
+  /** Each turn fires one shot per ship still afloat, resolved together. */
+  readonly salvo: boolean;
+}
+
+/**
+ * One side's water: its grid, the fleet hidden in it, every shot taken at it
+ * and whatever the opponent's scans have learned about it.
+ */
+export interface Ocean {
+  readonly board: Board;
+  readonly ships: readonly Ship[];
+  readonly shots: readonly Shot[];
+  readonly intel: readonly Intel[];
+  /** Set by Stealth: hits during the opponent's next turn are reported as misses. */
+  readonly stealthed: boolean;
+}
+
+export interface GameState {
+  readonly rules: RulePreset;
+  readonly player: Ocean;
+  readonly enemy: Ocean;
+  readonly turn: Side;
+  /** Turns each side has finished; endTurn counts them. */
+  readonly turnsTaken: Readonly<Record<Side, number>>;
+  readonly gameOver: boolean;
+  readonly winner: Side | null;
+}
+
+export interface PlacementPreview {
+  readonly cells: readonly Coordinate[];
+  readonly valid: boolean;
+  readonly reason: string | null;
+}
+
+export type AttackOutcome = "hit" | "miss" | "sunk";
+
+export interface Shot {
+  readonly target: Coordinate;
+  readonly outcome: AttackOutcome;
+  /** Cells of the ship this shot sank; sinking a ship reveals all of it. */
+  readonly sunkCells?: readonly Coordinate[];
+  /** A hit the attacker is shown as a miss while the defender's Stealth lasts. */
+  readonly masked?: boolean;
+}
+
+export type Intel =
+  | {
+      readonly kind: "radar";
+      readonly center: Coordinate;
+      readonly sightings: readonly { readonly cell: Coordinate; readonly occupied: boolean }[];
+    }
+  | {
+      readonly kind: "sonar";
+      readonly center: Coordinate;
+      readonly radius: number;
+      /** Ships afloat with at least one cell inside the radius. */
+      readonly contacts: number;
+    };
+
+/** What the opposing side knows about a cell. */
+export type ViewCell = "unknown" | "hit" | "miss" | "sunk" | "spotted" | "clear";
+
+export type BoardView = readonly (readonly ViewCell[])[];
+
+export interface ShotTally {
+  readonly shots: number;
+  readonly hits: number;
+  readonly misses: number;
+  readonly sunk: number;
+}
+
+/** One side's fighting in a game: its fire at the enemy and what it spent. */
+export interface CombatStats extends ShotTally {
+  readonly abilitiesUsed: number;
+  /** Turns the side took, so turns to victory for the winner. */
+  readonly turns: number;
+}
+
+export interface AttackResult {
+  readonly attacker: Side;
+  readonly target: Coordinate;
+  readonly outcome: AttackOutcome;
+  readonly ship: Ship | null;
+  readonly masked: boolean;
+}
+
+export interface AbilityResult {
+  readonly ability: AbilityName;
+  readonly shipId: string;
+  readonly shots: readonly AttackResult[];
+  readonly intel: Intel | null;
+}
+
+/**
+ * One entry of a game's event log. `side` is whoever acted: the owner of a
+ * placed ship, the attacker of a shot or its result, the user of an ability,
+ * or for a turn change the side now to move.
+ */
+export type GameEvent =
+  | {
+      readonly kind: "placement";
+      readonly side: Side;
+      readonly shipId: string;
+      readonly shipType: ShipTypeKey;
+      /** Empty when the ship was taken back off the board. */
+      readonly positions: readonly Coordinate[];
+    }
+  | { readonly kind: "shot"; readonly side: Side; readonly target: Coordinate }
+  | {
+      readonly kind: "result";
+      readonly side: Side;
+      readonly target: Coordinate;
+      readonly outcome: AttackOutcome;
+      readonly masked?: boolean;
+      readonly sunkCells?: readonly Coordinate[];
+    }
+  | { readonly kind: "ability"; readonly side: Side; readonly shipId: string; readonly ability: AbilityName }
+  | { readonly kind: "turn"; readonly side: Side };
+
+/** Both boards as they stood after some prefix of a game's event log. */
+export interface ReplayFrame {
+  readonly player: Board;
+  readonly enemy: Board;
+  /** Side to move; null before the first turn change. */
+  readonly turn: Side | null;
+  /** The event this frame ends on; null at the start. */
+  readonly event: GameEvent | null;
+}
@@ -0,0 +1,449 @@
+// gameClient.ts
+// Typed client for BattleshipPlusFHE matches. Every call names its game id,
+// so one client can drive several matches on the same deployment at once.
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { GAME_CONTRACT_ADDRESS, getGameContract, STAKE_TOKENS } from "./contract";
+import {
+  DecryptionSession,
+  decryptShipHealth,
+  decryptShotOutcomes,
+  decryptShotTargets,
+  encryptFleet,
+  encryptMove,
+  encryptSalvo,
+  getFheInstance,
+  SHIP_TYPE_IDS,
+  SHOT_OUTCOMES
+} from "./fhe";
+import { AttackOutcome, Coordinate, Ship, ShipTypeKey } from "./game/types";
+import type { BattleshipPlusFHE } from "./typechain";
+import type { TypedContractEvent, TypedEventLog } from "./typechain/common";
+
+/** Mirrors `BattleshipPlusFHE.GameStatus`, in the same order. */
+export const MATCH_STATUSES = ["none", "waiting", "placing", "active", "finished"] as const;
+
+export type MatchStatus = (typeof MATCH_STATUSES)[number];
+
+/** Mirrors `BattleshipPlusFHE.FleetStatus`: a rejected fleet goes back to "none". */
+export const FLEET_STATUSES = ["none", "pending", "accepted"] as const;
+
+export type FleetStatus = (typeof FLEET_STATUSES)[number];
+
+export interface MatchInfo {
+  readonly id: bigint;
+  /** Creator first; the second seat is the zero address until someone joins. */
+  readonly players: readonly [string, string];
+  readonly boardSize: number;
+  readonly fleetSize: number;
+  /** The fleet every player must place, in `SHIP_TYPE_IDS` order. */
+  readonly fleet: readonly ShipTypeKey[];
+  readonly salvo: boolean;
+  readonly status: MatchStatus;
+  /** Seat (0 or 1) of the player to move. */
+  readonly turn: number;
+  /** Unix seconds after which the waiting side may claim victory; 0 outside placing and play. */
+  readonly turnDeadline: number;
+  readonly batchId: bigint;
+  readonly batchOpen: boolean;
+  /** Null for a finished draw or cancelled match as well as one still being played. */
+  readonly winner: string | null;
+  /** What each player put up, or null for a friendly match. */
+  readonly stake: MatchStake | null;
+}
+
+/** A wager in base units; `token` is the zero address for ETH. */
+export interface MatchStake {
+  readonly token: string;
+  readonly amount: bigint;
+}
+
+/**
+ * Stake leaving escrow at the end of a match: the whole pot to the winner,
+ * or each stake back to its player. A deferred payout was rejected by the
+ * recipient and waits for them in `withdrawPayout`.
+ */
+export interface StakePayout {
+  readonly recipient: string;
+  readonly token: string;
+  readonly amount: bigint;
+  readonly transactionHash: string;
+  readonly deferred: boolean;
+}
+
+export interface MatchRules {
+  readonly boardSize: number;
+  readonly fleet: readonly ShipTypeKey[];
+  readonly salvo: boolean;
+}
+
+/**
+ * Whose move a match is waiting on, from one player's seat: their own
+ * ("self"), the opponent's ("opponent"), or nobody's once it is over or
+ * while both fleets are still in the placement check.
+ */
+export interface TurnClock {
+  readonly deadline: number;
+  readonly waitingOn: "self" | "opponent" | null;
+}
+
+/** A move as revealed to everyone by the batch decryption callback. */
+export interface ResolvedMove {
+  readonly player: string;
+  readonly batchId: bigint;
+  readonly moveIndex: bigint;
+  readonly target: Coordinate;
+  readonly outcome: AttackOutcome;
+}
+
+/** A player's revealed fire so far, as tallied by the contract. */
+export interface MatchTally {
+  readonly shots: number;
+  readonly hits: number;
+  readonly sunk: number;
+}
+
+/** The contract's hash over a match's revealed moves; game records are signed over it. */
+export interface MoveLog {
+  readonly hash: string;
+  readonly moves: number;
+  /** Unix seconds the match finished and the log stopped taking moves; 0 before. */
+  readonly sealedAt: number;
+}
+
+/** Where a shot sits on chain, with the handle of its encrypted outcome. */
+export interface ShotReceipt {
+  readonly batchId: bigint;
+  readonly moveIndex: bigint;
+  readonly outcome: string;
+}
+
+export type MatchEventName =
+  | "GameJoined"
+  | "GameStarted"
+  | "ShipSubmitted"
+  | "FleetChecked"
+  | "MoveSubmitted"
+  | "SalvoSubmitted"
+  | "BatchOpened"
+  | "BatchClosed"
+  | "DecryptionRequested"
+  | "DecryptionCompleted"
+  | "MoveResolved"
+  | "GameFinished"
+  | "TimeoutClaimed"
+  | "StakePaid"
+  | "PayoutDeferred";
+
+type MatchEvent<N extends MatchEventName> = BattleshipPlusFHE["filters"][N];
+
+/** Arguments of a match event as decoded from its log, by name and by position. */
+export type MatchEventArgs<N extends MatchEventName> = TypedEventLog<MatchEvent<N>>["args"];
+
+const SHIP_TYPES_BY_ID = (Object.keys(SHIP_TYPE_IDS) as ShipTypeKey[]).sort((a, b) => SHIP_TYPE_IDS[a] - SHIP_TYPE_IDS[b]);
+
+// What stakes need of an ERC-20; the game contract only ever moves allow-listed ones
+const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)"
+];
+
+// Ships of each type id, the shape of createGame's fleetCounts
+type FleetCounts = [number, number, number, number, number];
+
+const toMatchInfo = (id: bigint, raw: BattleshipPlusFHE.GameStructOutput): MatchInfo => ({
+  id,
+  players: [raw.players[0], raw.players[1]],
+  boardSize: Number(raw.boardSize),
+  fleetSize: Number(raw.fleetSize),
+  fleet: SHIP_TYPES_BY_ID.flatMap((type, typeId) => Array<ShipTypeKey>(Number(raw.fleetCounts[typeId])).fill(type)),
+  salvo: raw.salvo,
+  status: MATCH_STATUSES[Number(raw.status)],
+  turn: Number(raw.turn),
+  turnDeadline: Number(raw.turnDeadline),
+  batchId: raw.batchId,
+  batchOpen: raw.batchOpen,
+  winner: raw.winner === ethers.ZeroAddress ? null : raw.winner,
+  stake: raw.stake > 0n ? { token: raw.stakeToken, amount: raw.stake } : null
+});
+
+export class BattleshipClient {
+  readonly contract: BattleshipPlusFHE;
+  private readonly fhe: FhevmInstance;
+  private readonly signer: ethers.Signer;
+
+  constructor(address: string, signer: ethers.Signer, fhe: FhevmInstance) {
+    this.contract = getGameContract(signer, address);
+    this.signer = signer;
+    this.fhe = fhe;
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  private async send(pending: Promise<ethers.ContractTransactionResponse>): Promise<ethers.TransactionReceipt> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+    return receipt;
+  }
+
+  // Every shot of a move or salvo, in firing order
+  private shotReceipts(receipt: ethers.TransactionReceipt): ShotReceipt[] {
+    return receipt.logs.flatMap(log => {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name !== "MoveSubmitted") return [];
+      return [{ batchId: parsed.args.batchId, moveIndex: parsed.args.moveIndex, outcome: parsed.args.outcome }];
+    });
+  }
+
+  async getGame(gameId: bigint): Promise<MatchInfo> {
+    return toMatchInfo(gameId, await this.contract.getGame(gameId));
+  }
+
+  /** How much of `token` (the zero address for ETH) the caller holds. */
+  async stakeBalance(token: string): Promise<bigint> {
+    const user = await this.signer.getAddress();
+    if (token === ethers.ZeroAddress) return (await this.signer.provider?.getBalance(user)) ?? 0n;
+    return new ethers.Contract(token, ERC20_ABI, this.signer).balanceOf(user);
+  }
+
+  /** A stake as it reads to people, e.g. "0.05 ETH". */
+  async describeStake(stake: MatchStake): Promise<string> {
+    if (stake.token === ethers.ZeroAddress) return `${ethers.formatEther(stake.amount)} ETH`;
+    const known = STAKE_TOKENS.find(token => token.address.toLowerCase() === stake.token.toLowerCase());
+    if (known) return `${ethers.formatUnits(stake.amount, known.decimals)} ${known.symbol}`;
+    const token = new ethers.Contract(stake.token, ERC20_ABI, this.signer);
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return `${ethers.formatUnits(stake.amount, decimals)} ${symbol}`;
+  }
+
+  // Checks the caller can cover `stake` and returns what the deposit needs
+  // sent along: the ETH itself, or nothing once the token is approved
+  private async prepareStake(stake: MatchStake | null): Promise<{ value: bigint }> {
+    if (!stake) return { value: 0n };
+    const balance = await this.stakeBalance(stake.token);
+    if (balance < stake.amount) {
+      throw new Error(`Insufficient balance for a stake of ${await this.describeStake(stake)}`);
+    }
+    if (stake.token === ethers.ZeroAddress) return { value: stake.amount };
+
+    const token = new ethers.Contract(stake.token, ERC20_ABI, this.signer);
+    const allowance: bigint = await token.allowance(await this.signer.getAddress(), this.address);
+    if (allowance < stake.amount) await this.send(token.approve(this.address, stake.amount));
+    return { value: 0n };
+  }
+
+  /**
+   * Opens a match and returns its id; the caller takes the first seat. With
+   * a stake, it is deposited now and the joiner has to match it.
+   */
+  async createGame(rules: MatchRules, stake: MatchStake | null = null): Promise<bigint> {
+    const fleetCounts = SHIP_TYPES_BY_ID.map(type => rules.fleet.filter(t => t === type).length) as FleetCounts;
+    const overrides = await this.prepareStake(stake);
+    const receipt = await this.send(this.contract.createGame(
+      rules.boardSize,
+      fleetCounts,
+      rules.salvo,
+      stake?.token ?? ethers.ZeroAddress,
+      stake?.amount ?? 0n,
+      overrides
+    ));
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "GameCreated") return parsed.args.gameId;
+    }
+    throw new Error("createGame did not emit GameCreated");
+  }
+
+  /** Takes the second seat, matching the creator's stake if there is one. */
+  async joinGame(gameId: bigint): Promise<void> {
+    const { stake } = await this.getGame(gameId);
+    await this.send(this.contract.joinGame(gameId, await this.prepareStake(stake)));
+  }
+
+  /** Calls off a match nobody has joined yet, refunding the creator's stake. */
+  async cancelGame(gameId: bigint): Promise<void> {
+    await this.send(this.contract.cancelGame(gameId));
+  }
+
+  async fleetStatus(gameId: bigint, player: string): Promise<FleetStatus> {
+    return FLEET_STATUSES[Number(await this.contract.fleetStatus(gameId, player))];
+  }
+
+  /**
+   * Submits the caller's placed fleet in one transaction. The contract checks
+   * it encrypted and settles with FleetChecked once the oracle has decrypted
+   * the verdict; only whether the fleet is legal is ever revealed.
+   */
+  async submitFleet(gameId: bigint, ships: readonly Ship[]): Promise<void> {
+    if (ships.some(ship => ship.positions.length === 0)) throw new Error("Every ship must be placed first");
+    const user = await this.signer.getAddress();
+    const input = await encryptFleet(
+      this.fhe,
+      this.address,
+      user,
+      ships.map(ship => ({ type: ship.type, origin: ship.positions[0], orientation: ship.orientation, length: ship.size }))
+    );
+    await this.send(this.contract.submitFleet(gameId, input.ships, input.inputProof));
+  }
+
+  /** Fires one shot; the contract resolves it against the hidden fleet. */
+  async submitMove(gameId: bigint, target: Coordinate): Promise<ShotReceipt> {
+    const user = await this.signer.getAddress();
+    const input = await encryptMove(this.fhe, this.address, user, target);
+    const [shot] = this.shotReceipts(await this.send(this.contract.submitMove(gameId, input.targetX, input.targetY, input.inputProof)));
+    return shot;
+  }
+
+  async submitSalvo(gameId: bigint, targets: readonly Coordinate[]): Promise<ShotReceipt[]> {
+    const user = await this.signer.getAddress();
+    const input = await encryptSalvo(this.fhe, this.address, user, targets);
+    return this.shotReceipts(await this.send(this.contract.submitSalvo(gameId, input.targetXs, input.targetYs, input.inputProof)));
+  }
+
+  /** The shots a move or salvo transaction fired, e.g. one of the opponent's. */
+  async getShots(transactionHash: string): Promise<ShotReceipt[]> {
+    const receipt = await this.signer.provider?.getTransactionReceipt(transactionHash);
+    if (!receipt) throw new Error(`No receipt for ${transactionHash}`);
+    return this.shotReceipts(receipt);
+  }
+
+  /** Outcomes of the caller's own shots; nobody else may decrypt them. */
+  async readShotOutcomes(session: DecryptionSession, shots: readonly ShotReceipt[]): Promise<AttackOutcome[]> {
+    return decryptShotOutcomes(this.fhe, session, this.address, shots.map(shot => shot.outcome));
+  }
+
+  /** The caller's ship health as the contract counts it, in the order the fleet was submitted. */
+  async readShipHealth(session: DecryptionSession, gameId: bigint, shipCount: number): Promise<number[]> {
+    const user = await this.signer.getAddress();
+    // The Ship struct has a `length` field, which its generated tuple type can't
+    // carry, so the getter is read as a plain Result
+    const gameShips = this.contract.getFunction("gameShips");
+    const ships: ethers.Result[] = await Promise.all(Array.from({ length: shipCount }, (_, i) => gameShips.staticCall(gameId, user, i)));
+    return decryptShipHealth(this.fhe, session, this.address, ships.map(ship => String(ship.getValue("health"))));
+  }
+
+  /** Where the opponent fired at the caller, for moves logged in `batchId`. */
+  async readIncomingShots(session: DecryptionSession, batchId: bigint, moveIndexes: readonly bigint[]): Promise<Coordinate[]> {
+    const moves = await Promise.all(moveIndexes.map(index => this.contract.batchMoves(batchId, index)));
+    return decryptShotTargets(this.fhe, session, this.address, moves.map(move => [move.targetX, move.targetY] as const));
+  }
+
+  /** Asks the oracle to reveal the game's pending moves; they come back as MoveResolved. */
+  async requestBatchDecryption(gameId: bigint): Promise<void> {
+    await this.send(this.contract.requestBatchDecryption(gameId));
+  }
+
+  /** Mirrors the checks `claimTimeoutVictory` makes, short of the deadline itself. */
+  async getTurnClock(gameId: bigint, player: string): Promise<TurnClock> {
+    const info = await this.getGame(gameId);
+    const seat = info.players.findIndex(p => p.toLowerCase() === player.toLowerCase());
+    if (seat < 0) return { deadline: info.turnDeadline, waitingOn: null };
+    if (info.status === "active") {
+      // The clock stands still while a provider has move intake closed
+      if (!info.batchOpen) return { deadline: 0, waitingOn: null };
+      return { deadline: info.turnDeadline, waitingOn: info.turn === seat ? "self" : "opponent" };
+    }
+    if (info.status !== "placing") return { deadline: 0, waitingOn: null };
+    const [mine, theirs] = await Promise.all([
+      this.fleetStatus(gameId, info.players[seat]),
+      this.fleetStatus(gameId, info.players[1 - seat])
+    ]);
+    if (mine === "accepted" && theirs !== "accepted") return { deadline: info.turnDeadline, waitingOn: "opponent" };
+    if (theirs === "accepted" && mine !== "accepted") return { deadline: info.turnDeadline, waitingOn: "self" };
+    return { deadline: info.turnDeadline, waitingOn: null };
+  }
+
+  /** Wins a match whose opponent let the turn or placement deadline pass. */
+  async claimTimeoutVictory(gameId: bigint): Promise<void> {
+    await this.send(this.contract.claimTimeoutVictory(gameId));
+  }
+
+  /** Draws a match whose placement deadline passed with neither fleet accepted; both stakes are refunded. */
+  async abandonGame(gameId: bigint): Promise<void> {
+    await this.send(this.contract.abandonGame(gameId));
+  }
+
+  /** Where the stakes of a finished match went. */
+  async getPayouts(gameId: bigint, fromBlock: number = 0): Promise<StakePayout[]> {
+    const [paid, held] = await Promise.all([
+      this.contract.queryFilter(this.contract.filters.StakePaid(gameId), fromBlock),
+      this.contract.queryFilter(this.contract.filters.PayoutDeferred(gameId), fromBlock)
+    ]);
+    const toPayout = (event: (typeof paid)[number] | (typeof held)[number], deferred: boolean): StakePayout => ({
+      recipient: event.args.recipient,
+      token: event.args.token,
+      amount: event.args.amount,
+      transactionHash: event.transactionHash,
+      deferred
+    });
+    return [...paid.map(event => toPayout(event, false)), ...held.map(event => toPayout(event, true))];
+  }
+
+  async getTally(gameId: bigint, player: string): Promise<MatchTally> {
+    const tally = await this.contract.tallies(gameId, player);
+    return { shots: Number(tally.shots), hits: Number(tally.hits), sunk: Number(tally.sunk) };
+  }
+
+  async getMoveLog(gameId: bigint): Promise<MoveLog> {
+    const log = await this.contract.moveLogs(gameId);
+    return { hash: log.hash, moves: Number(log.moves), sealedAt: Number(log.sealedAt) };
+  }
+
+  /** Matches `player` created or joined, newest first. */
+  async findGames(player: string, fromBlock: number = 0): Promise<MatchInfo[]> {
+    const [created, joined] = await Promise.all([
+      this.contract.queryFilter(this.contract.filters.GameCreated(undefined, player), fromBlock),
+      this.contract.queryFilter(this.contract.filters.GameJoined(undefined, player), fromBlock)
+    ]);
+    const ids = new Set([...created, ...joined].map(event => event.args.gameId));
+    const games = await Promise.all([...ids].map(id => this.getGame(id)));
+    return games.sort((a, b) => (a.id < b.id ? 1 : -1));
+  }
+
+  /**
+   * Calls `handler` for every `name` event of `gameId` until the returned
+   * function is called.
+   */
+  onGameEvent<N extends MatchEventName>(
+    gameId: bigint,
+    name: N,
+    handler: (args: MatchEventArgs<N>, event: TypedEventLog<MatchEvent<N>>) => void
+  ): () => void {
+    // The decryption events index their request id ahead of the game's
+    const event: TypedContractEvent = this.contract.filters[name];
+    const filter = name === "DecryptionRequested" || name === "DecryptionCompleted" ? event(undefined, gameId) : event(gameId);
+    const listener = (...args: unknown[]) => {
+      // ethers passes the decoded args, then a payload wrapping the log
+      const log = (args[args.length - 1] as ethers.ContractEventPayload).log as unknown as TypedEventLog<MatchEvent<N>>;
+      handler(log.args, log);
+    };
+    this.contract.on(filter, listener);
+    return () => { this.contract.off(filter, listener); };
+  }
+
+  /** Typed `MoveResolved` subscription, e.g. to update both boards of a match as it plays out. */
+  onMoveResolved(gameId: bigint, handler: (move: ResolvedMove) => void): () => void {
+    return this.onGameEvent(gameId, "MoveResolved", args => handler({
+      player: args.player,
+      batchId: args.batchId,
+      moveIndex: args.moveIndex,
+      target: { x: Number(args.targetX), y: Number(args.targetY) },
+      outcome: SHOT_OUTCOMES[Number(args.outcome)]
+    }));
+  }
+}
+
+/** A client for the configured deployment, signing with the injected wallet. */
+export async function getGameClient(): Promise<BattleshipClient> {
+  if (!window.ethereum) throw new Error("No injected wallet");
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const [signer, network] = await Promise.all([provider.getSigner(), provider.getNetwork()]);
+  const fhe = await getFheInstance(Number(network.chainId));
+  return new BattleshipClient(GAME_CONTRACT_ADDRESS, signer, fhe);
+}
@@ -0,0 +1,275 @@
+// indexer.ts
+// Client-side event index for the game and record contracts. Logs are
+// read from a per-contract block cursor into IndexedDB, so history survives
+// reloads and each sync only fetches the blocks added since the last one.
+// The same database keeps the event logs of games played on this device,
+// which only their players have.
+import { ethers } from "ethers";
+import { ABI, config, DEPLOY_BLOCKS, GAME_CONTRACT_ADDRESS, RECORDS_CONTRACT_ADDRESS } from "./contract";
+import type { GameLog } from "./game/log";
+import { BattleshipPlusFHE__factory, GameRecords__factory } from "./typechain";
+
+const DB_VERSION = 3;
+const EVENTS = "events";
+const CURSORS = "cursors";
+const GAME_LOGS = "gameLogs";
+
+// Blocks per getLogs call, within what public RPC endpoints accept
+const LOG_CHUNK = 5_000;
+
+/** A decoded log, keyed by where it sits on chain. */
+export interface IndexedEvent {
+  /** `transactionHash:logIndex`, unique per chain. */
+  readonly id: string;
+  /** Emitting contract, lowercase. */
+  readonly contract: string;
+  readonly name: string;
+  readonly block: number;
+  readonly logIndex: number;
+  readonly transactionHash: string;
+  // Lookup keys, as decimal strings since IndexedDB can't index bigints
+  readonly gameId?: string;
+  readonly batchId?: string;
+  /** Storage key of a DataStored event. */
+  readonly key?: string;
+  /** Position of a RecordAppended event in the record log. */
+  readonly recordIndex?: number;
+  readonly args: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * A contract to index, from `fromBlock` on. Without one, indexing starts at
+ * the block the contract was deployed in, looked up on chain.
+ */
+export interface IndexedContract {
+  readonly address: string;
+  readonly abi: ethers.InterfaceAbi;
+  readonly fromBlock?: number;
+}
+
+interface Cursor {
+  readonly contract: string;
+  /** First block not yet indexed. */
+  readonly nextBlock: number;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const committed = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const byChainOrder = (a: IndexedEvent, b: IndexedEvent) => a.block - b.block || a.logIndex - b.logIndex;
+
+function openDatabase(chainId: bigint): Promise<IDBDatabase> {
+  const req = indexedDB.open(`battleship-events-${chainId}`, DB_VERSION);
+  req.onupgradeneeded = event => {
+    const db = req.result;
+    if (event.oldVersion < 1) {
+      const events = db.createObjectStore(EVENTS, { keyPath: "id" });
+      events.createIndex("gameId", "gameId");
+      events.createIndex("batchId", "batchId");
+      events.createIndex("key", "key");
+      db.createObjectStore(CURSORS, { keyPath: "contract" });
+    }
+    if (event.oldVersion < 2) {
+      req.transaction!.objectStore(EVENTS).createIndex("recordIndex", "recordIndex");
+    }
+    if (event.oldVersion < 3) {
+      db.createObjectStore(GAME_LOGS, { keyPath: "id" });
+    }
+  };
+  return request(req);
+}
+
+function decode(contract: string, iface: ethers.Interface, log: ethers.Log): IndexedEvent | null {
+  const parsed = iface.parseLog(log);
+  if (!parsed) return null;
+  const args = parsed.args.toObject();
+  const asKey = (value: unknown) => (value === undefined ? undefined : String(value));
+  return {
+    id: `${log.transactionHash}:${log.index}`,
+    contract,
+    name: parsed.name,
+    block: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    gameId: asKey(args.gameId),
+    batchId: asKey(args.batchId),
+    key: parsed.name === "DataStored" ? args.key : undefined,
+    recordIndex: parsed.name === "RecordAppended" ? Number(args.index) : undefined,
+    args
+  };
+}
+
+export class EventIndexer {
+  private readonly db: IDBDatabase;
+  readonly provider: ethers.Provider;
+  private readonly contracts: readonly (IndexedContract & { readonly iface: ethers.Interface })[];
+  private syncing: Promise<number> | null = null;
+
+  constructor(db: IDBDatabase, provider: ethers.Provider, contracts: readonly IndexedContract[]) {
+    this.db = db;
+    this.provider = provider;
+    this.contracts = contracts.map(contract => ({
+      ...contract,
+      address: contract.address.toLowerCase(),
+      iface: ethers.Interface.from(contract.abi)
+    }));
+  }
+
+  /**
+   * Indexes every block since the cursors up to the chain head and returns
+   * how many events it stored. Overlapping calls share a single pass.
+   */
+  sync(): Promise<number> {
+    this.syncing ??= this.syncAll().finally(() => { this.syncing = null; });
+    return this.syncing;
+  }
+
+  private async syncAll(): Promise<number> {
+    const head = await this.provider.getBlockNumber();
+    let stored = 0;
+    for (const contract of this.contracts) {
+      const cursor = await request<Cursor | undefined>(this.db.transaction(CURSORS).objectStore(CURSORS).get(contract.address));
+      const start = cursor?.nextBlock ?? contract.fromBlock ?? await this.deploymentBlock(contract.address, head);
+      for (let from = start; from <= head; from += LOG_CHUNK) {
+        const to = Math.min(from + LOG_CHUNK - 1, head);
+        const logs = await this.provider.getLogs({ address: contract.address, fromBlock: from, toBlock: to });
+        const events = logs.flatMap(log => decode(contract.address, contract.iface, log) ?? []);
+
+        // Events and cursor move together, so an interrupted sync resumes
+        // from the last chunk it fully stored
+        const tx = this.db.transaction([EVENTS, CURSORS], "readwrite");
+        events.forEach(event => tx.objectStore(EVENTS).put(event));
+        tx.objectStore(CURSORS).put({ contract: contract.address, nextBlock: to + 1 } satisfies Cursor);
+        await committed(tx);
+        stored += events.length;
+      }
+    }
+    return stored;
+  }
+
+  // The first block with code at `address`, by bisection, so a contract
+  // without a configured start block isn't read from genesis; past `head`
+  // when it isn't deployed yet
+  private async deploymentBlock(address: string, head: number): Promise<number> {
+    const deployed = async (block: number) => (await this.provider.getCode(address, block)) !== "0x";
+    if (!(await deployed(head))) return head + 1;
+    let low = 0;
+    let high = head;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (await deployed(middle)) high = middle;
+      else low = middle + 1;
+    }
+    return low;
+  }
+
+  /**
+   * Syncs on every new block until the returned function is called;
+   * `onUpdate` runs after each sync that stored new events.
+   */
+  watch(onUpdate: () => void): () => void {
+    const listener = () => {
+      this.sync()
+        .then(stored => { if (stored > 0) onUpdate(); })
+        .catch(e => console.error("Event index sync failed:", e));
+    };
+    this.provider.on("block", listener);
+    return () => { this.provider.off("block", listener); };
+  }
+
+  private async eventsBy(index: "gameId" | "batchId" | "key", value: string): Promise<IndexedEvent[]> {
+    const store = this.db.transaction(EVENTS).objectStore(EVENTS);
+    const events = await request<IndexedEvent[]>(store.index(index).getAll(value));
+    return events.sort(byChainOrder);
+  }
+
+  /** A match's history as indexed so far, oldest first. */
+  gameEvents(gameId: bigint): Promise<IndexedEvent[]> {
+    return this.eventsBy("gameId", gameId.toString());
+  }
+
+  /** Everything logged about one move batch: its moves, reveal and resolution. */
+  batchEvents(batchId: bigint): Promise<IndexedEvent[]> {
+    return this.eventsBy("batchId", batchId.toString());
+  }
+
+  /**
+   * Up to `limit` appended game records below index `before` (from the
+   * newest when null), newest first.
+   */
+  async records(before: number | null, limit: number): Promise<IndexedEvent[]> {
+    const store = this.db.transaction(EVENTS).objectStore(EVENTS);
+    const range = before === null ? null : IDBKeyRange.upperBound(before, true);
+    const cursor = store.index("recordIndex").openCursor(range, "prev");
+    return new Promise((resolve, reject) => {
+      const page: IndexedEvent[] = [];
+      cursor.onerror = () => reject(cursor.error);
+      cursor.onsuccess = () => {
+        const current = cursor.result;
+        if (!current || page.length === limit) return resolve(page);
+        page.push(current.value);
+        current.continue();
+      };
+    });
+  }
+
+  /** Every game record appended above index `after` (all of them when null), newest first. */
+  async recordsAfter(after: number | null): Promise<IndexedEvent[]> {
+    const store = this.db.transaction(EVENTS).objectStore(EVENTS);
+    const range = after === null ? null : IDBKeyRange.lowerBound(after, true);
+    const events = await request<IndexedEvent[]>(store.index("recordIndex").getAll(range));
+    return events.reverse();
+  }
+
+  /** The last value written under `key` to the adapter storage, as UTF-8 text. */
+  async storedText(key: string): Promise<string | null> {
+    const writes = await this.eventsBy("key", key);
+    const latest = writes[writes.length - 1];
+    return latest ? ethers.toUtf8String(latest.args.value as string) : null;
+  }
+
+  async saveGameLog(log: GameLog): Promise<void> {
+    const tx = this.db.transaction(GAME_LOGS, "readwrite");
+    tx.objectStore(GAME_LOGS).put(log);
+    await committed(tx);
+  }
+
+  /** The event log of the game filed under record `id`, if it was played here. */
+  async gameLog(id: string): Promise<GameLog | null> {
+    const log = await request<GameLog | undefined>(this.db.transaction(GAME_LOGS).objectStore(GAME_LOGS).get(id));
+    return log ?? null;
+  }
+}
+
+/**
+ * Contracts the app reads history from: the adapter storage, which holds
+ * records written before the record log, and the game and record log once
+ * deployed.
+ */
+export function indexedContracts(): IndexedContract[] {
+  const contracts: IndexedContract[] = [{ address: config.contractAddress, abi: ABI, fromBlock: DEPLOY_BLOCKS.adapter }];
+  if (GAME_CONTRACT_ADDRESS !== ethers.ZeroAddress) {
+    contracts.push({ address: GAME_CONTRACT_ADDRESS, abi: BattleshipPlusFHE__factory.abi, fromBlock: DEPLOY_BLOCKS.game });
+  }
+  if (RECORDS_CONTRACT_ADDRESS !== ethers.ZeroAddress) {
+    contracts.push({ address: RECORDS_CONTRACT_ADDRESS, abi: GameRecords__factory.abi, fromBlock: DEPLOY_BLOCKS.records });
+  }
+  return contracts;
+}
+
+/** Opens the index of `provider`'s chain; each chain keeps its own database. */
+export async function openEventIndexer(
+  provider: ethers.Provider,
+  contracts: readonly IndexedContract[] = indexedContracts()
+): Promise<EventIndexer> {
+  const { chainId } = await provider.getNetwork();
+  return new EventIndexer(await openDatabase(chainId), provider, contracts);
+}
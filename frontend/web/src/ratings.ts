@@ -0,0 +1,153 @@
+// ratings.ts
+// Glicko-2 ratings (Glickman, "Example of the Glicko-2 system") replayed
+// from the verified game records. Every game is its own rating period, so
+// ratings move after each result rather than in batches.
+
+/** A decided game between two players, as the verified records tell it. */
+export interface RatedGame {
+  readonly players: readonly [string, string];
+  readonly winner: string;
+  /** Unix seconds; games are replayed in this order. */
+  readonly timestamp: number;
+}
+
+export interface RatingPoint {
+  readonly timestamp: number;
+  readonly rating: number;
+  readonly deviation: number;
+}
+
+export interface PlayerRating {
+  readonly player: string;
+  readonly rating: number;
+  /** Rating deviation: how far the rating may be off, on the rating scale. */
+  readonly deviation: number;
+  readonly volatility: number;
+  readonly games: number;
+  readonly wins: number;
+  readonly losses: number;
+  /** Too uncertain to rank against established ratings yet. */
+  readonly provisional: boolean;
+  /** The rating after each game, oldest first. */
+  readonly history: readonly RatingPoint[];
+}
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_DEVIATION = 350;
+const INITIAL_VOLATILITY = 0.06;
+/** Ratings with a wider deviation than this are provisional. */
+export const PROVISIONAL_DEVIATION = 110;
+
+// Constrains how fast volatility changes; Glickman suggests 0.3 to 1.2
+const TAU = 0.5;
+const CONVERGENCE = 0.000001;
+// Converts between the rating scale and the Glicko-2 scale
+const SCALE = 173.7178;
+
+interface Glicko {
+  mu: number;
+  phi: number;
+  sigma: number;
+}
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+const expectedScore = (mu: number, opponent: Glicko) => 1 / (1 + Math.exp(-g(opponent.phi) * (mu - opponent.mu)));
+
+// The player's new volatility after a period, by the Illinois algorithm (step 5)
+function nextVolatility({ phi, sigma }: Glicko, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) =>
+    (Math.exp(x) * (delta * delta - phi * phi - v - Math.exp(x))) / (2 * (phi * phi + v + Math.exp(x)) ** 2) -
+    (x - a) / (TAU * TAU);
+
+  let low = a;
+  let high: number;
+  if (delta * delta > phi * phi + v) {
+    high = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    high = a - k * TAU;
+  }
+
+  let fLow = f(low);
+  let fHigh = f(high);
+  while (Math.abs(high - low) > CONVERGENCE) {
+    const next = low + ((low - high) * fLow) / (fHigh - fLow);
+    const fNext = f(next);
+    if (fNext * fHigh <= 0) {
+      low = high;
+      fLow = fHigh;
+    } else {
+      fLow /= 2;
+    }
+    high = next;
+    fHigh = fNext;
+  }
+  return Math.exp(low / 2);
+}
+
+// The player's rating after one game scoring `score` (1 win, 0 loss) against `opponent`
+function rateGame(player: Glicko, opponent: Glicko, score: number): Glicko {
+  const e = expectedScore(player.mu, opponent);
+  const v = 1 / (g(opponent.phi) ** 2 * e * (1 - e));
+  const delta = v * g(opponent.phi) * (score - e);
+  const sigma = nextVolatility(player, v, delta);
+  const phi = 1 / Math.sqrt(1 / (player.phi * player.phi + sigma * sigma) + 1 / v);
+  return { mu: player.mu + phi * phi * g(opponent.phi) * (score - e), phi, sigma };
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Replays `games` oldest first; players come out highest rated first. */
+export function computeRatings(games: readonly RatedGame[]): PlayerRating[] {
+  const players = new Map<string, { address: string; glicko: Glicko; wins: number; losses: number; history: RatingPoint[] }>();
+  const entry = (address: string) => {
+    const key = address.toLowerCase();
+    let player = players.get(key);
+    if (!player) {
+      player = {
+        address,
+        glicko: { mu: 0, phi: INITIAL_DEVIATION / SCALE, sigma: INITIAL_VOLATILITY },
+        wins: 0,
+        losses: 0,
+        history: []
+      };
+      players.set(key, player);
+    }
+    return player;
+  };
+
+  const ordered = [...games].sort((a, b) => a.timestamp - b.timestamp);
+  for (const game of ordered) {
+    const [first, second] = game.players.map(entry);
+    const firstWon = sameAddress(game.winner, game.players[0]);
+    // Both sides are rated against the other's rating from before the game
+    const ratedFirst = rateGame(first.glicko, second.glicko, firstWon ? 1 : 0);
+    const ratedSecond = rateGame(second.glicko, first.glicko, firstWon ? 0 : 1);
+    for (const [player, glicko, won] of [[first, ratedFirst, firstWon], [second, ratedSecond, !firstWon]] as const) {
+      player.glicko = glicko;
+      if (won) player.wins++;
+      else player.losses++;
+      player.history.push({
+        timestamp: game.timestamp,
+        rating: INITIAL_RATING + glicko.mu * SCALE,
+        deviation: glicko.phi * SCALE
+      });
+    }
+  }
+
+  return [...players.values()]
+    .map(({ address, glicko, wins, losses, history }) => ({
+      player: address,
+      rating: INITIAL_RATING + glicko.mu * SCALE,
+      deviation: glicko.phi * SCALE,
+      volatility: glicko.sigma,
+      games: wins + losses,
+      wins,
+      losses,
+      provisional: glicko.phi * SCALE > PROVISIONAL_DEVIATION,
+      history
+    }))
+    .sort((a, b) => b.rating - a.rating);
+}
@@ -0,0 +1,158 @@
+// records.ts
+// Game records as EIP-712 typed data. Anyone can append to the record log,
+// so a record only counts for what its signatures back: both players
+// co-signing an online result, or the game contract's sealed move log
+// matching it. A game against the AI can only ever be signed by its player.
+// The details filed with a result aren't signed, so a copy only counts when
+// its signer appended it; anyone else could replay the signature with
+// details of their own.
+import { ethers } from "ethers";
+import { GAME_CONTRACT_ADDRESS, RECORDS_CONTRACT_ADDRESS } from "./contract";
+import type { EventIndexer } from "./indexer";
+
+/**
+ * The signed part of a record. Online, every field is read from the chain,
+ * so both players sign the very same struct.
+ */
+export interface GameResult {
+  /** Creator and joiner; the second seat is the zero address against the AI. */
+  readonly players: readonly [string, string];
+  /** The zero address when the AI won. */
+  readonly winner: string;
+  readonly moves: number;
+  readonly rulesPreset: string;
+  /** `moveLogs(matchId).hash` online; a hash of the move history against the AI. */
+  readonly moveLogHash: string;
+  /** 0 for games against the AI. */
+  readonly matchId: bigint;
+  /** Unix seconds; when the contract sealed the move log, online. */
+  readonly timestamp: number;
+}
+
+export const RECORD_TYPES: Record<string, ethers.TypedDataField[]> = {
+  GameRecord: [
+    { name: "players", type: "address[2]" },
+    { name: "winner", type: "address" },
+    { name: "moves", type: "uint32" },
+    { name: "rulesPreset", type: "string" },
+    { name: "moveLogHash", type: "bytes32" },
+    { name: "matchId", type: "uint256" },
+    { name: "timestamp", type: "uint64" }
+  ]
+};
+
+/** Records are signed for the record log they are filed in. */
+export function recordDomain(chainId: bigint): ethers.TypedDataDomain {
+  return { name: "BattleshipPlusFHE Records", version: "1", chainId, verifyingContract: RECORDS_CONTRACT_ADDRESS };
+}
+
+/** What one player files in the record log: their signed result and unsigned details. */
+export interface FiledRecord<D> {
+  readonly result: GameResult;
+  readonly signature: string;
+  readonly details: D;
+}
+
+/** A filed record as read back from the log, with the account that appended it. */
+export interface LoggedRecord<D> extends FiledRecord<D> {
+  readonly author: string;
+}
+
+/**
+ * How far a record can be trusted: "co-signed" by both players, "attested"
+ * by the game contract, "self-signed" against the AI, or "unverified" when
+ * only one player vouches for an online result the contract doesn't back.
+ */
+export type RecordVerification = "co-signed" | "attested" | "self-signed" | "unverified";
+
+export interface VerifiedRecord<D> {
+  /** EIP-712 digest of the result; the copies each player filed share it. */
+  readonly digest: string;
+  readonly result: GameResult;
+  readonly details: D;
+  readonly signers: readonly string[];
+  /** The details each signer filed with their copy, in `signers` order. */
+  readonly signedDetails: readonly D[];
+  readonly verification: RecordVerification;
+}
+
+const sameAddress = (a: unknown, b: string) => typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+
+export function signGameResult(signer: ethers.Signer, domain: ethers.TypedDataDomain, result: GameResult): Promise<string> {
+  return signer.signTypedData(domain, RECORD_TYPES, result);
+}
+
+/** The EIP-712 digest of `result`, which identifies a record across its copies. */
+export function resultDigest(domain: ethers.TypedDataDomain, result: GameResult): string {
+  return ethers.TypedDataEncoder.hash(domain, RECORD_TYPES, result);
+}
+
+export function encodeFiledRecord<D>(record: FiledRecord<D>): string {
+  return JSON.stringify({ ...record, result: { ...record.result, matchId: record.result.matchId.toString() } });
+}
+
+/** The filed record in `text`, or null for one written before records were signed. */
+export function decodeFiledRecord<D>(text: string): FiledRecord<D> | null {
+  const data = JSON.parse(text);
+  if (!data.result || typeof data.signature !== "string") return null;
+  return { result: { ...data.result, matchId: BigInt(data.result.matchId) }, signature: data.signature, details: data.details };
+}
+
+// The signer of a filed copy if it is one of the players, else null
+function recoverPlayer(domain: ethers.TypedDataDomain, record: FiledRecord<unknown>): string | null {
+  try {
+    const signer = ethers.verifyTypedData(domain, RECORD_TYPES, record.result, record.signature);
+    return record.result.players.find(player => sameAddress(signer, player)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether the indexed game events back every field the contract knows:
+// the seats, the winner and the sealed move log
+async function attestedByContract(result: GameResult, indexer: EventIndexer): Promise<boolean> {
+  const events = (await indexer.gameEvents(result.matchId)).filter(event => sameAddress(event.contract, GAME_CONTRACT_ADDRESS));
+  const args = (name: string) => events.find(event => event.name === name)?.args;
+  const sealed = args("MoveLogSealed");
+  return (
+    sealed !== undefined &&
+    sameAddress(args("GameCreated")?.creator, result.players[0]) &&
+    sameAddress(args("GameJoined")?.opponent, result.players[1]) &&
+    sameAddress(args("GameFinished")?.winner, result.winner) &&
+    sealed.moveLogHash === result.moveLogHash &&
+    Number(sealed.moves) === result.moves &&
+    Number(sealed.sealedAt) === result.timestamp
+  );
+}
+
+/**
+ * Merges the copies of each result, drops copies not signed by a player of
+ * the game or appended by anyone but their signer, and grades what is left.
+ * Results keep the order of their first copy; details come from the winner's
+ * copy when there is one.
+ */
+export async function verifyRecords<D>(
+  filed: readonly LoggedRecord<D>[],
+  domain: ethers.TypedDataDomain,
+  indexer: EventIndexer
+): Promise<VerifiedRecord<D>[]> {
+  const copies = new Map<string, { record: FiledRecord<D>; signer: string }[]>();
+  for (const record of filed) {
+    const signer = recoverPlayer(domain, record);
+    if (!signer || !sameAddress(record.author, signer)) continue;
+    const digest = resultDigest(domain, record.result);
+    copies.set(digest, [...(copies.get(digest) ?? []), { record, signer }]);
+  }
+
+  return Promise.all([...copies].map(async ([digest, signed]) => {
+    const { result } = signed[0].record;
+    const signers = [...new Set(signed.map(copy => copy.signer))];
+    let verification: RecordVerification;
+    if (result.players[1] === ethers.ZeroAddress) verification = "self-signed";
+    else if (signers.length === 2) verification = "co-signed";
+    else verification = (await attestedByContract(result, indexer)) ? "attested" : "unverified";
+    const details = (signed.find(copy => sameAddress(copy.signer, result.winner)) ?? signed[0]).record.details;
+    const signedDetails = signers.map(signer => signed.find(copy => copy.signer === signer)!.record.details);
+    return { digest, result, details, signers, signedDetails, verification };
+  }));
+}
@@ -0,0 +1,2244 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace BattleshipPlusFHE {
+  export type GameStruct = {
+    players: [AddressLike, AddressLike];
+    boardSize: BigNumberish;
+    fleetSize: BigNumberish;
+    fleetCounts: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ];
+    salvo: boolean;
+    status: BigNumberish;
+    turn: BigNumberish;
+    turnDeadline: BigNumberish;
+    deadlinePausedSeconds: BigNumberish;
+    turnTimeLeft: BigNumberish;
+    batchId: BigNumberish;
+    batchOpen: boolean;
+    winner: AddressLike;
+    stakeToken: AddressLike;
+    stake: BigNumberish;
+  };
+
+  export type GameStructOutput = [
+    players: [string, string],
+    boardSize: bigint,
+    fleetSize: bigint,
+    fleetCounts: [bigint, bigint, bigint, bigint, bigint],
+    salvo: boolean,
+    status: bigint,
+    turn: bigint,
+    turnDeadline: bigint,
+    deadlinePausedSeconds: bigint,
+    turnTimeLeft: bigint,
+    batchId: bigint,
+    batchOpen: boolean,
+    winner: string,
+    stakeToken: string,
+    stake: bigint
+  ] & {
+    players: [string, string];
+    boardSize: bigint;
+    fleetSize: bigint;
+    fleetCounts: [bigint, bigint, bigint, bigint, bigint];
+    salvo: boolean;
+    status: bigint;
+    turn: bigint;
+    turnDeadline: bigint;
+    deadlinePausedSeconds: bigint;
+    turnTimeLeft: bigint;
+    batchId: bigint;
+    batchOpen: boolean;
+    winner: string;
+    stakeToken: string;
+    stake: bigint;
+  };
+
+  export type ShipInputStruct = {
+    typeId: BytesLike;
+    x: BytesLike;
+    y: BytesLike;
+    orientation: BytesLike;
+    length: BytesLike;
+  };
+
+  export type ShipInputStructOutput = [
+    typeId: string,
+    x: string,
+    y: string,
+    orientation: string,
+    length: string
+  ] & {
+    typeId: string;
+    x: string;
+    y: string;
+    orientation: string;
+    length: string;
+  };
+}
+
+export interface BattleshipPlusFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_BOARD_SIZE"
+      | "MAX_FLEET_SIZE"
+      | "MAX_SALVO_SHOTS"
+      | "MIN_BOARD_SIZE"
+      | "OUTCOME_HIT"
+      | "OUTCOME_MISS"
+      | "OUTCOME_SUNK"
+      | "SHIP_TYPE_COUNT"
+      | "abandonGame"
+      | "addProvider"
+      | "batchGame"
+      | "batchMoves"
+      | "batchRequested"
+      | "batchResolved"
+      | "cancelGame"
+      | "claimTimeoutVictory"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "createGame"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "fleetCheckCallback"
+      | "fleetChecks"
+      | "fleetStatus"
+      | "gameCount"
+      | "gameShips"
+      | "getGame"
+      | "joinGame"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "moveLogs"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "pausedAt"
+      | "pausedSeconds"
+      | "pendingPayouts"
+      | "protocolId"
+      | "providers"
+      | "removeProvider"
+      | "requestBatchDecryption"
+      | "setCooldownSeconds"
+      | "setPaused"
+      | "setStakeToken"
+      | "setTurnTimeoutSeconds"
+      | "stakeTokens"
+      | "submitFleet"
+      | "submitMove"
+      | "submitSalvo"
+      | "tallies"
+      | "transferOwnership"
+      | "turnTimeoutSeconds"
+      | "withdrawPayout"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "FleetCheckRequested"
+      | "FleetChecked"
+      | "GameCreated"
+      | "GameFinished"
+      | "GameJoined"
+      | "GameStarted"
+      | "MoveLogSealed"
+      | "MoveResolved"
+      | "MoveSubmitted"
+      | "OwnershipTransferred"
+      | "PayoutDeferred"
+      | "PayoutWithdrawn"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "SalvoSubmitted"
+      | "ShipSubmitted"
+      | "StakeDeposited"
+      | "StakePaid"
+      | "StakeTokenSet"
+      | "TimeoutClaimed"
+      | "TurnTimeoutSecondsSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_BOARD_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FLEET_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SALVO_SHOTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_BOARD_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "OUTCOME_HIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "OUTCOME_MISS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "OUTCOME_SUNK",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SHIP_TYPE_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "abandonGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchMoves",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchRequested",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchResolved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimTimeoutVictory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createGame",
+    values: [
+      BigNumberish,
+      [BigNumberish, BigNumberish, BigNumberish, BigNumberish, BigNumberish],
+      boolean,
+      AddressLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fleetCheckCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fleetChecks",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fleetStatus",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "gameCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "gameShips",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "moveLogs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pausedAt", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pausedSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingPayouts",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setStakeToken",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTurnTimeoutSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "stakeTokens",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitFleet",
+    values: [BigNumberish, BattleshipPlusFHE.ShipInputStruct[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitMove",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitSalvo",
+    values: [BigNumberish, BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallies",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "turnTimeoutSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawPayout",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_BOARD_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FLEET_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SALVO_SHOTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_BOARD_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "OUTCOME_HIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "OUTCOME_MISS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "OUTCOME_SUNK",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SHIP_TYPE_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "abandonGame",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchGame", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "batchMoves", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchRequested",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchResolved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimTimeoutVictory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fleetCheckCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fleetChecks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fleetStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "gameCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "gameShips", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getGame", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "joinGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "moveLogs", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pausedAt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pausedSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingPayouts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "providers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setStakeToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTurnTimeoutSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "stakeTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitFleet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitMove", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitSalvo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tallies", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "turnTimeoutSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawPayout",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [gameId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [gameId: bigint, batchId: bigint];
+  export interface OutputObject {
+    gameId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [gameId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [gameId: bigint, batchId: bigint];
+  export interface OutputObject {
+    gameId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    gameId: BigNumberish,
+    batchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    gameId: bigint,
+    batchId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    gameId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    gameId: BigNumberish,
+    batchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    gameId: bigint,
+    batchId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    gameId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FleetCheckRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    gameId: BigNumberish,
+    player: AddressLike
+  ];
+  export type OutputTuple = [requestId: bigint, gameId: bigint, player: string];
+  export interface OutputObject {
+    requestId: bigint;
+    gameId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FleetCheckedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    valid: boolean
+  ];
+  export type OutputTuple = [gameId: bigint, player: string, valid: boolean];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    valid: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameCreatedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    creator: AddressLike,
+    boardSize: BigNumberish,
+    fleetSize: BigNumberish,
+    salvo: boolean
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    creator: string,
+    boardSize: bigint,
+    fleetSize: bigint,
+    salvo: boolean
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    creator: string;
+    boardSize: bigint;
+    fleetSize: bigint;
+    salvo: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameFinishedEvent {
+  export type InputTuple = [gameId: BigNumberish, winner: AddressLike];
+  export type OutputTuple = [gameId: bigint, winner: string];
+  export interface OutputObject {
+    gameId: bigint;
+    winner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameJoinedEvent {
+  export type InputTuple = [gameId: BigNumberish, opponent: AddressLike];
+  export type OutputTuple = [gameId: bigint, opponent: string];
+  export interface OutputObject {
+    gameId: bigint;
+    opponent: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameStartedEvent {
+  export type InputTuple = [gameId: BigNumberish, firstPlayer: AddressLike];
+  export type OutputTuple = [gameId: bigint, firstPlayer: string];
+  export interface OutputObject {
+    gameId: bigint;
+    firstPlayer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MoveLogSealedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    moveLogHash: BytesLike,
+    moves: BigNumberish,
+    sealedAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    moveLogHash: string,
+    moves: bigint,
+    sealedAt: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    moveLogHash: string;
+    moves: bigint;
+    sealedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MoveResolvedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    batchId: BigNumberish,
+    moveIndex: BigNumberish,
+    targetX: BigNumberish,
+    targetY: BigNumberish,
+    outcome: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    player: string,
+    batchId: bigint,
+    moveIndex: bigint,
+    targetX: bigint,
+    targetY: bigint,
+    outcome: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    batchId: bigint;
+    moveIndex: bigint;
+    targetX: bigint;
+    targetY: bigint;
+    outcome: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MoveSubmittedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    batchId: BigNumberish,
+    moveIndex: BigNumberish,
+    outcome: BytesLike
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    player: string,
+    batchId: bigint,
+    moveIndex: bigint,
+    outcome: string
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    batchId: bigint;
+    moveIndex: bigint;
+    outcome: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutDeferredEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    recipient: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    recipient: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    recipient: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutWithdrawnEvent {
+  export type InputTuple = [
+    recipient: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [recipient: string, token: string, amount: bigint];
+  export interface OutputObject {
+    recipient: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SalvoSubmittedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    batchId: BigNumberish,
+    shots: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    player: string,
+    batchId: bigint,
+    shots: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    batchId: bigint;
+    shots: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShipSubmittedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    shipIndex: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, player: string, shipIndex: bigint];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    shipIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeDepositedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    player: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakePaidEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    recipient: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    recipient: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    recipient: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeTokenSetEvent {
+  export type InputTuple = [token: AddressLike, allowed: boolean];
+  export type OutputTuple = [token: string, allowed: boolean];
+  export interface OutputObject {
+    token: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimeoutClaimedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    winner: AddressLike,
+    forfeiter: AddressLike
+  ];
+  export type OutputTuple = [gameId: bigint, winner: string, forfeiter: string];
+  export interface OutputObject {
+    gameId: bigint;
+    winner: string;
+    forfeiter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TurnTimeoutSecondsSetEvent {
+  export type InputTuple = [
+    oldTurnTimeoutSeconds: BigNumberish,
+    newTurnTimeoutSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldTurnTimeoutSeconds: bigint,
+    newTurnTimeoutSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldTurnTimeoutSeconds: bigint;
+    newTurnTimeoutSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface BattleshipPlusFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): BattleshipPlusFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: BattleshipPlusFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_BOARD_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_FLEET_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SALVO_SHOTS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_BOARD_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  OUTCOME_HIT: TypedContractMethod<[], [bigint], "view">;
+
+  OUTCOME_MISS: TypedContractMethod<[], [bigint], "view">;
+
+  OUTCOME_SUNK: TypedContractMethod<[], [bigint], "view">;
+
+  SHIP_TYPE_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  abandonGame: TypedContractMethod<
+    [gameId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchGame: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchMoves: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string] & {
+        player: string;
+        targetX: string;
+        targetY: string;
+        outcome: string;
+      }
+    ],
+    "view"
+  >;
+
+  batchRequested: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  batchResolved: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  cancelGame: TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+
+  claimTimeoutVictory: TypedContractMethod<
+    [gameId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createGame: TypedContractMethod<
+    [
+      boardSize: BigNumberish,
+      fleetCounts: [
+        BigNumberish,
+        BigNumberish,
+        BigNumberish,
+        BigNumberish,
+        BigNumberish
+      ],
+      salvo: boolean,
+      stakeToken: AddressLike,
+      stake: BigNumberish
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  fleetCheckCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  fleetChecks: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        gameId: bigint;
+        player: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  fleetStatus: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  gameCount: TypedContractMethod<[], [bigint], "view">;
+
+  gameShips: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike, arg2: BigNumberish],
+    [
+      [string, string, string, string, string, string, string] & {
+        typeId: string;
+        x: string;
+        y: string;
+        orientation: string;
+        length: string;
+        health: string;
+        hits: string;
+      }
+    ],
+    "view"
+  >;
+
+  getGame: TypedContractMethod<
+    [gameId: BigNumberish],
+    [BattleshipPlusFHE.GameStructOutput],
+    "view"
+  >;
+
+  joinGame: TypedContractMethod<[gameId: BigNumberish], [void], "payable">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  moveLogs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        hash: string;
+        moves: bigint;
+        sealedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pausedAt: TypedContractMethod<[], [bigint], "view">;
+
+  pausedSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  pendingPayouts: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchDecryption: TypedContractMethod<
+    [gameId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setStakeToken: TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setTurnTimeoutSeconds: TypedContractMethod<
+    [_turnTimeoutSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  stakeTokens: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  submitFleet: TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      _fleet: BattleshipPlusFHE.ShipInputStruct[],
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitMove: TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      _targetXInput: BytesLike,
+      _targetYInput: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitSalvo: TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      _targetXInputs: BytesLike[],
+      _targetYInputs: BytesLike[],
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  tallies: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [[bigint, bigint, bigint] & { shots: bigint; hits: bigint; sunk: bigint }],
+    "view"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  turnTimeoutSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawPayout: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BOARD_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FLEET_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SALVO_SHOTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_BOARD_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OUTCOME_HIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OUTCOME_MISS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OUTCOME_SUNK"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SHIP_TYPE_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "abandonGame"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchGame"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchMoves"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string] & {
+        player: string;
+        targetX: string;
+        targetY: string;
+        outcome: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchRequested"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchResolved"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "cancelGame"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimTimeoutVictory"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createGame"
+  ): TypedContractMethod<
+    [
+      boardSize: BigNumberish,
+      fleetCounts: [
+        BigNumberish,
+        BigNumberish,
+        BigNumberish,
+        BigNumberish,
+        BigNumberish
+      ],
+      salvo: boolean,
+      stakeToken: AddressLike,
+      stake: BigNumberish
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "fleetCheckCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fleetChecks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        gameId: bigint;
+        player: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "fleetStatus"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "gameCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "gameShips"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike, arg2: BigNumberish],
+    [
+      [string, string, string, string, string, string, string] & {
+        typeId: string;
+        x: string;
+        y: string;
+        orientation: string;
+        length: string;
+        health: string;
+        hits: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getGame"
+  ): TypedContractMethod<
+    [gameId: BigNumberish],
+    [BattleshipPlusFHE.GameStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "joinGame"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "moveLogs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        hash: string;
+        moves: bigint;
+        sealedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pausedAt"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pausedSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pendingPayouts"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchDecryption"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setStakeToken"
+  ): TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTurnTimeoutSeconds"
+  ): TypedContractMethod<
+    [_turnTimeoutSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "stakeTokens"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "submitFleet"
+  ): TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      _fleet: BattleshipPlusFHE.ShipInputStruct[],
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitMove"
+  ): TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      _targetXInput: BytesLike,
+      _targetYInput: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitSalvo"
+  ): TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      _targetXInputs: BytesLike[],
+      _targetYInputs: BytesLike[],
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tallies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [[bigint, bigint, bigint] & { shots: bigint; hits: bigint; sunk: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "turnTimeoutSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawPayout"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FleetCheckRequested"
+  ): TypedContractEvent<
+    FleetCheckRequestedEvent.InputTuple,
+    FleetCheckRequestedEvent.OutputTuple,
+    FleetCheckRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FleetChecked"
+  ): TypedContractEvent<
+    FleetCheckedEvent.InputTuple,
+    FleetCheckedEvent.OutputTuple,
+    FleetCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameCreated"
+  ): TypedContractEvent<
+    GameCreatedEvent.InputTuple,
+    GameCreatedEvent.OutputTuple,
+    GameCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameFinished"
+  ): TypedContractEvent<
+    GameFinishedEvent.InputTuple,
+    GameFinishedEvent.OutputTuple,
+    GameFinishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameJoined"
+  ): TypedContractEvent<
+    GameJoinedEvent.InputTuple,
+    GameJoinedEvent.OutputTuple,
+    GameJoinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameStarted"
+  ): TypedContractEvent<
+    GameStartedEvent.InputTuple,
+    GameStartedEvent.OutputTuple,
+    GameStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MoveLogSealed"
+  ): TypedContractEvent<
+    MoveLogSealedEvent.InputTuple,
+    MoveLogSealedEvent.OutputTuple,
+    MoveLogSealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MoveResolved"
+  ): TypedContractEvent<
+    MoveResolvedEvent.InputTuple,
+    MoveResolvedEvent.OutputTuple,
+    MoveResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MoveSubmitted"
+  ): TypedContractEvent<
+    MoveSubmittedEvent.InputTuple,
+    MoveSubmittedEvent.OutputTuple,
+    MoveSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutDeferred"
+  ): TypedContractEvent<
+    PayoutDeferredEvent.InputTuple,
+    PayoutDeferredEvent.OutputTuple,
+    PayoutDeferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutWithdrawn"
+  ): TypedContractEvent<
+    PayoutWithdrawnEvent.InputTuple,
+    PayoutWithdrawnEvent.OutputTuple,
+    PayoutWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SalvoSubmitted"
+  ): TypedContractEvent<
+    SalvoSubmittedEvent.InputTuple,
+    SalvoSubmittedEvent.OutputTuple,
+    SalvoSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShipSubmitted"
+  ): TypedContractEvent<
+    ShipSubmittedEvent.InputTuple,
+    ShipSubmittedEvent.OutputTuple,
+    ShipSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeDeposited"
+  ): TypedContractEvent<
+    StakeDepositedEvent.InputTuple,
+    StakeDepositedEvent.OutputTuple,
+    StakeDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakePaid"
+  ): TypedContractEvent<
+    StakePaidEvent.InputTuple,
+    StakePaidEvent.OutputTuple,
+    StakePaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeTokenSet"
+  ): TypedContractEvent<
+    StakeTokenSetEvent.InputTuple,
+    StakeTokenSetEvent.OutputTuple,
+    StakeTokenSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimeoutClaimed"
+  ): TypedContractEvent<
+    TimeoutClaimedEvent.InputTuple,
+    TimeoutClaimedEvent.OutputTuple,
+    TimeoutClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TurnTimeoutSecondsSet"
+  ): TypedContractEvent<
+    TurnTimeoutSecondsSetEvent.InputTuple,
+    TurnTimeoutSecondsSetEvent.OutputTuple,
+    TurnTimeoutSecondsSetEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ContractPaused()": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused()": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "FleetCheckRequested(uint256,uint256,address)": TypedContractEvent<
+      FleetCheckRequestedEvent.InputTuple,
+      FleetCheckRequestedEvent.OutputTuple,
+      FleetCheckRequestedEvent.OutputObject
+    >;
+    FleetCheckRequested: TypedContractEvent<
+      FleetCheckRequestedEvent.InputTuple,
+      FleetCheckRequestedEvent.OutputTuple,
+      FleetCheckRequestedEvent.OutputObject
+    >;
+
+    "FleetChecked(uint256,address,bool)": TypedContractEvent<
+      FleetCheckedEvent.InputTuple,
+      FleetCheckedEvent.OutputTuple,
+      FleetCheckedEvent.OutputObject
+    >;
+    FleetChecked: TypedContractEvent<
+      FleetCheckedEvent.InputTuple,
+      FleetCheckedEvent.OutputTuple,
+      FleetCheckedEvent.OutputObject
+    >;
+
+    "GameCreated(uint256,address,uint32,uint8,bool)": TypedContractEvent<
+      GameCreatedEvent.InputTuple,
+      GameCreatedEvent.OutputTuple,
+      GameCreatedEvent.OutputObject
+    >;
+    GameCreated: TypedContractEvent<
+      GameCreatedEvent.InputTuple,
+      GameCreatedEvent.OutputTuple,
+      GameCreatedEvent.OutputObject
+    >;
+
+    "GameFinished(uint256,address)": TypedContractEvent<
+      GameFinishedEvent.InputTuple,
+      GameFinishedEvent.OutputTuple,
+      GameFinishedEvent.OutputObject
+    >;
+    GameFinished: TypedContractEvent<
+      GameFinishedEvent.InputTuple,
+      GameFinishedEvent.OutputTuple,
+      GameFinishedEvent.OutputObject
+    >;
+
+    "GameJoined(uint256,address)": TypedContractEvent<
+      GameJoinedEvent.InputTuple,
+      GameJoinedEvent.OutputTuple,
+      GameJoinedEvent.OutputObject
+    >;
+    GameJoined: TypedContractEvent<
+      GameJoinedEvent.InputTuple,
+      GameJoinedEvent.OutputTuple,
+      GameJoinedEvent.OutputObject
+    >;
+
+    "GameStarted(uint256,address)": TypedContractEvent<
+      GameStartedEvent.InputTuple,
+      GameStartedEvent.OutputTuple,
+      GameStartedEvent.OutputObject
+    >;
+    GameStarted: TypedContractEvent<
+      GameStartedEvent.InputTuple,
+      GameStartedEvent.OutputTuple,
+      GameStartedEvent.OutputObject
+    >;
+
+    "MoveLogSealed(uint256,bytes32,uint32,uint64)": TypedContractEvent<
+      MoveLogSealedEvent.InputTuple,
+      MoveLogSealedEvent.OutputTuple,
+      MoveLogSealedEvent.OutputObject
+    >;
+    MoveLogSealed: TypedContractEvent<
+      MoveLogSealedEvent.InputTuple,
+      MoveLogSealedEvent.OutputTuple,
+      MoveLogSealedEvent.OutputObject
+    >;
+
+    "MoveResolved(uint256,address,uint256,uint256,uint32,uint32,uint8)": TypedContractEvent<
+      MoveResolvedEvent.InputTuple,
+      MoveResolvedEvent.OutputTuple,
+      MoveResolvedEvent.OutputObject
+    >;
+    MoveResolved: TypedContractEvent<
+      MoveResolvedEvent.InputTuple,
+      MoveResolvedEvent.OutputTuple,
+      MoveResolvedEvent.OutputObject
+    >;
+
+    "MoveSubmitted(uint256,address,uint256,uint256,bytes32)": TypedContractEvent<
+      MoveSubmittedEvent.InputTuple,
+      MoveSubmittedEvent.OutputTuple,
+      MoveSubmittedEvent.OutputObject
+    >;
+    MoveSubmitted: TypedContractEvent<
+      MoveSubmittedEvent.InputTuple,
+      MoveSubmittedEvent.OutputTuple,
+      MoveSubmittedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PayoutDeferred(uint256,address,address,uint256)": TypedContractEvent<
+      PayoutDeferredEvent.InputTuple,
+      PayoutDeferredEvent.OutputTuple,
+      PayoutDeferredEvent.OutputObject
+    >;
+    PayoutDeferred: TypedContractEvent<
+      PayoutDeferredEvent.InputTuple,
+      PayoutDeferredEvent.OutputTuple,
+      PayoutDeferredEvent.OutputObject
+    >;
+
+    "PayoutWithdrawn(address,address,uint256)": TypedContractEvent<
+      PayoutWithdrawnEvent.InputTuple,
+      PayoutWithdrawnEvent.OutputTuple,
+      PayoutWithdrawnEvent.OutputObject
+    >;
+    PayoutWithdrawn: TypedContractEvent<
+      PayoutWithdrawnEvent.InputTuple,
+      PayoutWithdrawnEvent.OutputTuple,
+      PayoutWithdrawnEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "SalvoSubmitted(uint256,address,uint256,uint256)": TypedContractEvent<
+      SalvoSubmittedEvent.InputTuple,
+      SalvoSubmittedEvent.OutputTuple,
+      SalvoSubmittedEvent.OutputObject
+    >;
+    SalvoSubmitted: TypedContractEvent<
+      SalvoSubmittedEvent.InputTuple,
+      SalvoSubmittedEvent.OutputTuple,
+      SalvoSubmittedEvent.OutputObject
+    >;
+
+    "ShipSubmitted(uint256,address,uint256)": TypedContractEvent<
+      ShipSubmittedEvent.InputTuple,
+      ShipSubmittedEvent.OutputTuple,
+      ShipSubmittedEvent.OutputObject
+    >;
+    ShipSubmitted: TypedContractEvent<
+      ShipSubmittedEvent.InputTuple,
+      ShipSubmittedEvent.OutputTuple,
+      ShipSubmittedEvent.OutputObject
+    >;
+
+    "StakeDeposited(uint256,address,address,uint256)": TypedContractEvent<
+      StakeDepositedEvent.InputTuple,
+      StakeDepositedEvent.OutputTuple,
+      StakeDepositedEvent.OutputObject
+    >;
+    StakeDeposited: TypedContractEvent<
+      StakeDepositedEvent.InputTuple,
+      StakeDepositedEvent.OutputTuple,
+      StakeDepositedEvent.OutputObject
+    >;
+
+    "StakePaid(uint256,address,address,uint256)": TypedContractEvent<
+      StakePaidEvent.InputTuple,
+      StakePaidEvent.OutputTuple,
+      StakePaidEvent.OutputObject
+    >;
+    StakePaid: TypedContractEvent<
+      StakePaidEvent.InputTuple,
+      StakePaidEvent.OutputTuple,
+      StakePaidEvent.OutputObject
+    >;
+
+    "StakeTokenSet(address,bool)": TypedContractEvent<
+      StakeTokenSetEvent.InputTuple,
+      StakeTokenSetEvent.OutputTuple,
+      StakeTokenSetEvent.OutputObject
+    >;
+    StakeTokenSet: TypedContractEvent<
+      StakeTokenSetEvent.InputTuple,
+      StakeTokenSetEvent.OutputTuple,
+      StakeTokenSetEvent.OutputObject
+    >;
+
+    "TimeoutClaimed(uint256,address,address)": TypedContractEvent<
+      TimeoutClaimedEvent.InputTuple,
+      TimeoutClaimedEvent.OutputTuple,
+      TimeoutClaimedEvent.OutputObject
+    >;
+    TimeoutClaimed: TypedContractEvent<
+      TimeoutClaimedEvent.InputTuple,
+      TimeoutClaimedEvent.OutputTuple,
+      TimeoutClaimedEvent.OutputObject
+    >;
+
+    "TurnTimeoutSecondsSet(uint256,uint256)": TypedContractEvent<
+      TurnTimeoutSecondsSetEvent.InputTuple,
+      TurnTimeoutSecondsSetEvent.OutputTuple,
+      TurnTimeoutSecondsSetEvent.OutputObject
+    >;
+    TurnTimeoutSecondsSet: TypedContractEvent<
+      TurnTimeoutSecondsSetEvent.InputTuple,
+      TurnTimeoutSecondsSetEvent.OutputTuple,
+      TurnTimeoutSecondsSetEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,240 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace GameRecords {
+  export type GameRecordStruct = {
+    author: AddressLike;
+    timestamp: BigNumberish;
+    data: BytesLike;
+  };
+
+  export type GameRecordStructOutput = [
+    author: string,
+    timestamp: bigint,
+    data: string
+  ] & { author: string; timestamp: bigint; data: string };
+}
+
+export interface GameRecordsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_PAGE_SIZE"
+      | "MAX_RECORD_BYTES"
+      | "appendRecord"
+      | "getRecord"
+      | "getRecords"
+      | "recordCount"
+  ): FunctionFragment;
+
+  getEvent(nameOrSignatureOrTopic: "RecordAppended"): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RECORD_BYTES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appendRecord",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecord",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecords",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordCount",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RECORD_BYTES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "appendRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRecord", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getRecords", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordCount",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace RecordAppendedEvent {
+  export type InputTuple = [
+    index: BigNumberish,
+    author: AddressLike,
+    data: BytesLike
+  ];
+  export type OutputTuple = [index: bigint, author: string, data: string];
+  export interface OutputObject {
+    index: bigint;
+    author: string;
+    data: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface GameRecords extends BaseContract {
+  connect(runner?: ContractRunner | null): GameRecords;
+  waitForDeployment(): Promise<this>;
+
+  interface: GameRecordsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RECORD_BYTES: TypedContractMethod<[], [bigint], "view">;
+
+  appendRecord: TypedContractMethod<[data: BytesLike], [bigint], "nonpayable">;
+
+  getRecord: TypedContractMethod<
+    [index: BigNumberish],
+    [GameRecords.GameRecordStructOutput],
+    "view"
+  >;
+
+  getRecords: TypedContractMethod<
+    [before: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], GameRecords.GameRecordStructOutput[]] & {
+        indexes: bigint[];
+        page: GameRecords.GameRecordStructOutput[];
+      }
+    ],
+    "view"
+  >;
+
+  recordCount: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RECORD_BYTES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "appendRecord"
+  ): TypedContractMethod<[data: BytesLike], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getRecord"
+  ): TypedContractMethod<
+    [index: BigNumberish],
+    [GameRecords.GameRecordStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRecords"
+  ): TypedContractMethod<
+    [before: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], GameRecords.GameRecordStructOutput[]] & {
+        indexes: bigint[];
+        page: GameRecords.GameRecordStructOutput[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "recordCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "RecordAppended"
+  ): TypedContractEvent<
+    RecordAppendedEvent.InputTuple,
+    RecordAppendedEvent.OutputTuple,
+    RecordAppendedEvent.OutputObject
+  >;
+
+  filters: {
+    "RecordAppended(uint256,address,bytes)": TypedContractEvent<
+      RecordAppendedEvent.InputTuple,
+      RecordAppendedEvent.OutputTuple,
+      RecordAppendedEvent.OutputObject
+    >;
+    RecordAppended: TypedContractEvent<
+      RecordAppendedEvent.InputTuple,
+      RecordAppendedEvent.OutputTuple,
+      RecordAppendedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2010 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  BattleshipPlusFHE,
+  BattleshipPlusFHEInterface,
+} from "../../Battleship_Plus_FHE.sol/BattleshipPlusFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyRequested",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CannotJoinOwnGame",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DeadlineNotReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FleetComplete",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBoardSize",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCoordinates",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidFleetSize",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidGameStatus",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSalvo",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStake",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoMovesToDecrypt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotParticipant",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotYourTurn",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToClaim",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TokenNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "FleetCheckRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "valid",
+        type: "bool",
+      },
+    ],
+    name: "FleetChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "boardSize",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "fleetSize",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "salvo",
+        type: "bool",
+      },
+    ],
+    name: "GameCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    name: "GameFinished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "opponent",
+        type: "address",
+      },
+    ],
+    name: "GameJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "firstPlayer",
+        type: "address",
+      },
+    ],
+    name: "GameStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "moveLogHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moves",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "sealedAt",
+        type: "uint64",
+      },
+    ],
+    name: "MoveLogSealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "moveIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "targetX",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "targetY",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "outcome",
+        type: "uint8",
+      },
+    ],
+    name: "MoveResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "moveIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint8",
+        name: "outcome",
+        type: "bytes32",
+      },
+    ],
+    name: "MoveSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutDeferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shots",
+        type: "uint256",
+      },
+    ],
+    name: "SalvoSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shipIndex",
+        type: "uint256",
+      },
+    ],
+    name: "ShipSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakeDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakePaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "StakeTokenSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "forfeiter",
+        type: "address",
+      },
+    ],
+    name: "TimeoutClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldTurnTimeoutSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newTurnTimeoutSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "TurnTimeoutSecondsSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BOARD_SIZE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_FLEET_SIZE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SALVO_SHOTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_BOARD_SIZE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OUTCOME_HIT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OUTCOME_MISS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OUTCOME_SUNK",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SHIP_TYPE_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "abandonGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchMoves",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "targetX",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "targetY",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "outcome",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchRequested",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchResolved",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "claimTimeoutVictory",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "boardSize",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8[5]",
+        name: "fleetCounts",
+        type: "uint8[5]",
+      },
+      {
+        internalType: "bool",
+        name: "salvo",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "stakeToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "stake",
+        type: "uint256",
+      },
+    ],
+    name: "createGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "fleetCheckCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fleetChecks",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "fleetStatus",
+    outputs: [
+      {
+        internalType: "enum BattleshipPlusFHE.FleetStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "gameCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "gameShips",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "typeId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "x",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "y",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "orientation",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "length",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "health",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "hits",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "getGame",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address[2]",
+            name: "players",
+            type: "address[2]",
+          },
+          {
+            internalType: "uint32",
+            name: "boardSize",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "fleetSize",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8[5]",
+            name: "fleetCounts",
+            type: "uint8[5]",
+          },
+          {
+            internalType: "bool",
+            name: "salvo",
+            type: "bool",
+          },
+          {
+            internalType: "enum BattleshipPlusFHE.GameStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "turn",
+            type: "uint8",
+          },
+          {
+            internalType: "uint64",
+            name: "turnDeadline",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "deadlinePausedSeconds",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "turnTimeLeft",
+            type: "uint64",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "batchOpen",
+            type: "bool",
+          },
+          {
+            internalType: "address",
+            name: "winner",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "stakeToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "stake",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct BattleshipPlusFHE.Game",
+        name: "game",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "joinGame",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moveLogs",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "hash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "moves",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "sealedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pausedAt",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pausedSeconds",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingPayouts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setStakeToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_turnTimeoutSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setTurnTimeoutSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "stakeTokens",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "externalEuint32",
+            name: "typeId",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "x",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "y",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "orientation",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "length",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct BattleshipPlusFHE.ShipInput[]",
+        name: "_fleet",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitFleet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_targetXInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_targetYInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitMove",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "_targetXInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "_targetYInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitSalvo",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "tallies",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "shots",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "hits",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "sunk",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "turnTimeoutSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "withdrawPayout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234620001ab575f606062000017620001af565b828152826020820152826040820152015262000032620001af565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f52600160205260405f20600160ff19825416179055604051337fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2601e600355620151806004556158849081620001e48239f35b5f80fd5b60405190608082016001600160401b03811183821017620001cf57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c80630350030c1461036f578063038798a01461036a5780630787bc27146103655780630a763da1146103605780630e240e421461035b578063124bd04b1461035657806316c38b3c146103515780631f5e3d711461034c57806324b4cee0146103475780632c7f949c146103425780632e55d0f21461033d578063360016791461033857806337bf87691461033357806346e2577a1461032e578063493d1f11146103295780634d1975b4146103245780634e258d8f1461031f578063509081d71461031a57806357017fec146103155780635a94a079146103105780635c975abb1461030b57806366eb53041461030657806369958ab9146103015780637b5b1157146102fc5780638a355a57146102f75780638da5cb5b146102f25780638f071698146102ed5780639d31278a146102e8578063a1a38fc2146102e3578063a2f77bcc146102de578063a4365476146102d9578063aa21741a146102d4578063aa9d5caa1461028e578063b1944b77146102cf578063b65e8941146102ca578063b8221bc4146102c5578063be13f7f5146102c0578063bf03346a146102bb578063c02cb7bc146102b6578063c3139954146102b1578063c6e1fc41146102ac578063ccfc190c146102a7578063d2c411d3146102a2578063d5c6dd9b1461029d578063da1f12ab14610298578063e1e6bf8214610293578063ed67425b1461028e578063ef849fbd14610289578063efaa55a014610284578063eff53a691461027f578063f2fde38b1461027a578063f590b6f214610275578063f5dbdfb9146102705763f7ef3ae81461026b575f80fd5b6128b6565b61289b565b612694565b612627565b612449565b61234d565b6122e2565b6117a3565b61225b565b61223f565b6121e9565b612092565b611feb565b611f83565b611f1b565b611dec565b611dd1565b611b62565b611b45565b611aff565b6117ee565b61177a565b611742565b6116a4565b6114c4565b6113da565b6113bf565b611398565b611330565b6112c7565b611208565b6111cb565b6111a9565b611171565b611157565b61113c565b6110f1565b6110d4565b610f1d565b610eb2565b610e95565b610e7a565b610e51565b610e22565b610d4d565b610cd7565b610b52565b610953565b610747565b61072a565b6106e3565b61062e565b6103c4565b8015150361037e57565b5f80fd5b60e435906001600160a01b038216820361037e57565b600435906001600160a01b038216820361037e57565b602435906001600160a01b038216820361037e57565b61012036600319011261037e576004803563ffffffff81169081810361037e573660c41161037e5760c435916103f983610374565b610401610382565b9060ff6002541661061d5760068110908115610612575b50610601575f805b600581106105d35750801580156105c9575b6105b8576001600160a01b038216151580610587575b61057657936105629261052d927f40bd433785359524cfcbda3fc2b1f0ac98a8cc48b812f48c2d0c747e88aad13960ff610572981696610489600854612953565b978896879461049786600855565b61050a6104ac875f52600b60205260405f2090565b8054336001600160a01b031990911617815560028101805464ffffffffff191663ffffffff8b1617602087901b64ff0000000016179055986104f060038b016129aa565b8901805461010061ffff1990911687151560ff1617179055565b6007880180546001600160a01b0319166001600160a01b03909216919091179055565b6101043560088701556040805163ffffffff96909616865260ff919091166020860152901515908401523392606090a3612f9c565b6040519081529081906020820190565b0390f35b60405163514e24c360e11b81528590fd5b506001600160a01b0382165f9081526009602052604090206105b3906105af905b5460ff1690565b1590565b610448565b604051630e63657160e21b81528590fd5b50600a8111610432565b906105fa6001916105f46105ee6105e9866128e5565b612908565b60ff1690565b90612946565b9101610420565b604051630afc040b60e31b81528490fd5b60109150115f610418565b6040516313d0ff5960e31b81528590fd5b3461037e57604036600319011261037e57610647610398565b6024359061065482610374565b5f546001600160a01b039190821633036106d157169081156106bf5760207fc6ec8e058f18f4228349effc5048d0efdc298e193d76e7d1c26084cb3b4eb93591835f52600982526106b48160405f209060ff801983541691151516179055565b6040519015158152a2005b60405163514e24c360e11b8152600490fd5b6040516330cd747160e01b8152600490fd5b3461037e57602036600319011261037e576001600160a01b03610704610398565b165f526001602052602060ff60405f2054166040519015158152f35b5f91031261037e57565b3461037e575f36600319011261037e576020600754604051908152f35b3461037e57604036600319011261037e576020610795610765610398565b61076d6103ae565b6001600160a01b039182165f908152600a855260408082209290931681526020919091522090565b54604051908152f35b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116107c557604052565b61079e565b604081019081106001600160401b038211176107c557604052565b60a081019081106001600160401b038211176107c557604052565b90601f801991011681019081106001600160401b038211176107c557604052565b604051906101e082018281106001600160401b038211176107c557604052565b60405190606082018281106001600160401b038211176107c557604052565b6040519060e082018281106001600160401b038211176107c557604052565b60405190608082018281106001600160401b038211176107c557604052565b6001600160401b0381116107c557601f01601f191660200190565b9291926108c58261089e565b916108d36040519384610800565b82948184528183011161037e578281602093845f960137010152565b9080601f8301121561037e5781602061090a933591016108b9565b90565b606060031982011261037e57600435916001600160401b0360243581811161037e578361093c916004016108ef565b9260443591821161037e5761090a916004016108ef565b3461037e576109613661090d565b9190610982600261097a845f52600d60205260405f2090565b015460ff1690565b610b4057610998825f52600d60205260405f2090565b54916109af6105a8845f52600f60205260405f2090565b610b40576109c5835f52601360205260405f2090565b54926109d86109d38261308b565b613166565b9460019560016109f0855f52600d60205260405f2090565b015403610b2e578351610a0286612999565b03610b1c57610a1290848461319d565b610a376002610a29845f52600d60205260405f2090565b01805460ff19166001179055565b610a59610a4c825f52600f60205260405f2090565b805460ff19166001179055565b610a6b815f52600c60205260405f2090565b5480927fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f960405180610aa286829190602083019252565b0390a35f5b848110610ab057005b80610b16610abe8893612970565b80840160051b87015163ffffffff1690610b0d6105ee610b01610afb610af2610ae68661292a565b60010160051b8d015190565b63ffffffff1690565b93612938565b60010160051b8a015190565b918487896132a8565b01610aa7565b6040516309bde33960e01b8152600490fd5b6040516313b304fb60e21b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b3461037e57602036600319011261037e57600435610b6f81610374565b5f546001600160a01b031633036106d15715610bf857610b946105af60025460ff1690565b610bd1575b610bab600160ff196002541617600255565b7fab35696f06e428ebc5ceba8cd17f8fed287baf43440206d1943af1ee53e6d2675f80a1005b6002805468ffffffffffffffff0019164260081b68ffffffffffffffff0016179055610b99565b60025460ff8116610c51575b50610c1c68ffffffffffffffff001960025416600255565b610c2b60ff1960025416600255565b7f0e5e3b3fb504c22cf5c42fa07d521225937514c654007e1f12646f89768d6f945f80a1005b610c7b610ca4916001600160401b03610c71818360081c168242166129e8565b9160481c16612a01565b67ffffffffffffffff60481b6002549160481b169067ffffffffffffffff60481b191617600255565b5f610c04565b9181601f8401121561037e578235916001600160401b03831161037e576020838186019501011161037e57565b3461037e57606036600319011261037e576024356001600160401b0380821161037e573660238301121561037e5781600401359181831161037e5736602460a085028301011161037e5760443591821161037e57610d4b92610d3f6024933690600401610caa565b93909201600435612a1c565b005b3461037e57602036600319011261037e5760048035335f526001602052604060ff815f20541615610e135760ff60025416610e0457815f52600b60205260ff83825f20015460081c166005811015610dff57600303610df057815f52600b602052805f209060ff600683015416610de15750806001600160401b03610d4b94610ddc93015460981c1690613a9f565b613b03565b51630292dd1d60e11b81528390fd5b51638f8af25f60e01b81529050fd5b611548565b516313d0ff5960e31b81529050fd5b51631a40715960e11b81529050fd5b3461037e57602036600319011261037e576004355f52600f602052602060ff60405f2054166040519015158152f35b3461037e575f36600319011261037e5760206001600160401b0360025460081c16604051908152f35b3461037e575f36600319011261037e57602060405160028152f35b3461037e575f36600319011261037e576020600454604051908152f35b3461037e57602036600319011261037e57610ecb610398565b5f546001600160a01b039190821633036106d15716805f52600160205260405f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b3461037e57608036600319011261037e5760048035906064356001600160401b03811161037e57610f519036908301610caa565b60ff600254166110c357335f5260209160058352604093845f205460035481018091116110be5742106110b057855f52600b8452610f9133865f20613523565b156110a257855f52600b845260ff81865f20015460081c166005811015610dff5760030361109457855f52600b8452610fd6855f2060ff8382015460101c1690612961565b90543360039290921b1c6001600160a01b03160361108657855f52600b845260ff6006865f200154161561107857855f52600b845260ff81865f2001541661106a57509361105861105d92611051611049600597986110416110393686846108b9565b602435613b71565b9336916108b9565b604435613b71565b9083613cf8565b613e3f565b335f525242905f20555f80f35b84516332aca4c560e01b8152fd5b845163f84b8daf60e01b8152fd5b8451631cc191eb60e31b8152fd5b8451638f8af25f60e01b8152fd5b845163721c7c6760e11b8152fd5b845163aa9a98df60e01b8152fd5b612916565b6040516313d0ff5960e31b81528390fd5b3461037e575f36600319011261037e576020600854604051908152f35b3461037e57602036600319011261037e576004355f526012602052606060405f2060ff6001825492015460405192835260018060a01b038116602084015260a01c1615156040820152f35b3461037e575f36600319011261037e57602060405160068152f35b3461037e575f36600319011261037e5760206040515f8152f35b3461037e57602036600319011261037e576001600160a01b03611192610398565b165f526006602052602060405f2054604051908152f35b3461037e575f36600319011261037e57602060ff600254166040519015158152f35b3461037e57602036600319011261037e576001600160a01b036111ec610398565b165f526009602052602060ff60405f2054166040519015158152f35b3461037e57602036600319011261037e576004803560ff600254166112b757805f52600b602052604060ff83825f20015460081c166005811015610dff57156112a857815f52600b60205260ff83825f20015460081c166005811015610dff57600103610df0575f828152600b60205281902080549091906001600160a01b0316330361129957610d4b8383613e93565b5163721c7c6760e11b81528390fd5b516309b3c62760e21b81529050fd5b506040516313d0ff5960e31b8152fd5b3461037e57602036600319011261037e575f54600435906001600160a01b031633036106d15760038054908290556040805191825260208201929092527f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391819081015b0390a1005b3461037e57602036600319011261037e57611349610398565b5f546001600160a01b039190821633036106d15716805f52600160205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b3461037e575f36600319011261037e575f546040516001600160a01b039091168152602090f35b3461037e575f36600319011261037e57602060405160018152f35b3461037e57602036600319011261037e576113f3610398565b335f908152600a602090815260408083206001600160a01b038516845290915290205480156114b257335f908152600a602052604081206114469084905b9060018060a01b03165f5260205260405f2090565b556114556105af8233856141b3565b6114a057604080516001600160a01b039093168352602083019190915233917f219e32d66c2f953f02b07838ef5662afcaa9e2bb7394e7cfec915014353226e291819081015b0390a2005b6040516312171d8360e31b8152600490fd5b6040516312d37ee560e31b8152600490fd5b3461037e57602036600319011261037e576004355f52600c602052602060405f2054604051908152f35b5f915b600283106114fe57505050565b81516001600160a01b0316815260019290920191602091820191016114f1565b5f915b6005831061152e57505050565b60019060ff83511681526020809101920192019190611521565b634e487b7160e01b5f52602160045260245ffd5b60051115610dff57565b906005821015610dff5752565b91909161026061028082019361158a8382516114ee565b602081015163ffffffff166040840152604081015160ff1660608401526115b96060820151608085019061151e565b6080810151906115d0610120928386019015159052565b61169d60a0820151926115e96101409485880190611566565b61168960c084015161160361016091828a019060ff169052565b61167560e08601519161162461018093848c01906001600160401b03169052565b610100870151946116436101a096878d01906001600160401b03169052565b8701519761165f6101c0998a8d01906001600160401b03169052565b8701516101e08b015286015115156102008a0152565b8401516001600160a01b0316610220880152565b8201516001600160a01b0316610240860152565b0151910152565b3461037e57602036600319011261037e575f6101c06116c1610821565b6116c9612ccc565b81528260208201528260408201526116df612ce0565b60608201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201528261016082015282610180820152826101a08201520152610572611736600435612cf4565b60405191829182611573565b3461037e57602036600319011261037e576001600160a01b03611763610398565b165f526005602052602060405f2054604051908152f35b3461037e575f36600319011261037e5760206001600160401b0360025460481c16604051908152f35b3461037e575f36600319011261037e576020604051600a8152f35b9181601f8401121561037e578235916001600160401b03831161037e576020808501948460051b01011161037e57565b3461037e57608036600319011261037e5760046001600160401b03813560243582811161037e5761182290369085016117be565b9060443584811161037e5761183a90369087016117be565b9460643590811161037e576118529036908801610caa565b9060ff60025416611aee57335f526005602052604096875f205460035481018091116110be574210611ade57865f52600b60205261189233895f20613523565b15611ace57865f52600b60205260ff89895f20015460081c166005811015610dff57600303611abe57865f52600b6020526118d9885f2060ff8b82015460101c1690612961565b90543360039290921b1c6001600160a01b031603611aae57865f52600b60205260ff6006895f2001541615611a9e5786979861197d6105ee8961197761196d61194f61194061193360029e9f5f52600b60205260405f2090565b9d8e015460201c60ff1690565b935f52601460205260405f2090565b611959338e614284565b60018060a01b03165f5260205260405f2090565b5460401c60ff1690565b90612f28565b61198d6105af838a015460ff1690565b908115611a95575b8115611a8a575b8115611a7f575b8115611a75575b50611a6757505f5b878110611a1a5789897f1fff61a0dd036c28a028fe41567aea85637ef261a19a8100be958c3efbc7aa0f611a158b60058c6119ec86613e3f565b335f90815260056020526040902042905501549451948552602085015233939081906040820190565b0390a3005b80611a61611a40611a2e6001948c8b612f3c565b35611a3a3689896108b9565b90613b71565b611a5a611a4e84878b612f3c565b35611a3a368a8a6108b9565b908c613cf8565b016119b2565b89516332aca4c560e01b8152fd5b905088115f6119aa565b600a8a1191506119a3565b89841415915061199c565b89159150611995565b875163f84b8daf60e01b81528990fd5b8751631cc191eb60e31b81528990fd5b8751638f8af25f60e01b81528990fd5b875163721c7c6760e11b81528990fd5b875163aa9a98df60e01b81528990fd5b6040516313d0ff5960e31b81528890fd5b3461037e57602036600319011261037e576004355f52600d602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b3461037e575f36600319011261037e576020600354604051908152f35b3461037e57611b703661090d565b9091611b84815f52601260205260405f2090565b6001810180546001600160a01b0395929491929086811615611dbf5760a01c60ff16610b4057611bbb611bdb9282611c5f9661319d565b825460ff60a01b1916600160a01b17835560208082518301019101612f4c565b907f06c3b8957634e776405fe714f2cc57c124ef71738efe12cfb1c419dfc4b6e01e611c73855496611c4b611c18895f52600b60205260405f2090565b988615611da957611c46611c366002925f52601160205260405f2090565b87546001600160a01b0316611959565b612cb4565b86549354939586946001600160a01b031690565b604051951515865216939081906020820190565b0390a360048301906002611c8c835460ff9060081c1690565b611c958161155c565b149081611d7d575b81611d44575b50611caa57005b7ffadb9547847a0c2c31f4c02590545e318d33d7aae99071caecf3fa4ce3cd7dca611d3c611d22611d0d610d4b96611d0796611cef8761030061ff0019825416179055565b611cf8826142aa565b549687965460ff9060101c1690565b90612961565b905460039190911b1c6001600160a01b031690565b6040516001600160a01b0390911681529081906020820190565b0390a2613b03565b600291506105a8611d60611d6d925f52601160205260405f2090565b611959600188015f611d0d565b611d76816121df565b145f611ca3565b90506002611d996105a8611c36845f52601160205260405f2090565b611da2816121df565b1490611c9d565b611c46611c365f925f52601160205260405f2090565b604051636d08029760e01b8152600490fd5b3461037e575f36600319011261037e57602060405160058152f35b3461037e57602036600319011261037e576004803560ff600254166112b757805f52600b6020526040611e22815f203390613523565b15611f0c57815f52600b60205260ff83825f20015460081c166005811015610dff57600203610df057611e5d825f52600b60205260405f2090565b90611e6782614215565b421115611efd576002611e986105a8611e88865f52601160205260405f2090565b85546001600160a01b0316611959565b611ea1816121df565b148015611ec6575b611eb757610d4b8383613e93565b516312d37ee560e31b81528390fd5b506002611eee6105a8611ee1865f52601160205260405f2090565b611959600187015f611d0d565b611ef7816121df565b14611ea9565b51633376277360e11b81528390fd5b5163721c7c6760e11b81529050fd5b3461037e57602036600319011261037e575f54600435906001600160a01b031633036106d15760048054908290556040805191825260208201929092527f5cc4d692767394ad21f95657ad32753d642410276d2baf103f672d5800558035918190810161132b565b3461037e57604036600319011261037e576060611fc4611fa16103ae565b6004355f52601460205260405f209060018060a01b03165f5260205260405f2090565b5460ff63ffffffff916040519280821684528160201c16602084015260401c166040820152f35b3461037e57606036600319011261037e5761202a6120076103ae565b6004355f52601060205260405f209060018060a01b03165f5260205260405f2090565b6044355f5260205260405f208054610572600183015492600281015490600381015460048201549060066005840154930154936040519788978893909796959260c0959260e08601998652602086015260408501526060840152608083015260a08201520152565b3461037e57602036600319011261037e57600435335f526001602052604060ff815f205416156121cf5760ff600254166121bf57815f52600b60205260ff6006825f20015416156121af57815f52600b602052805f206120f181614215565b9142831115612180574283039283116110be57600561149b926001600160401b037fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe95165b60048201805467ffffffffffffffff60981b191660989290921b67ffffffffffffffff60981b1691909117905560068101805460ff19169055015490519081529081906020820190565b7fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe9250600561149b925f612136565b5163f84b8daf60e01b8152600490fd5b516313d0ff5960e31b8152600490fd5b51631a40715960e11b8152600490fd5b60031115610dff57565b3461037e57604036600319011261037e5760ff61222a6122076103ae565b6004355f52601160205260405f209060018060a01b03165f5260205260405f2090565b54166040516003821015610dff576020918152f35b3461037e575f36600319011261037e5760206040516127118152f35b3461037e57602036600319011261037e576004355f908152601560209081526040918290208054600190910154835191825263ffffffff81168284015290911c6001600160401b031691810191909152606090f35b634e487b7160e01b5f52603260045260245ffd5b80548210156122dd575f5260205f209060021b01905f90565b6122b0565b3461037e57604036600319011261037e576024356004355f52601360205260405f20805482101561037e57608091612319916122c4565b5060018060a01b03815416906001810154906003600282015491015491604051938452602084015260408301526060820152f35b602036600319011261037e576004803560ff600254166112b757805f52600b602052604060ff83825f20015460081c166005811015610dff57156112a857815f52600b60205260ff83825f20015460081c166005811015610dff57600103610df0575f828152600b60205281902080549091906001600160a01b03166001600160a01b0316331461243a57506001810180546001600160a01b03191633179055610d4b92612406908201805461ff001916610200179055565b61240f816142aa565b33827f45c4f9cbafe186141862608c493f28b823fde4c2142bedc3f5169961a73fdd225f80a3612f9c565b5163106a317d60e01b81528390fd5b3461037e57602036600319011261037e576004803560ff600254166112b757805f52600b602052604090612480825f203390613523565b1561261957612497815f52600b60205260405f2090565b91838301549060ff8260081c16916124ae8361155c565b600383148080612602575b6125f2576124c686614215565b4211156125e2576124d73387614284565b936124e18161155c565b600281036125945750505060026125076105a833611431875f52601160205260405f2090565b612510816121df565b14801590612569575b61255a5750610d4b93505b6001600160a01b031633827fd9e6b8699ed901e5a7c903961e4cf1c22ba951a90b004886aa4d8dc7ef63458f5f80a43391614019565b516312d37ee560e31b81528490fd5b5060026125856105a884611431875f52601160205260405f2090565b61258e816121df565b14612519565b61259d9061155c565b156125d257611d0d60ff6125b59260101c1686612961565b6001600160a01b0383811691160361255a5750610d4b9350612524565b8151638f8af25f60e01b81528690fd5b8251633376277360e11b81528790fd5b825163f84b8daf60e01b81528790fd5b506126146105af600688015460ff1690565b6124b9565b505163721c7c6760e11b8152fd5b3461037e57602036600319011261037e57612640610398565b5f54906001600160a01b0380831691338390036106d1571680926bffffffffffffffffffffffff60a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b3461037e57602036600319011261037e576004803560ff600254166112b757335f5260066020526040805f205460035481018091116110be57421061288c57815f52600b60205260ff83825f20015460081c166005811015610dff57156112a857612707825f52600b60205260405f2090565b335f908152600160205260409020612722906105af906105a8565b80612879575b61286957600581015493612744855f52601360205260405f2090565b541561285b5761275f6105a8865f52600e60205260405f2090565b61284d575060066128119161277f610a4c875f52600e60205260405f2090565b846127898761308b565b6127cc61279e61279883613166565b926149d6565b916127a7610841565b908a825260208201525f888201526127c7835f52600d60205260405f2090565b612f6f565b335f90815260066020908152604090912042905586518981527f5e0bb1b708f1f76775812e0c51d4f8893968e6bf1a6776e92e97da11615342f39190a3015460ff1690565b61281757005b51918252610d4b9181907fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe908060208101611d3c565b82516333dbc2bf60e11b8152fd5b82516302b8a0bd60e01b8152fd5b815163721c7c6760e11b81528490fd5b506128876105af3383613523565b612728565b5163aa9a98df60e01b81529050fd5b3461037e575f36600319011261037e57602060405160108152f35b3461037e57602036600319011261037e576004355f52600e602052602060ff60405f2054166040519015158152f35b60058110156122dd5760051b60240190565b9060058110156122dd5760051b0190565b3560ff8116810361037e5790565b634e487b7160e01b5f52601160045260245ffd5b90600182018092116110be57565b90600282018092116110be57565b919082018092116110be57565b5f1981146110be5760010190565b60028210156122dd5701905f90565b90816003029160038304036110be57565b600181901b91906001600160ff1b038116036110be57565b90816060029160608304036110be57565b5f906024825b600581106129bd57505055565b909260206001916129cd86612908565b908460031b9160ff809116831b921b191617940191016129b0565b6001600160401b0391821690821603919082116110be57565b9190916001600160401b03808094169116019182116110be57565b929390919360ff60025416612c0e57835f52600b602052604094612a43865f203390613523565b15612bfd57845f52600b60205260ff6004875f20015460081c166005811015610dff57600203612bec57612a866105a833611431885f52601160205260405f2090565b612a8f816121df565b612bdb57612ab86105ee6002612aad885f52600b60205260405f2090565b015460201c60ff1690565b8103612bca575f5b818110612baa575050505050612b69612afe612adc338461378d565b612ae581613a95565b50612aee612c47565b90612af882612c93565b52614b29565b925f612b08610841565b84815233602082015291820152612b27845f52601260205260405f2090565b815181556020820151600190910180546040909301516001600160a01b039092166001600160a81b03199093169290921790151560a01b60ff60a01b16179055565b612b82610a4c33611431845f52601160205260405f2090565b33917f59da3f50e1be1fc5f808863593b9937cc571836ae486e36913249a6ca60e9e5b5f80a4565b80612bc48585612bbd600195878b612c20565b848b61357b565b01612ac0565b8551630e63657160e21b8152600490fd5b855163166216e360e31b8152600490fd5b8551638f8af25f60e01b8152600490fd5b855163721c7c6760e11b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b91908110156122dd5760a0020190565b6001600160401b0381116107c55760051b60200190565b60405190612c54826107ca565b6001825260203681840137565b90612c6b82612c30565b612c786040519182610800565b8281528092612c89601f1991612c30565b0190602036910137565b8051156122dd5760200190565b80518210156122dd5760209160051b010190565b906003811015610dff5760ff80198354169116179055565b60405190612cd9826107ca565b6040368337565b60405190612ced826107e5565b60a0368337565b805f52600b60205260ff9081600460405f20015460081c166005811015610dff5715612e8c57612de6612e7f612e73612e6e8461090a955f52600b602052600860405f20612e44612d43610821565b99612d4d83612e9e565b8b52600283015463ffffffff811660208d0152612d7690829060201c1660408d019060ff169052565b612d8260038401612edc565b60608c0152612e168b6004850154612da1848216608084019015159052565b612db28482891c1660a08401612f1c565b60ff601082901c85161660c0830152612dff6001600160401b039260e081019d8e858560181c166001600160401b03169052565b610100848460581c169101906001600160401b03169052565b60981c166101208d01906001600160401b03169052565b60058301546101408c0152600683015490811615156101608c0152831c6001600160a01b03166101808b0152565b60078101546001600160a01b03166101a08a015201546101c08801525f52600b60205260405f2090565b614215565b6001600160401b031690565b6001600160401b03169052565b6040516309b3c62760e21b8152600490fd5b60405191905f835b60028210612ebc57505050612eba826107ca565b565b82546001600160a01b031681526001928301929190910190602001612ea6565b9060ff60405192548181168452818160081c166020850152818160101c166040850152818160181c16606085015260201c166080830152612eba826107e5565b6005821015610dff5752565b9060ff8091169116039060ff82116110be57565b91908110156122dd5760051b0190565b9081602091031261037e575161090a81610374565b5f198101919082116110be57565b60026040612eba9380518455602081015160018501550151151591019060ff801983541691151516179055565b600781018054909291906001600160a01b03168061302c57506008810154340361301a576008905b01549182612fd157505050565b54604080516001600160a01b039092168252602082019390935233927f90f4ed90cd4b91c84f25f367c0df37a3a256d33957be8ffe5ad4ea25f9759f779190819081015b0390a3565b604051634eba4d4960e11b8152600490fd5b3461301a5760088201546040516323b872dd60e01b6020820152336024820152306044820152606481019190915261307f916105af919061307a82608481015b03601f198101845283610800565b6142b6565b6114a057600890612fc4565b5f52601360205260405f209081546003816003026003810483036110be576130b290612c61565b935f5b8381106130c25750505050565b8060016130d08193856122c4565b5001546130e56130df83612970565b89612ca0565b5260026130f282856122c4565b5001546131096130df61310484612970565b61292a565b528361311582856122c4565b50015461312c6130df61312784612970565b612938565b52016130b5565b9081518082526020808093019301915f5b828110613152575050505090565b835185529381019392810192600101613144565b604051613197816131836020820194604086526060830190613133565b30604083015203601f198101835282610800565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561326f57845f5260205260405f206040519182602083549182815201925f5260205f20915f905b8282106132585750505050918161321761321c95936105af950382610800565b6143ad565b613246577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906131f7565b60405163d66ca67560e01b8152600490fd5b90600163ffffffff809316019182116110be57565b60ff60019116019060ff82116110be57565b92949190936132d96132cb836132c6885f52601360205260405f2090565b6122c4565b50546001600160a01b031690565b94847fdb550dca1e1e6a536f1cb35a5ffc38ffbbe5139aa5557b3b44d1ff063eed836f61331288611431845f52601460205260405f2090565b9461334261332c613327885463ffffffff1690565b613281565b875463ffffffff191663ffffffff909116178755565b600260ff8816806134e4575b146134a1575b60408051948552602085019190915263ffffffff8a8116918501919091528416606084015260ff861660808401526001600160a01b0388169260a090a36133a3845f52600b60205260405f2090565b9560036133b8600489015460ff9060081c1690565b6133c18161155c565b036134985761346c9361196d92600192613441896134336133ea8b5f52601560205260405f2090565b805460408051602081019283526001600160a01b03959095169085015263ffffffff958616606085015295909416608083015260ff9590951660a08201529193829060c0820190565b03601f198101835282610800565b519020815501613458613327825463ffffffff1690565b63ffffffff1663ffffffff19825416179055565b60ff6134836105ee600287015460ff9060201c1690565b91161461348f57505050565b612eba92614019565b50505050505050565b6134df6134bb6134b6885460ff9060401c1690565b613296565b875468ff0000000000000000191660409190911b68ff000000000000000016178755565b613354565b61351e6134fc6133278a5463ffffffff9060201c1690565b895467ffffffff00000000191660209190911b67ffffffff0000000016178955565b61334e565b6001600160a01b03918216801515928361353e575b50505090565b82548116821493509091831561355a575b5050505f8080613538565b60010154161490505f808061354f565b9060078110156122dd5760051b0190565b9291909361359461358d3683866108b9565b8335613b71565b926135f76135b06135a63685856108b9565b6020860135613b71565b9360806135ef6135ce6135c43688886108b9565b6040850135613b71565b946135e76135dd3689846108b9565b6060860135613b71565b9636916108b9565b910135613b71565b9061360185614476565b61360a84614476565b61361381614476565b61361c83614476565b61362582614476565b61362d614f1e565b92613636610860565b958652602086019485526040860191825260608601908152608086019183835260a0870193845260c0870194855261366c610860565b95875187525160208701525160408601525160608501525160808401525160a08301525160c08201525f5b6007811061374357505061370f906136cc846136bf33611431875f52601060205260405f2090565b905f5260205260405f2090565b9060c0600691805184556020810151600185015560408101516002850155606081015160038501556080810151600485015560a081015160058501550151910155565b60405191825233917f08dbe7988d3fa38b5d10b6f9fad648914a342b13a6ed625aaf51c4dc7894c988908060208101613015565b806137596137536001938561356a565b51613a95565b5061376e33613768838661356a565b5161490c565b01613697565b91909160058310156122dd57601f908360051c01921690565b91906137a1835f52600b60205260405f2090565b906002936137ba6105ee600285015460ff9060201c1690565b906137c482612c61565b926137ce83612c61565b936137d7612ce0565b945f5b60058110613a7957506137eb614fbf565b985f5b868110613858575050505050505060035f92015b6005831061380f57505050565b90919361384f60019161384961382588876128f7565b516138436105ee6138368b89613774565b905460ff9160031b1c1690565b90614603565b906147b6565b94019190613802565b9099613874826136bf876114318a5f52601060205260405f2090565b9061387e8261449e565b6138888587612ca0565b526138938487612ca0565b5261389c614f1e565b5f5b60058110613a11575060048301548d949392916138ba91614732565b6138c3916147b6565b60038201546138d1906147e5565b6138da916147b6565b6001908b8284019e8f549401938454906138f39261485d565b6138fc916147b6565b8b6139078589612ca0565b516139128689612ca0565b519061391d9261485d565b613926916147b6565b9c5f925b84841061393d57505050506001016137ee565b9091839e8482958b6139578e5f52601060205260405f2090565b6001600160a01b039091165f908152602091909152604090205f9182526020526040902085548990613989848e612ca0565b5161399391614888565b828601546139a18b8f612ca0565b516139ab91614888565b6139b4916147b6565b928654906139c2908d612ca0565b516139cc91614888565b9101546139d9898c612ca0565b516139e391614888565b6139ec916147b6565b6139f5916147b6565b6139fe906153e9565b613a07916147b6565b9e0192919061392a565b90613a6e600191859f9695613a2e905463ffffffff861690614603565b8d613a5686613a50613a4082856128f7565b51613a4a8661521d565b90614681565b926128f7565b52613a68613a6386614705565b61448f565b906152bf565b91019c92939c61389e565b600190613a84614f1e565b613a8e828a6128f7565b52016137da565b61090a308261490c565b904201908142116110be57600401906affffffffffffffff00000082549160181b16806affffffffffffffff0000001983161783556001600160401b0360581b60025460101b169172ffffffffffffffffffffffffffffffff000000191617179055565b7f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf6020613b31600754612953565b80600755835f52600b8252600660405f2082600582015501600160ff1982541617905583613b67825f52600c60205260405f2090565b55604051908152a2565b5f8051602061583883398151915254613bc9926020929091613ba990613b9d906001600160a01b031681565b6001600160a01b031690565b905f60405180968195829463196d0b9b60e01b8452339060048501614c2c565b03925af1908115613c4f575f91613c54575b505f8051602061585883398151915254613bff90613b9d906001600160a01b031681565b803b1561037e57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015613c4f57613c3c575090565b80613c4961090a926107b2565b80610720565b6143a2565b613c76915060203d602011613c7c575b613c6e8183610800565b810190614c1d565b5f613bdb565b503d613c64565b8054600160401b8110156107c557613ca0916001820181556122c4565b919091613ce557805182546001600160a01b0319166001600160a01b039190911617825560039060609060208101516001850155604081015160028501550151910155565b634e487b7160e01b5f525f60045260245ffd5b90917f2b3d11dbc333d302f87cec838e177b32c260e48a8590faabecd2311c5c64845b90613e04613d78613d34855f52600b60205260405f2090565b95613d3e81614476565b613d4784614476565b613d5284828961485d565b93613d72613d6a613a6360028b015463ffffffff1690565b8093876152bf565b946152bf565b916005613db88483613d8a338b614284565b613d9382613a95565b50613d9d83613a95565b50613da8818361490c565b613db2818461490c565b89614c5d565b96613dc288613a95565b50613dcd338961490c565b0192613de284545f52601360205260405f2090565b90613deb61087f565b3381529260208401526040830152866060830152613c83565b5492613e21613e1b855f52601360205260405f2090565b54612f61565b60408051958652602086019190915284015233928060608101613015565b805f52600b60205260ff600460405f20015460101c1660010360ff81116110be57612eba915f52600b60205260405f2090600482019062ff000082549160101b169062ff0000191617905560045490613a9f565b60048101805461ff001916610400178155613ede90600683018054610100600160a81b0319168155613eca905b805460ff19169055565b80546affffffffffffffff00000019169055565b5f827fb7f35e624e036288272fbf3342c09219261ff29fdddd826989b289134e9ae5358280a3613f16825f52601560205260405f2090565b600180820180546bffffffffffffffff0000000019164260201b6bffffffffffffffff000000001617815590939182917fbb0597c826f538973e7101300cb50c2006eb5b6aa3e4f78abb77412ed41c69ea9163ffffffff916001600160401b0391613fb791905b549054906040519485948360201c169216908491604091949363ffffffff6001600160401b03926060860197865216602085015216910152565b0390a26008820191825415614013575f5b60028110613fd7575050505050565b80613fe9613b9d611d0d889486612961565b613ff4575b01613fc8565b61400e614004611d0d8386612961565b8654908686614e35565b613fee565b50505050565b90614060600483016140348161040061ff0019825416179055565b600684018054610100600160a81b031916600887901b610100600160a81b0316178155613eca90613ec0565b6001600160a01b03831680827fb7f35e624e036288272fbf3342c09219261ff29fdddd826989b289134e9ae5355f80a36140a2825f52601560205260405f2090565b600181810180546bffffffffffffffff0000000019164260201b6bffffffffffffffff0000000016178155909184917fbb0597c826f538973e7101300cb50c2006eb5b6aa3e4f78abb77412ed41c69ea9163ffffffff916001600160401b039161410c9190613f7d565b0390a2600884019182541561417c5715614136575090614130612eba949254612981565b92614e35565b9350915f5b6002811061414a575050505050565b8061415c613b9d611d0d889486612961565b614167575b0161413b565b614177614004611d0d8386612961565b614161565b505050505050565b3d156141ae573d906141958261089e565b916141a36040519384610800565b82523d5f602084013e565b606090565b9091906001600160a01b038116156141ff5760405163a9059cbb60e01b60208201526001600160a01b039093166024840152604483019190915261090a919061307a826064810161306c565b505f8080939281935af1614211614184565b5090565b600401546001600160401b0390818160181c1691821561427d5780614247816002549460581c16828560481c166129e8565b169160ff8116614260575b505081018091116110be5790565b60081c1642034281116110be5781018091116110be575f80614252565b5050505f90565b80546001600160a01b039290831690831681036142a45750600101541690565b91505090565b600454612eba91613a9f565b803b1561430157815f92918360208194519301915af16142d4614184565b816142dd575090565b80518015925082156142ee57505090565b61090a9250602080918301019101612f4c565b50505f90565b5f5b8381106143185750505f910152565b8181015183820152602001614309565b602092919061433e849282815194859201614307565b019081520190565b9060209161435f81518092818552858086019101614307565b601f01601f1916010190565b916143949061438661090a9593606086526060860190613133565b908482036020860152614346565b916040818403910152614346565b6040513d5f823e3d90fd5b9190805191602093838501938486116110be576040018094116110be5761443a936143e48694613433604051938492888401614328565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f9061441c90613b9d906001600160a01b031681565b92604051968795869485936378542ead60e01b85526004850161436b565b03925af1918215613c4f575f9261445057505090565b61090a9250803d1061446f575b6144678183610800565b810190612f4c565b503d61445d565b1561447d57565b6040516321c4e35760e21b8152600490fd5b63ffffffff61090a9116614f70565b906003820154801561455e575b5f805160206158388339815191525460405163f77f3f1d60e01b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af18015613c4f5761090a915f9161453f575b50613a4a61451960048601546151a5565b614521614f1e565b60026145366001890154613a4a8486896152bf565b970154936152bf565b614558915060203d602011613c7c57613c6e8183610800565b5f614508565b505f602061456a614f1e565b9150506144ab565b80156145ef575b5f805160206158388339815191525460405163f77f3f1d60e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115613c4f575f916145d6575090565b61090a915060203d602011613c7c57613c6e8183610800565b505f60206145fb614f1e565b915050614579565b63ffffffff91602091801561466f575b5f805160206158388339815191525460405163f77f3f1d60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b50606461467a614f1e565b9050614613565b9081156146f5575b80156146e3575b602090606460018060a01b035f805160206158388339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115613c4f575f916145d6575090565b5060206146ee614f1e565b9050614690565b90506146ff614f1e565b90614689565b6001811461472c57600381146147265760021461472157600390565b600290565b50600490565b50600590565b9081156147a6575b8015614794575b602090606460018060a01b035f805160206158388339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115613c4f575f916145d6575090565b50602061479f614f1e565b9050614741565b90506147b0614f1e565b9061473a565b9061090a9180156147d7575b816153115790506147d1615012565b90615311565b506147e0615012565b6147c2565b8015614849575b5f8051602061583883398151915254604051631d44e90160e21b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b505f6020614855614f1e565b9150506147ec565b61090a929161488261487b63ffffffff600261384995015416614f70565b8092615365565b92615365565b9081156148fc575b80156148ea575b602090606460018060a01b035f805160206158388339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115613c4f575f916145d6575090565b5060206148f5614f1e565b9050614897565b9050614906614f1e565b90614890565b5f80516020615858833981519152546001600160a01b031691823b1561037e57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015613c4f5761496a5750565b612eba906107b2565b90602061090a928181520190613133565b929161499d918452606060208501526060840190613133565b91604063124bd04b60e01b910152565b92916149c6918452606060208501526060840190613133565b91604063be13f7f560e01b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615858833981519152549093929190614a2190613b9d906001600160a01b031681565b803b1561037e575f6040518092637d6e912360e11b8252818381614a488960048301614973565b03925af18015613c4f57614b16575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254614a8e90613b9d906001600160a01b031681565b90813b1561037e575f6040518093633263b83b60e01b8252818381614ab7898c60048401614984565b03925af18015613c4f57612eba93614adf93614ad992614b03575b5086615435565b54612953565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b80613c49614b10926107b2565b5f614ad2565b80613c49614b23926107b2565b5f614a57565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615858833981519152549093929190614b7490613b9d906001600160a01b031681565b803b1561037e575f6040518092637d6e912360e11b8252818381614b9b8960048301614973565b03925af18015613c4f57614c0a575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254614be190613b9d906001600160a01b031681565b90813b1561037e575f6040518093633263b83b60e01b8252818381614ab7898c600484016149ad565b80613c49614c17926107b2565b5f614baa565b9081602091031261037e575190565b9392614c5890600493606093875260018060a01b03166020870152608060408701526080860190614346565b930152565b939290600294614c7a6002612aad835f52600b60205260405f2090565b95614c83615012565b93614c8c615012565b955f9460ff809a16945b858b881610614cce575050505050505061090a929350614cc8614cb76150ac565b91614cc06150ff565b614cc8615152565b916152bf565b909192939495978a908984614ceb855f52601060205260405f2090565b6001600160a01b03919091165f9081526020918252604080822060ff9094168252929091522098614d1d87878c615509565b9060058b01918254614d2e90615549565b614d37916147b6565b60018c0154614d4690896155c1565b8a8d0154614d54908b6155c1565b614d5d91614681565b614d6561505e565b90614d6f9061526c565b614d7891615645565b9b600601928c845490614d8a91615762565b614d9390614572565b614d9d90836147b6565b938154614da9906151a5565b8254614db591876152bf565b809e825490614dc2614f1e565b614dcc91896152bf565b614dd59161578b565b92614ddf82613a95565b50614de984613a95565b50614df48b8361490c565b614dfe8b8561490c565b5555614e09916157ba565b99614e1390614572565b614e1c916147b6565b614e25916157ba565b9860010116959493929190614c96565b600701546001600160a01b039081169391929091614e548183876141b3565b15614ea057604080516001600160a01b03909616865260208601919091529116927f34a07f028f2e61e37fbbe431ce8a5f6d3d342a82716dfea02659236b42c6940c9181908101613015565b93911692835f52600a602052614ec98260405f209060018060a01b03165f5260205260405f2090565b9182548281018091116110be57909255604080516001600160a01b03909316835260208301919091527f4edb3e0fec32171a68cf6c0a1bb0752a5b5dec8074fb2d54f53a59b744713e99919081908101613015565b5f8051602061583883398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115613c4f575f916145d6575090565b60205f91604460018060a01b035f805160206158388339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115613c4f575f916145d6575090565b5f8051602061583883398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af1908115613c4f575f916145d6575090565b5f602060018060a01b035f805160206158388339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115613c4f575f916145d6575090565b5f602060018060a01b035f805160206158388339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af1908115613c4f575f916145d6575090565b5f8051602061583883398151915254604051639cd07acb60e01b8152600260048201819052602482015290602090829060449082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b5f8051602061583883398151915254604051639cd07acb60e01b8152600160048201526002602482015290602090829060449082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b5f8051602061583883398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115613c4f575f916145d6575090565b8015615209575b5f80516020615838833981519152546040516303056db360e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b505f6020615215614f1e565b9150506151ac565b60205f91604460018060a01b035f8051602061583883398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115613c4f575f916145d6575090565b5f80516020615838833981519152546040516307227b9160e21b8152600481019290925260026024830152602090829060449082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b9060646020925f60018060a01b035f8051602061583883398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115613c4f575f916145d6575090565b90602090606460018060a01b035f805160206158388339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115613c4f575f916145d6575090565b9081156153d9575b80156153c7575b602090606460018060a01b035f805160206158388339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af1908115613c4f575f916145d6575090565b5060206153d2614f1e565b9050615374565b90506153e3614f1e565b9061536d565b5f8051602061583883398151915254604051630f51ccfb60e41b81526004810192909252602090829060249082905f906001600160a01b03165af1908115613c4f575f916145d6575090565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f20546154f7575f5260205260405f20908251926001600160401b0384116107c557600160401b84116107c55782548484558085106154d1575b5060206154ae9101925f5260205f2090565b905f5b8481106154bf575050505050565b835183820155928101926001016154b1565b835f528460205f2091820191015b8181106154ec575061549c565b5f81556001016154df565b604051633f06d22b60e01b8152600490fd5b9082613849600161553b61090a966002615541613849976138498a61553b836155318361449e565b9a90930154614888565b92614888565b970154614888565b80156155ad575b5f80516020615838833981519152546040516385362ee760e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115613c4f575f916145d6575090565b505f60206155b9614f1e565b915050615550565b908115615635575b8015615623575b602090606460018060a01b035f805160206158388339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115613c4f575f916145d6575090565b50602061562e614f1e565b90506155d0565b905061563f614f1e565b906155c9565b908115615752575b80156156ce575b6156b99161566360209261521d565b5f805160206158388339815191525490919061568990613b9d906001600160a01b031681565b905f60405180968195829463ccc480a160e01b8452600484016040905f9294936060820195825260208201520152565b03925af1908115613c4f575f916145d6575090565b505f8051602061583883398151915254604051639cd07acb60e01b81525f6004820181905260026024830152909291602091849160449183916001600160a01b03165af1908115613c4f576156636020926156b9945f91615735575b509250509150615654565b61574c9150843d8611613c7c57613c6e8183610800565b5f61572a565b905061575c614f1e565b9061564d565b9061090a91801561577d575b816153115790506147d1614f1e565b50615786614f1e565b61576e565b9061090a9180156157ac575b816157e35790506157a6614f1e565b906157e3565b506157b5614f1e565b615797565b9061090a9180156157d5575b816157e35790506157a6615012565b506157de615012565b6157c6565b90602090606460018060a01b035f805160206158388339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115613c4f575f916145d657509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type BattleshipPlusFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: BattleshipPlusFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class BattleshipPlusFHE__factory extends ContractFactory {
+  constructor(...args: BattleshipPlusFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      BattleshipPlusFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): BattleshipPlusFHE__factory {
+    return super.connect(runner) as BattleshipPlusFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): BattleshipPlusFHEInterface {
+    return new Interface(_abi) as BattleshipPlusFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): BattleshipPlusFHE {
+    return new Contract(address, _abi, runner) as unknown as BattleshipPlusFHE;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as battleshipPlusFheSol from "./Battleship_Plus_FHE.sol";
+export { GameRecords__factory } from "./GameRecords__factory";
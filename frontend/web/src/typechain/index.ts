@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as battleshipPlusFheSol from "./Battleship_Plus_FHE.sol";
+export type { battleshipPlusFheSol };
+export type { GameRecords } from "./GameRecords";
+export * as factories from "./factories";
+export type { BattleshipPlusFHE } from "./Battleship_Plus_FHE.sol/BattleshipPlusFHE";
+export { BattleshipPlusFHE__factory } from "./factories/Battleship_Plus_FHE.sol/BattleshipPlusFHE__factory";
+export { GameRecords__factory } from "./factories/GameRecords__factory";
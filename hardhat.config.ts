@@ -3,6 +3,8 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/oracleRelay";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
@@ -0,0 +1,71 @@
+// tasks/oracleRelay.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Stands in for the Zama decryption oracle on a local `npx hardhat node`.
+ *
+ * The node runs the fhevm mock, whose oracle only answers when asked. This
+ * task asks it every time BattleshipPlusFHE requests a decryption, so
+ * `myCallback` and `fleetCheckCallback` receive KMS-signed cleartexts just as
+ * they would on Sepolia, and whole matches can be played offline:
+ *
+ *   npx hardhat node
+ *   npx hardhat --network localhost task:oracle-relay --address <BattleshipPlusFHE>
+ */
+task("task:oracle-relay", "Answers BattleshipPlusFHE decryption requests on a local fhevm mock node")
+  .addOptionalParam("address", "BattleshipPlusFHE address; defaults to gameContractAddress in the frontend config")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error(`The oracle relay needs the fhevm mock; on ${hre.network.name} the Zama oracle answers itself`);
+    }
+
+    const address: string = taskArguments.address ?? configuredGameAddress();
+    const contract = await ethers.getContractAt("BattleshipPlusFHE", address);
+
+    // The mock oracle answers every open request at once, so requests are
+    // relayed one after another, skipping any an earlier round already
+    // answered: asking again for an answered request is an error
+    let relaying = Promise.resolve();
+    const relay = (label: string, answered: () => Promise<boolean> = async () => false) => {
+      relaying = relaying
+        .then(async () => {
+          if (await answered()) return;
+          await fhevm.awaitDecryptionOracle();
+          console.log(`Answered ${label}`);
+        })
+        .catch(e => console.error(`Failed to answer ${label}:`, e));
+      return relaying;
+    };
+
+    await contract.on(contract.getEvent("DecryptionRequested"), (requestId, gameId, batchId) =>
+      relay(
+        `decryption request ${requestId} (game ${gameId}, batch ${batchId})`,
+        async () => (await contract.decryptionContexts(requestId)).processed,
+      ),
+    );
+    await contract.on(contract.getEvent("FleetCheckRequested"), (requestId, gameId, player) =>
+      relay(
+        `fleet check ${requestId} (game ${gameId}, player ${player})`,
+        async () => (await contract.fleetChecks(requestId)).processed,
+      ),
+    );
+    console.log(`Relaying decryption requests of BattleshipPlusFHE at ${address}. Press Ctrl+C to stop.`);
+
+    // Requests made before the relay started are still open
+    await relay("requests made before the relay started");
+    await new Promise(() => {});
+  });
+
+function configuredGameAddress(): string {
+  const configPath = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+  const address = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")).gameContractAddress : undefined;
+  if (!address || address === "0x0000000000000000000000000000000000000000") {
+    throw new Error("No BattleshipPlusFHE address: pass --address or deploy the game first");
+  }
+  return address;
+}
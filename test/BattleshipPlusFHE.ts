@@ -0,0 +1,856 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import { BattleshipPlusFHE, BattleshipPlusFHE__factory, TestToken } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// Ships of each type id, as createGame takes them
+type FleetCounts = [number, number, number, number, number];
+
+type ShipPlacement = { typeId: number; x: number; y: number; orientation: number; length: number };
+
+// Both players stake `stake`, in `token` or else in ETH
+type MatchOptions = { fleetCounts?: FleetCounts; salvo?: boolean; stake?: bigint; token?: TestToken };
+
+const GameStatus = { None: 0n, WaitingForOpponent: 1n, Placing: 2n, Active: 3n, Finished: 4n };
+const FleetStatus = { None: 0n, Pending: 1n, Accepted: 2n };
+const Outcome = { Miss: 0n, Hit: 1n, Sunk: 2n };
+
+const BOARD_SIZE = 8;
+// A submarine along row 0 and a destroyer down column 0 from row 2
+const FLEET_COUNTS: FleetCounts = [1, 0, 1, 0, 0];
+const FLEET: ShipPlacement[] = [
+  { typeId: 0, x: 0, y: 0, orientation: 0, length: 3 },
+  { typeId: 2, x: 2, y: 0, orientation: 1, length: 2 },
+];
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("BattleshipPlusFHE")) as BattleshipPlusFHE__factory;
+  const contract = (await factory.deploy()) as BattleshipPlusFHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("BattleshipPlusFHE", function () {
+  let signers: Signers;
+  let contract: BattleshipPlusFHE;
+  let contractAddress: string;
+
+  before(async function () {
+    const [deployer, alice, bob, carol] = await ethers.getSigners();
+    signers = { deployer, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    // The encrypted flows need the mock coprocessor and decryption oracle
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  async function eventArgs(tx: ContractTransactionResponse, name: string) {
+    const receipt = await tx.wait();
+    for (const log of receipt!.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === name) return parsed.args;
+    }
+    throw new Error(`${name} not emitted`);
+  }
+
+  async function createMatch(options: MatchOptions = {}) {
+    const fleetCounts = options.fleetCounts ?? FLEET_COUNTS;
+    const stake = options.stake ?? 0n;
+    const token = options.token ? await options.token.getAddress() : ethers.ZeroAddress;
+    const value = options.token ? 0n : stake;
+    await contract
+      .connect(signers.alice)
+      .createGame(BOARD_SIZE, fleetCounts, options.salvo ?? false, token, stake, { value });
+    const gameId = await contract.gameCount();
+    await contract.connect(signers.bob).joinGame(gameId, { value });
+    return gameId;
+  }
+
+  async function submitFleet(gameId: bigint, player: HardhatEthersSigner, ships: ShipPlacement[] = FLEET) {
+    const input = fhevm.createEncryptedInput(contractAddress, player.address);
+    for (const ship of ships) {
+      input.add32(ship.typeId).add32(ship.x).add32(ship.y).add32(ship.orientation).add32(ship.length);
+    }
+    const encrypted = await input.encrypt();
+    const handles = ships.map((_, i) => {
+      const [typeId, x, y, orientation, length] = encrypted.handles.slice(5 * i, 5 * i + 5);
+      return { typeId, x, y, orientation, length };
+    });
+    return contract.connect(player).submitFleet(gameId, handles, encrypted.inputProof);
+  }
+
+  async function startMatch(options: MatchOptions & { fleet?: ShipPlacement[] } = {}) {
+    const gameId = await createMatch(options);
+    await submitFleet(gameId, signers.alice, options.fleet);
+    await submitFleet(gameId, signers.bob, options.fleet);
+    await fhevm.awaitDecryptionOracle();
+    return gameId;
+  }
+
+  async function fire(gameId: bigint, player: HardhatEthersSigner, x: number, y: number) {
+    const encrypted = await fhevm.createEncryptedInput(contractAddress, player.address).add32(x).add32(y).encrypt();
+    return contract
+      .connect(player)
+      .submitMove(gameId, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+  }
+
+  async function requestReveal(gameId: bigint, player: HardhatEthersSigner = signers.alice) {
+    const args = await eventArgs(await contract.connect(player).requestBatchDecryption(gameId), "DecryptionRequested");
+    return args.requestId as bigint;
+  }
+
+  describe("roles", function () {
+    it("makes the deployer owner and provider", async function () {
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+      expect(await contract.providers(signers.deployer.address)).to.eq(true);
+    });
+
+    it("lets only the owner manage providers", async function () {
+      await expect(contract.connect(signers.alice).addProvider(signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.addProvider(signers.carol.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.carol.address);
+      expect(await contract.providers(signers.carol.address)).to.eq(true);
+
+      await expect(contract.removeProvider(signers.carol.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.carol.address);
+      expect(await contract.providers(signers.carol.address)).to.eq(false);
+    });
+
+    it("hands every owner right over on transfer", async function () {
+      await expect(
+        contract.connect(signers.alice).transferOwnership(signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.transferOwnership(signers.alice.address))
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      await expect(contract.setPaused(true)).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.connect(signers.alice).setPaused(true)).to.emit(contract, "ContractPaused");
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks game actions until unpaused", async function () {
+      const gameId = await startMatch();
+      await expect(contract.setPaused(true)).to.emit(contract, "ContractPaused");
+
+      await expect(
+        contract.connect(signers.alice).createGame(BOARD_SIZE, FLEET_COUNTS, false, ethers.ZeroAddress, 0),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(fire(gameId, signers.alice, 0, 0)).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(contract.closeBatch(gameId)).to.be.revertedWithCustomError(contract, "Paused");
+
+      await expect(contract.setPaused(false)).to.emit(contract, "ContractUnpaused");
+      await expect(fire(gameId, signers.alice, 0, 0)).to.emit(contract, "MoveSubmitted");
+    });
+
+    it("can only be toggled by the owner", async function () {
+      await expect(contract.connect(signers.alice).setPaused(true)).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("spaces out each player's moves", async function () {
+      expect(await contract.cooldownSeconds()).to.eq(30n);
+      const gameId = await startMatch();
+
+      await fire(gameId, signers.alice, 7, 7);
+      await fire(gameId, signers.bob, 7, 7);
+      await expect(fire(gameId, signers.alice, 6, 6)).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await time.increase(30);
+      await expect(fire(gameId, signers.alice, 6, 6)).to.emit(contract, "MoveSubmitted");
+    });
+
+    it("spaces out each caller's decryption requests", async function () {
+      const gameId = await startMatch();
+      await fire(gameId, signers.alice, 7, 7);
+      await requestReveal(gameId);
+
+      await expect(contract.connect(signers.alice).requestBatchDecryption(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+      await time.increase(30);
+      // Past the cooldown the request goes through to the batch checks
+      await expect(contract.connect(signers.alice).requestBatchDecryption(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "NoMovesToDecrypt",
+      );
+    });
+
+    it("is configurable by the owner", async function () {
+      await expect(contract.connect(signers.alice).setCooldownSeconds(0)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.setCooldownSeconds(0)).to.emit(contract, "CooldownSecondsSet").withArgs(30n, 0n);
+
+      const gameId = await startMatch();
+      await fire(gameId, signers.alice, 7, 7);
+      await fire(gameId, signers.bob, 7, 7);
+      await expect(fire(gameId, signers.alice, 6, 6)).to.emit(contract, "MoveSubmitted");
+    });
+  });
+
+  describe("with no cooldown", function () {
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+    });
+
+    describe("matches", function () {
+      it("rejects board sizes and fleets outside the limits", async function () {
+        await expect(
+          contract.connect(signers.alice).createGame(5, FLEET_COUNTS, false, ethers.ZeroAddress, 0),
+        ).to.be.revertedWithCustomError(contract, "InvalidBoardSize");
+        await expect(
+          contract.connect(signers.alice).createGame(17, FLEET_COUNTS, false, ethers.ZeroAddress, 0),
+        ).to.be.revertedWithCustomError(contract, "InvalidBoardSize");
+        await expect(
+          contract.connect(signers.alice).createGame(BOARD_SIZE, [0, 0, 0, 0, 0], false, ethers.ZeroAddress, 0),
+        ).to.be.revertedWithCustomError(contract, "InvalidFleetSize");
+        await expect(
+          contract.connect(signers.alice).createGame(BOARD_SIZE, [3, 3, 3, 2, 0], false, ethers.ZeroAddress, 0),
+        ).to.be.revertedWithCustomError(contract, "InvalidFleetSize");
+      });
+
+      it("seats a second player and moves on to placement", async function () {
+        await contract.connect(signers.alice).createGame(BOARD_SIZE, FLEET_COUNTS, false, ethers.ZeroAddress, 0);
+        const gameId = await contract.gameCount();
+        await expect(contract.connect(signers.alice).joinGame(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "CannotJoinOwnGame",
+        );
+        await expect(contract.connect(signers.bob).joinGame(gameId))
+          .to.emit(contract, "GameJoined")
+          .withArgs(gameId, signers.bob.address);
+        await expect(contract.connect(signers.carol).joinGame(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "InvalidGameStatus",
+        );
+
+        const game = await contract.getGame(gameId);
+        expect(game.players).to.deep.eq([signers.alice.address, signers.bob.address]);
+        expect(game.status).to.eq(GameStatus.Placing);
+        expect(game.fleetSize).to.eq(2n);
+      });
+    });
+
+    describe("fleet submission", function () {
+      it("stores encrypted ships their owner can decrypt", async function () {
+        const gameId = await createMatch();
+        await expect(submitFleet(gameId, signers.alice))
+          .to.emit(contract, "ShipSubmitted")
+          .withArgs(gameId, signers.alice.address, 1n);
+        expect(await contract.fleetStatus(gameId, signers.alice.address)).to.eq(FleetStatus.Pending);
+
+        // Read positionally: the typings collapse to never as the struct's
+        // `length` field clashes with the result array's own
+        const [, x, , , , health] = (await contract.gameShips(gameId, signers.alice.address, 1)) as unknown as string[];
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, x, contractAddress, signers.alice)).to.eq(2n);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, health, contractAddress, signers.alice)).to.eq(2n);
+      });
+
+      it("keeps fleets to the participants and the game's size", async function () {
+        const gameId = await createMatch();
+        await expect(submitFleet(gameId, signers.carol)).to.be.revertedWithCustomError(contract, "NotParticipant");
+        await expect(submitFleet(gameId, signers.alice, FLEET.slice(0, 1))).to.be.revertedWithCustomError(
+          contract,
+          "InvalidFleetSize",
+        );
+        await submitFleet(gameId, signers.alice);
+        await expect(submitFleet(gameId, signers.alice)).to.be.revertedWithCustomError(contract, "FleetComplete");
+      });
+
+      it("starts the match once both fleets pass the check", async function () {
+        const gameId = await createMatch();
+        await submitFleet(gameId, signers.alice);
+        await submitFleet(gameId, signers.bob);
+        await fhevm.awaitDecryptionOracle();
+
+        expect(await contract.fleetStatus(gameId, signers.alice.address)).to.eq(FleetStatus.Accepted);
+        expect(await contract.fleetStatus(gameId, signers.bob.address)).to.eq(FleetStatus.Accepted);
+        const game = await contract.getGame(gameId);
+        expect(game.status).to.eq(GameStatus.Active);
+        expect(game.turn).to.eq(0n);
+      });
+
+      it("rejects overlapping ships and takes a corrected fleet", async function () {
+        const gameId = await createMatch();
+        const overlapping = [FLEET[0], { ...FLEET[1], x: 0, y: 2 }];
+        await submitFleet(gameId, signers.alice, overlapping);
+        await fhevm.awaitDecryptionOracle();
+        expect(await contract.fleetStatus(gameId, signers.alice.address)).to.eq(FleetStatus.None);
+
+        await submitFleet(gameId, signers.alice);
+        await fhevm.awaitDecryptionOracle();
+        expect(await contract.fleetStatus(gameId, signers.alice.address)).to.eq(FleetStatus.Accepted);
+      });
+
+      it("rejects ships off the board or of the wrong length", async function () {
+        const gameId = await createMatch();
+        await submitFleet(gameId, signers.alice, [FLEET[0], { ...FLEET[1], x: BOARD_SIZE - 1 }]);
+        await submitFleet(gameId, signers.bob, [FLEET[0], { ...FLEET[1], length: 3 }]);
+        await fhevm.awaitDecryptionOracle();
+
+        expect(await contract.fleetStatus(gameId, signers.alice.address)).to.eq(FleetStatus.None);
+        expect(await contract.fleetStatus(gameId, signers.bob.address)).to.eq(FleetStatus.None);
+        expect((await contract.getGame(gameId)).status).to.eq(GameStatus.Placing);
+      });
+    });
+
+    describe("moves", function () {
+      it("enforces alternating turns", async function () {
+        const gameId = await startMatch();
+        await expect(fire(gameId, signers.bob, 0, 0)).to.be.revertedWithCustomError(contract, "NotYourTurn");
+        await fire(gameId, signers.alice, 0, 0);
+        await expect(fire(gameId, signers.alice, 0, 1)).to.be.revertedWithCustomError(contract, "NotYourTurn");
+        await expect(fire(gameId, signers.carol, 0, 1)).to.be.revertedWithCustomError(contract, "NotParticipant");
+      });
+
+      it("lets the attacker decrypt the outcome and the defender the target", async function () {
+        const gameId = await startMatch();
+        const { batchId, moveIndex, outcome } = await eventArgs(
+          await fire(gameId, signers.alice, 0, 1),
+          "MoveSubmitted",
+        );
+        expect(await fhevm.userDecryptEuint(FhevmType.euint8, outcome, contractAddress, signers.alice)).to.eq(
+          Outcome.Hit,
+        );
+
+        const move = await contract.batchMoves(batchId, moveIndex);
+        expect(move.player).to.eq(signers.alice.address);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, move.targetX, contractAddress, signers.bob)).to.eq(0n);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, move.targetY, contractAddress, signers.bob)).to.eq(1n);
+      });
+
+      it("reports a sunk ship and damages it only once per cell", async function () {
+        const gameId = await startMatch();
+        const shots = [
+          [2, 0],
+          [7, 7],
+          [2, 0],
+          [7, 6],
+          [3, 0],
+        ];
+        const outcomes: bigint[] = [];
+        for (const [i, [x, y]] of shots.entries()) {
+          const player = i % 2 === 0 ? signers.alice : signers.bob;
+          const { outcome } = await eventArgs(await fire(gameId, player, x, y), "MoveSubmitted");
+          if (player === signers.alice) {
+            outcomes.push(await fhevm.userDecryptEuint(FhevmType.euint8, outcome, contractAddress, player));
+          }
+        }
+        expect(outcomes).to.deep.eq([Outcome.Hit, Outcome.Hit, Outcome.Sunk]);
+      });
+
+      it("moves off-board shots to the sentinel cell as a miss", async function () {
+        const gameId = await startMatch();
+        const { batchId, moveIndex, outcome } = await eventArgs(
+          await fire(gameId, signers.alice, BOARD_SIZE, 0),
+          "MoveSubmitted",
+        );
+        expect(await fhevm.userDecryptEuint(FhevmType.euint8, outcome, contractAddress, signers.alice)).to.eq(
+          Outcome.Miss,
+        );
+
+        const move = await contract.batchMoves(batchId, moveIndex);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, move.targetX, contractAddress, signers.bob)).to.eq(
+          BigInt(BOARD_SIZE),
+        );
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, move.targetY, contractAddress, signers.bob)).to.eq(
+          BigInt(BOARD_SIZE),
+        );
+      });
+
+      it("takes salvos only in salvo matches", async function () {
+        const gameId = await startMatch({ salvo: true });
+        await expect(fire(gameId, signers.alice, 0, 0)).to.be.revertedWithCustomError(contract, "InvalidSalvo");
+
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, signers.alice.address)
+          .add32(0)
+          .add32(0)
+          .add32(7)
+          .add32(7)
+          .encrypt();
+        const [x0, y0, x1, y1] = encrypted.handles;
+        await expect(contract.connect(signers.alice).submitSalvo(gameId, [x0, x1], [y0, y1], encrypted.inputProof))
+          .to.emit(contract, "SalvoSubmitted")
+          .withArgs(gameId, signers.alice.address, 1n, 2n);
+        expect((await contract.getGame(gameId)).turn).to.eq(1n);
+      });
+
+      it("holds a salvo to one shot per ship left afloat", async function () {
+        const gameId = await startMatch({ salvo: true });
+        const salvo = async (player: HardhatEthersSigner, targets: [number, number][]) => {
+          const input = fhevm.createEncryptedInput(contractAddress, player.address);
+          for (const [x, y] of targets) input.add32(x).add32(y);
+          const encrypted = await input.encrypt();
+          const xs = targets.map((_, i) => encrypted.handles[2 * i]);
+          const ys = targets.map((_, i) => encrypted.handles[2 * i + 1]);
+          return contract.connect(player).submitSalvo(gameId, xs, ys, encrypted.inputProof);
+        };
+
+        await expect(
+          salvo(signers.alice, [
+            [7, 7],
+            [7, 6],
+            [7, 5],
+          ]),
+        ).to.be.revertedWithCustomError(contract, "InvalidSalvo");
+        await salvo(signers.alice, [
+          [7, 7],
+          [7, 6],
+        ]);
+        // Bob sinks Alice's destroyer, which costs her a shot once it's revealed
+        await salvo(signers.bob, [
+          [2, 0],
+          [3, 0],
+        ]);
+        await requestReveal(gameId);
+        await fhevm.awaitDecryptionOracle();
+        expect((await contract.tallies(gameId, signers.bob.address)).sunk).to.eq(1n);
+
+        await expect(
+          salvo(signers.alice, [
+            [6, 7],
+            [6, 6],
+          ]),
+        ).to.be.revertedWithCustomError(contract, "InvalidSalvo");
+        await expect(salvo(signers.alice, [[6, 7]])).to.emit(contract, "SalvoSubmitted");
+      });
+    });
+
+    describe("batches", function () {
+      it("opens the first batch when the match starts", async function () {
+        const gameId = await startMatch();
+        const game = await contract.getGame(gameId);
+        expect(game.batchOpen).to.eq(true);
+        expect(game.batchId).to.eq(1n);
+        expect(await contract.batchGame(1n)).to.eq(gameId);
+      });
+
+      it("lets only providers close and reopen move intake", async function () {
+        const gameId = await startMatch();
+        await expect(contract.connect(signers.alice).closeBatch(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NotProvider",
+        );
+        await expect(contract.openBatch(gameId)).to.be.revertedWithCustomError(contract, "BatchAlreadyOpen");
+
+        await expect(contract.closeBatch(gameId)).to.emit(contract, "BatchClosed").withArgs(gameId, 1n);
+        await expect(fire(gameId, signers.alice, 0, 0)).to.be.revertedWithCustomError(contract, "BatchNotOpen");
+        await expect(contract.closeBatch(gameId)).to.be.revertedWithCustomError(contract, "BatchNotOpen");
+
+        await expect(contract.openBatch(gameId)).to.emit(contract, "BatchOpened").withArgs(gameId, 2n);
+        await expect(fire(gameId, signers.alice, 0, 0)).to.emit(contract, "MoveSubmitted");
+      });
+
+      it("moves later moves to a fresh batch once a reveal is requested", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        await expect(contract.connect(signers.alice).requestBatchDecryption(gameId))
+          .to.emit(contract, "BatchClosed")
+          .withArgs(gameId, 1n)
+          .and.to.emit(contract, "BatchOpened")
+          .withArgs(gameId, 2n);
+
+        const { batchId } = await eventArgs(await fire(gameId, signers.bob, 7, 7), "MoveSubmitted");
+        expect(batchId).to.eq(2n);
+      });
+    });
+
+    describe("decryption", function () {
+      it("reveals a batch through the oracle callback", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        await fire(gameId, signers.bob, 7, 7);
+        const requestId = await requestReveal(gameId, signers.bob);
+        await fhevm.awaitDecryptionOracle();
+
+        const context = await contract.decryptionContexts(requestId);
+        expect(context.batchId).to.eq(1n);
+        expect(context.processed).to.eq(true);
+
+        const alice = await contract.tallies(gameId, signers.alice.address);
+        const bob = await contract.tallies(gameId, signers.bob.address);
+        expect([alice.shots, alice.hits, alice.sunk]).to.deep.eq([1n, 1n, 0n]);
+        expect([bob.shots, bob.hits, bob.sunk]).to.deep.eq([1n, 0n, 0n]);
+
+        const resolved = await contract.queryFilter(contract.filters.MoveResolved(gameId));
+        expect(resolved.map((e) => [e.args.player, e.args.targetX, e.args.targetY, e.args.outcome])).to.deep.eq([
+          [signers.alice.address, 0n, 0n, Outcome.Hit],
+          [signers.bob.address, 7n, 7n, Outcome.Miss],
+        ]);
+      });
+
+      it("finishes the match when a revealed batch sinks the last ship", async function () {
+        const gameId = await startMatch({
+          fleetCounts: [0, 0, 1, 0, 0],
+          fleet: [FLEET[1]],
+        });
+        await fire(gameId, signers.alice, 2, 0);
+        await fire(gameId, signers.bob, 7, 7);
+        await fire(gameId, signers.alice, 3, 0);
+        await requestReveal(gameId);
+        await fhevm.awaitDecryptionOracle();
+
+        const game = await contract.getGame(gameId);
+        expect(game.status).to.eq(GameStatus.Finished);
+        expect(game.winner).to.eq(signers.alice.address);
+        expect(game.batchOpen).to.eq(false);
+      });
+
+      it("seals a hash of the moves revealed before the match finished", async function () {
+        const gameId = await startMatch({ fleetCounts: [0, 0, 1, 0, 0], fleet: [FLEET[1]] });
+        await fire(gameId, signers.alice, 2, 0);
+        await fire(gameId, signers.bob, 7, 7);
+        await fire(gameId, signers.alice, 3, 0);
+        // Resolves after the sinking shot, so it isn't logged
+        await fire(gameId, signers.bob, 6, 6);
+        await requestReveal(gameId);
+        await fhevm.awaitDecryptionOracle();
+
+        const coder = ethers.AbiCoder.defaultAbiCoder();
+        const logged: [string, number, number, bigint][] = [
+          [signers.alice.address, 2, 0, Outcome.Hit],
+          [signers.bob.address, 7, 7, Outcome.Miss],
+          [signers.alice.address, 3, 0, Outcome.Sunk],
+        ];
+        const hash = logged.reduce(
+          (previous, move) =>
+            ethers.keccak256(coder.encode(["bytes32", "address", "uint32", "uint32", "uint8"], [previous, ...move])),
+          ethers.ZeroHash,
+        );
+        const log = await contract.moveLogs(gameId);
+        expect(log.hash).to.eq(hash);
+        expect(log.moves).to.eq(3n);
+        expect(log.sealedAt).to.be.gt(0n);
+
+        const [sealed] = await contract.queryFilter(contract.filters.MoveLogSealed(gameId));
+        expect([sealed.args.moveLogHash, sealed.args.moves, sealed.args.sealedAt]).to.deep.eq([hash, 3n, log.sealedAt]);
+      });
+
+      it("limits requests to participants and providers with moves pending", async function () {
+        const gameId = await startMatch();
+        await expect(contract.connect(signers.alice).requestBatchDecryption(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NoMovesToDecrypt",
+        );
+        await fire(gameId, signers.alice, 0, 0);
+        await expect(contract.connect(signers.carol).requestBatchDecryption(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NotParticipant",
+        );
+        await expect(contract.requestBatchDecryption(gameId)).to.emit(contract, "DecryptionRequested");
+      });
+
+      it("reveals each batch only once", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        // With intake closed the request can't move the game on to a fresh batch
+        await contract.closeBatch(gameId);
+        await requestReveal(gameId);
+        await fhevm.awaitDecryptionOracle();
+        const before = await contract.tallies(gameId, signers.alice.address);
+        const log = await contract.moveLogs(gameId);
+
+        await expect(contract.connect(signers.alice).requestBatchDecryption(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "BatchAlreadyRequested",
+        );
+        await expect(contract.requestBatchDecryption(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "BatchAlreadyRequested",
+        );
+        const after = await contract.tallies(gameId, signers.alice.address);
+        expect([after.shots, after.hits, after.sunk]).to.deep.eq([before.shots, before.hits, before.sunk]);
+        expect([after.shots, after.hits]).to.deep.eq([1n, 1n]);
+        expect((await contract.moveLogs(gameId)).hash).to.eq(log.hash);
+        expect(await contract.batchResolved(1n)).to.eq(true);
+      });
+
+      it("rejects a replayed callback", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        const requestId = await requestReveal(gameId);
+        await fhevm.awaitDecryptionOracle();
+
+        await expect(contract.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+          contract,
+          "ReplayDetected",
+        );
+      });
+
+      it("rejects a callback for a request it never made", async function () {
+        await expect(contract.myCallback(999n, "0x", "0x")).to.be.revertedWithCustomError(contract, "StateMismatch");
+      });
+
+      it("rejects cleartexts that don't cover the batch", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        const requestId = await requestReveal(gameId);
+
+        // One move decrypts to three words; two can't be a valid answer
+        const truncated = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [0, 0]);
+        await expect(contract.myCallback(requestId, truncated, "0x")).to.be.revertedWithCustomError(
+          contract,
+          "InvalidProof",
+        );
+      });
+
+      it("rejects cleartexts the KMS didn't sign", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        const requestId = await requestReveal(gameId);
+
+        const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32", "uint8"], [7, 7, 0]);
+        // The KMS verifier itself turns down the empty proof
+        await expect(contract.myCallback(requestId, forged, "0x")).to.be.reverted;
+        expect((await contract.decryptionContexts(requestId)).processed).to.eq(false);
+      });
+    });
+
+    describe("timeouts", function () {
+      it("awards the match to the player left waiting past the deadline", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "DeadlineNotReached",
+        );
+
+        await time.increase(await contract.turnTimeoutSeconds());
+        await expect(contract.connect(signers.bob).claimTimeoutVictory(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NothingToClaim",
+        );
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId))
+          .to.emit(contract, "TimeoutClaimed")
+          .withArgs(gameId, signers.alice.address, signers.bob.address)
+          .and.to.emit(contract, "GameFinished")
+          .withArgs(gameId, signers.alice.address);
+      });
+
+      it("stops the turn clock while move intake is closed", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        const timeout = await contract.turnTimeoutSeconds();
+        await time.increase(timeout / 2n);
+        await contract.closeBatch(gameId);
+
+        await time.increase(timeout);
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "BatchNotOpen",
+        );
+        // Bob gets back the half of his turn he had left
+        await contract.openBatch(gameId);
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "DeadlineNotReached",
+        );
+        expect((await contract.getGame(gameId)).turnDeadline).to.be.gt(BigInt(await time.latest()) + timeout / 4n);
+
+        await time.increase(timeout / 2n);
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId)).to.emit(contract, "TimeoutClaimed");
+      });
+
+      it("stops the turn clock while the contract is paused", async function () {
+        const gameId = await startMatch();
+        await fire(gameId, signers.alice, 0, 0);
+        const timeout = await contract.turnTimeoutSeconds();
+        await time.increase(timeout / 2n);
+        await contract.setPaused(true);
+
+        await time.increase(timeout);
+        await contract.setPaused(false);
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "DeadlineNotReached",
+        );
+        expect((await contract.getGame(gameId)).turnDeadline).to.be.gt(BigInt(await time.latest()) + timeout / 4n);
+
+        await time.increase(timeout / 2n);
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId)).to.emit(contract, "TimeoutClaimed");
+      });
+
+      it("awards the match to the only player with an accepted fleet", async function () {
+        const gameId = await createMatch();
+        await submitFleet(gameId, signers.alice);
+        await fhevm.awaitDecryptionOracle();
+
+        await time.increase(await contract.turnTimeoutSeconds());
+        await expect(contract.connect(signers.bob).claimTimeoutVictory(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NothingToClaim",
+        );
+        await contract.connect(signers.alice).claimTimeoutVictory(gameId);
+        expect((await contract.getGame(gameId)).winner).to.eq(signers.alice.address);
+      });
+    });
+
+    describe("stakes", function () {
+      const STAKE = ethers.parseEther("1");
+
+      async function deployToken() {
+        const token = (await (await ethers.getContractFactory("TestToken")).deploy()) as TestToken;
+        for (const player of [signers.alice, signers.bob]) {
+          await token.mint(player.address, STAKE);
+          await token.connect(player).approve(contractAddress, STAKE);
+        }
+        return token;
+      }
+
+      it("holds a matched ETH stake from each player", async function () {
+        await expect(
+          contract.connect(signers.alice).createGame(BOARD_SIZE, FLEET_COUNTS, false, ethers.ZeroAddress, STAKE),
+        ).to.be.revertedWithCustomError(contract, "InvalidStake");
+        await expect(
+          contract
+            .connect(signers.alice)
+            .createGame(BOARD_SIZE, FLEET_COUNTS, false, ethers.ZeroAddress, STAKE, { value: STAKE }),
+        ).to.changeEtherBalances([signers.alice, contract], [-STAKE, STAKE]);
+        const gameId = await contract.gameCount();
+
+        await expect(
+          contract.connect(signers.bob).joinGame(gameId, { value: STAKE / 2n }),
+        ).to.be.revertedWithCustomError(contract, "InvalidStake");
+        await expect(contract.connect(signers.bob).joinGame(gameId, { value: STAKE }))
+          .to.emit(contract, "StakeDeposited")
+          .withArgs(gameId, signers.bob.address, ethers.ZeroAddress, STAKE);
+        const game = await contract.getGame(gameId);
+        expect(game.stakeToken).to.eq(ethers.ZeroAddress);
+        expect(game.stake).to.eq(STAKE);
+      });
+
+      it("pays both stakes to the player who sinks the last ship", async function () {
+        const gameId = await startMatch({
+          fleetCounts: [0, 0, 1, 0, 0],
+          fleet: [FLEET[1]],
+          stake: STAKE,
+        });
+        await fire(gameId, signers.alice, 2, 0);
+        await fire(gameId, signers.bob, 7, 7);
+        await fire(gameId, signers.alice, 3, 0);
+        await requestReveal(gameId);
+
+        const before = await ethers.provider.getBalance(signers.alice.address);
+        await fhevm.awaitDecryptionOracle();
+        expect((await ethers.provider.getBalance(signers.alice.address)) - before).to.eq(2n * STAKE);
+        expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+        const paid = await contract.queryFilter(contract.filters.StakePaid(gameId));
+        expect(paid.map((e) => [e.args.recipient, e.args.amount])).to.deep.eq([[signers.alice.address, 2n * STAKE]]);
+      });
+
+      it("forfeits the stake of a player who times out", async function () {
+        const gameId = await startMatch({ stake: STAKE });
+        await fire(gameId, signers.alice, 0, 0);
+        await time.increase(await contract.turnTimeoutSeconds());
+        const claim = contract.connect(signers.alice).claimTimeoutVictory(gameId);
+        await expect(claim).to.changeEtherBalance(contract, -2n * STAKE);
+        await expect(claim)
+          .to.emit(contract, "StakePaid")
+          .withArgs(gameId, signers.alice.address, ethers.ZeroAddress, 2n * STAKE);
+      });
+
+      it("refunds the creator of a match nobody joined", async function () {
+        await contract
+          .connect(signers.alice)
+          .createGame(BOARD_SIZE, FLEET_COUNTS, false, ethers.ZeroAddress, STAKE, { value: STAKE });
+        const gameId = await contract.gameCount();
+        await expect(contract.connect(signers.bob).cancelGame(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NotParticipant",
+        );
+        const cancel = contract.connect(signers.alice).cancelGame(gameId);
+        await expect(cancel).to.changeEtherBalances([signers.alice, contract], [STAKE, -STAKE]);
+        await expect(cancel).to.emit(contract, "GameFinished").withArgs(gameId, ethers.ZeroAddress);
+        await expect(contract.connect(signers.bob).joinGame(gameId, { value: STAKE })).to.be.revertedWithCustomError(
+          contract,
+          "InvalidGameStatus",
+        );
+      });
+
+      it("refunds both stakes as a draw when neither fleet is placed in time", async function () {
+        const gameId = await createMatch({ stake: STAKE });
+        await expect(contract.connect(signers.bob).abandonGame(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "DeadlineNotReached",
+        );
+
+        await time.increase(await contract.turnTimeoutSeconds());
+        await expect(contract.connect(signers.bob).abandonGame(gameId)).to.changeEtherBalances(
+          [signers.alice, signers.bob, contract],
+          [STAKE, STAKE, -2n * STAKE],
+        );
+        const game = await contract.getGame(gameId);
+        expect(game.status).to.eq(GameStatus.Finished);
+        expect(game.winner).to.eq(ethers.ZeroAddress);
+      });
+
+      it("leaves placement draws to matches where nobody has an accepted fleet", async function () {
+        const gameId = await createMatch({ stake: STAKE });
+        await submitFleet(gameId, signers.alice);
+        await fhevm.awaitDecryptionOracle();
+        await time.increase(await contract.turnTimeoutSeconds());
+        await expect(contract.connect(signers.bob).abandonGame(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "NothingToClaim",
+        );
+      });
+
+      it("takes only allow-listed tokens and pays out in the token", async function () {
+        const token = await deployToken();
+        const tokenAddress = await token.getAddress();
+        await expect(
+          contract.connect(signers.alice).createGame(BOARD_SIZE, FLEET_COUNTS, false, tokenAddress, STAKE),
+        ).to.be.revertedWithCustomError(contract, "TokenNotAllowed");
+        await expect(contract.connect(signers.alice).setStakeToken(tokenAddress, true)).to.be.revertedWithCustomError(
+          contract,
+          "NotOwner",
+        );
+        await expect(contract.setStakeToken(tokenAddress, true))
+          .to.emit(contract, "StakeTokenSet")
+          .withArgs(tokenAddress, true);
+        await expect(
+          contract.connect(signers.alice).createGame(BOARD_SIZE, FLEET_COUNTS, false, tokenAddress, STAKE, {
+            value: STAKE,
+          }),
+        ).to.be.revertedWithCustomError(contract, "InvalidStake");
+
+        const gameId = await startMatch({ stake: STAKE, token });
+        expect(await token.balanceOf(contractAddress)).to.eq(2n * STAKE);
+        await fire(gameId, signers.alice, 0, 0);
+        await time.increase(await contract.turnTimeoutSeconds());
+        await expect(contract.connect(signers.alice).claimTimeoutVictory(gameId))
+          .to.emit(contract, "StakePaid")
+          .withArgs(gameId, signers.alice.address, tokenAddress, 2n * STAKE);
+        expect(await token.balanceOf(signers.alice.address)).to.eq(2n * STAKE);
+        expect(await token.balanceOf(signers.bob.address)).to.eq(0n);
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { GameRecords, GameRecords__factory } from "../types";
+
+const record = (text: string) => ethers.toUtf8Bytes(text);
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("GameRecords")) as GameRecords__factory;
+  const contract = (await factory.deploy()) as GameRecords;
+  return { contract };
+}
+
+describe("GameRecords", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: GameRecords;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ contract } = await deployFixture());
+  });
+
+  it("appends records at increasing indexes", async function () {
+    await expect(contract.connect(alice).appendRecord(record("first")))
+      .to.emit(contract, "RecordAppended")
+      .withArgs(0n, alice.address, ethers.hexlify(record("first")));
+    await expect(contract.connect(bob).appendRecord(record("second")))
+      .to.emit(contract, "RecordAppended")
+      .withArgs(1n, bob.address, ethers.hexlify(record("second")));
+
+    expect(await contract.recordCount()).to.eq(2n);
+    const stored = await contract.getRecord(1);
+    expect(stored.author).to.eq(bob.address);
+    expect(ethers.toUtf8String(stored.data)).to.eq("second");
+    await expect(contract.getRecord(2)).to.be.revertedWithCustomError(contract, "RecordNotFound");
+  });
+
+  it("rejects empty and oversized records", async function () {
+    await expect(contract.appendRecord("0x")).to.be.revertedWithCustomError(contract, "EmptyRecord");
+    const limit = Number(await contract.MAX_RECORD_BYTES());
+    await expect(contract.appendRecord(new Uint8Array(limit + 1))).to.be.revertedWithCustomError(
+      contract,
+      "RecordTooLarge",
+    );
+    await expect(contract.appendRecord(new Uint8Array(limit))).to.emit(contract, "RecordAppended");
+  });
+
+  it("pages newest first, unshifted by later appends", async function () {
+    for (let i = 0; i < 5; i++) await contract.connect(alice).appendRecord(record(`game ${i}`));
+
+    const [firstIndexes, firstPage] = await contract.getRecords(await contract.recordCount(), 2);
+    expect(firstIndexes).to.deep.eq([4n, 3n]);
+    expect(firstPage.map((r) => ethers.toUtf8String(r.data))).to.deep.eq(["game 4", "game 3"]);
+
+    await contract.connect(bob).appendRecord(record("game 5"));
+    const [nextIndexes] = await contract.getRecords(firstIndexes[1], 2);
+    expect(nextIndexes).to.deep.eq([2n, 1n]);
+    const [lastIndexes] = await contract.getRecords(nextIndexes[1], 2);
+    expect(lastIndexes).to.deep.eq([0n]);
+    const [noIndexes] = await contract.getRecords(0, 2);
+    expect(noIndexes).to.deep.eq([]);
+
+    // Past the end reads from the newest record
+    const [clamped] = await contract.getRecords(100, 1);
+    expect(clamped).to.deep.eq([5n]);
+  });
+
+  it("bounds the page size", async function () {
+    await expect(contract.getRecords(0, 0)).to.be.revertedWithCustomError(contract, "InvalidPageSize");
+    const max = await contract.MAX_PAGE_SIZE();
+    await expect(contract.getRecords(0, max + 1n)).to.be.revertedWithCustomError(contract, "InvalidPageSize");
+  });
+});
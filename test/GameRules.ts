@@ -0,0 +1,40 @@
+import { expect } from "chai";
+
+import { activateAbility } from "../frontend/web/src/game/abilities";
+import { findPreset } from "../frontend/web/src/game/presets";
+import { attack, createGame, fogOfWar, placeShip, resolveShot } from "../frontend/web/src/game/rules";
+import { GameState, Ocean } from "../frontend/web/src/game/types";
+
+// Each ship on a row of its own, from the left edge
+function placeFleet(ocean: Ocean): Ocean {
+  return ocean.ships.reduce((placed, ship, row) => placeShip(placed, ship.id, { x: row, y: 0 }, "horizontal"), ocean);
+}
+
+function startGame(): GameState {
+  const game = createGame(findPreset("plus")!);
+  return { ...game, player: placeFleet(game.player), enemy: placeFleet(game.enemy) };
+}
+
+describe("game rules", function () {
+  describe("Stealth", function () {
+    it("reports hits as misses only for the turn it covers", async function () {
+      const game = startGame();
+      const submarine = game.player.ships.find((ship) => ship.ability === "Stealth")!;
+      const stealthed = activateAbility(game, "player", submarine.id).state;
+      expect(stealthed.player.stealthed).to.eq(true);
+      expect(fogOfWar(resolveShot(stealthed.player, "enemy", { x: 0, y: 0 }).ocean)[0][0]).to.eq("miss");
+
+      const masked = attack(stealthed, "enemy", { x: 0, y: 0 });
+      expect(masked.result.outcome).to.eq("hit");
+      expect(masked.result.masked).to.eq(true);
+
+      // The turn after Stealth: the hit shows, and the ship can be hunted down
+      expect(masked.state.player.stealthed).to.eq(false);
+      expect(fogOfWar(masked.state.player)[0][0]).to.eq("hit");
+      const next = attack(masked.state, "player", { x: 7, y: 7 });
+      const followUp = attack(next.state, "enemy", { x: 0, y: 1 });
+      expect(followUp.result.masked).to.eq(false);
+      expect(fogOfWar(followUp.state.player)[0].slice(0, 2)).to.deep.eq(["hit", "hit"]);
+    });
+  });
+});
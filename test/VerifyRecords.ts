@@ -0,0 +1,66 @@
+/// <reference lib="dom" />
+/// <reference path="../frontend/web/src/type/window.d.ts" />
+// records.ts is browser code; these cover the globals of the modules it pulls in
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { TypedDataDomain } from "ethers";
+import { ethers } from "hardhat";
+
+import type { EventIndexer } from "../frontend/web/src/indexer";
+import { GameResult, LoggedRecord, recordDomain, signGameResult, verifyRecords } from "../frontend/web/src/records";
+
+type Details = { shots: number };
+
+// An index without game events, so only co-signatures can back a result
+const noEvents = { gameEvents: async () => [] } as unknown as EventIndexer;
+
+describe("verifyRecords", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let mallory: HardhatEthersSigner;
+  let domain: TypedDataDomain;
+  let result: GameResult;
+
+  before(async function () {
+    [, alice, bob, mallory] = await ethers.getSigners();
+    domain = recordDomain((await ethers.provider.getNetwork()).chainId);
+    result = {
+      players: [alice.address, bob.address],
+      winner: alice.address,
+      moves: 12,
+      rulesPreset: "plus",
+      moveLogHash: ethers.id("moves"),
+      matchId: 1n,
+      timestamp: 1_700_000_000,
+    };
+  });
+
+  async function file(signer: HardhatEthersSigner, details: Details, author = signer): Promise<LoggedRecord<Details>> {
+    return { result, signature: await signGameResult(signer, domain, result), details, author: author.address };
+  }
+
+  it("merges the copies each player filed", async function () {
+    const [record] = await verifyRecords(
+      [await file(alice, { shots: 10 }), await file(bob, { shots: 11 })],
+      domain,
+      noEvents,
+    );
+    expect(record.verification).to.eq("co-signed");
+    expect(record.signers).to.deep.eq([alice.address, bob.address]);
+    expect(record.signedDetails).to.deep.eq([{ shots: 10 }, { shots: 11 }]);
+  });
+
+  it("ignores a signature replayed by someone else with other details", async function () {
+    const genuine = await file(alice, { shots: 10 });
+    const replayed = { ...genuine, details: { shots: 1 }, author: mallory.address };
+    // Newest first, as the log is read
+    const [record] = await verifyRecords([replayed, await file(bob, { shots: 11 }), genuine], domain, noEvents);
+    expect(record.details).to.deep.eq({ shots: 10 });
+    expect(record.signedDetails).to.deep.eq([{ shots: 11 }, { shots: 10 }]);
+
+    const [alone] = await verifyRecords([replayed, await file(bob, { shots: 11 })], domain, noEvents);
+    expect(alone.signers).to.deep.eq([bob.address]);
+    expect(alone.verification).to.eq("unverified");
+    expect(alone.signedDetails).to.deep.eq([{ shots: 11 }]);
+  });
+});
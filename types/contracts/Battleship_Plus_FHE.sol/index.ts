@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { BattleshipPlusFHE } from "./BattleshipPlusFHE";
+export type { IERC20 } from "./IERC20";
@@ -1,4 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as battleshipPlusFheSol from "./Battleship_Plus_FHE.sol";
+export type { battleshipPlusFheSol };
+import type * as test from "./test";
+export type { test };
+export type { GameRecords } from "./GameRecords";
@@ -1,142 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../common";
-import type {
-  UniversalAdapter,
-  UniversalAdapterInterface,
-} from "../UniversalAdapter";
-
-const _abi = [
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "string",
-        name: "key",
-        type: "string",
-      },
-      {
-        indexed: false,
-        internalType: "bytes",
-        name: "value",
-        type: "bytes",
-      },
-    ],
-    name: "DataStored",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "key",
-        type: "string",
-      },
-    ],
-    name: "getData",
-    outputs: [
-      {
-        internalType: "bytes",
-        name: "",
-        type: "bytes",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "isAvailable",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "key",
-        type: "string",
-      },
-      {
-        internalType: "bytes",
-        name: "value",
-        type: "bytes",
-      },
-    ],
-    name: "setData",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x6080806040523461001657610468908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a257508063856c71dd146101875763ae55c88814610040575f80fd5b3461018357602091826003193601126101835780359067ffffffffffffffff8211610183576100719136910161039f565b61009284845183819483830196873781015f838201520380845201826103cd565b5190205f525f8252805f2082825180925f9080546100af81610403565b808552916001918083169081156101605750600114610122575b5050506100db925094929403846103cd565b815192818492835281519182828501525f5b83811061010c5750505f83830185015250601f01601f19168101030190f35b81810183015187820187015286945082016100ed565b5f90815285812095935091905b8183106101485750879450508201016100db5f806100c9565b8554878401850152948501948694509183019161012f565b925050506100db94925060ff191682840152151560051b82010185925f806100c9565b5f80fd5b5034610183575f366003190112610183576020905160018152f35b83833461018357806003193601126101835767ffffffffffffffff908235828111610183576101d4903690850161039f565b9290602435828111610183576101ed903690870161039f565b92909560209788810190878583376102138a828a81015f838201520380845201826103cd565b5190205f525f8852845f2091841161038c57506102308154610403565b601f8111610349575b505f601f84116001146102bd577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578296979284926102ad9561029e935f916102b2575b508460011b905f198660031b1c19161790555b855196868897885287019161043b565b9184830390850152339661043b565b0390a2005b90508a01358b61027b565b601f19841690825f52885f20915f5b81811061033257509261029e927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102ad989610610319575b5050600184811b01905561028e565b8b01355f19600387901b60f8161c191690558a8061030a565b91928a60018192868d0135815501940192016102cc565b815f52875f20601f850160051c810191898610610382575b601f0160051c01905b8181106103775750610239565b5f815560010161036a565b9091508190610361565b604190634e487b7160e01b5f525260245ffd5b9181601f840112156101835782359167ffffffffffffffff8311610183576020838186019501011161018357565b90601f8019910116810190811067ffffffffffffffff8211176103ef57604052565b634e487b7160e01b5f52604160045260245ffd5b90600182811c92168015610431575b602083101461041d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610412565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
-
-type UniversalAdapterConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: UniversalAdapterConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class UniversalAdapter__factory extends ContractFactory {
-  constructor(...args: UniversalAdapterConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      UniversalAdapter & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): UniversalAdapter__factory {
-    return super.connect(runner) as UniversalAdapter__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): UniversalAdapterInterface {
-    return new Interface(_abi) as UniversalAdapterInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): UniversalAdapter {
-    return new Contract(address, _abi, runner) as unknown as UniversalAdapter;
-  }
-}
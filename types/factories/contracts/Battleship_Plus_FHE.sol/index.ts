@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { BattleshipPlusFHE__factory } from "./BattleshipPlusFHE__factory";
+export { IERC20__factory } from "./IERC20__factory";
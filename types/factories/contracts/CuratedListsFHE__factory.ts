@@ -1,474 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../common";
-import type {
-  CuratedListsFHE,
-  CuratedListsFHEInterface,
-} from "../../contracts/CuratedListsFHE";
-
-const _abi = [
-  {
-    inputs: [],
-    name: "HandlesAlreadySavedForRequestID",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "InvalidKMSSignatures",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "NoHandleFoundForRequestID",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "requestID",
-        type: "uint256",
-      },
-    ],
-    name: "DecryptionFulfilled",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "id",
-        type: "uint256",
-      },
-    ],
-    name: "EncryptedListCreated",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "who",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "amount",
-        type: "uint256",
-      },
-    ],
-    name: "RewardClaimed",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "decryptedCount",
-        type: "uint256",
-      },
-    ],
-    name: "TallyDecrypted",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "requestId",
-        type: "uint256",
-      },
-    ],
-    name: "TallyRequested",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "voter",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "stake",
-        type: "uint256",
-      },
-    ],
-    name: "VotedWithStake",
-    type: "event",
-  },
-  {
-    inputs: [],
-    name: "claimRewards",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "euint32",
-        name: "encryptedTitle",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedItems",
-        type: "bytes32",
-      },
-    ],
-    name: "createEncryptedList",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "encryptedLists",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "id",
-        type: "uint256",
-      },
-      {
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedTitle",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedItems",
-        type: "bytes32",
-      },
-      {
-        internalType: "uint256",
-        name: "createdAt",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-    ],
-    name: "getEncryptedTally",
-    outputs: [
-      {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-    ],
-    name: "getList",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "id",
-        type: "uint256",
-      },
-      {
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedTitle",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedItems",
-        type: "bytes32",
-      },
-      {
-        internalType: "uint256",
-        name: "createdAt",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "listCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "requestId",
-        type: "uint256",
-      },
-      {
-        internalType: "bytes",
-        name: "cleartexts",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
-      },
-    ],
-    name: "onTallyDecrypted",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "protocolId",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-    ],
-    name: "requestTallyDecryption",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    name: "rewards",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "_treasury",
-        type: "address",
-      },
-    ],
-    name: "setTreasury",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedVote",
-        type: "bytes32",
-      },
-    ],
-    name: "stakeAndVote",
-    outputs: [],
-    stateMutability: "payable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "stakes",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "treasury",
-    outputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "listId",
-        type: "uint256",
-      },
-    ],
-    name: "withdrawStake",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x608060405234610154575f6060610014610158565b828152826020820152826040820152015261002d610158565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055604051610fa5908161018c8239f35b5f80fd5b60405190608082016001600160401b0381118382101761017757604052565b634e487b7160e01b5f52604160045260245ffdfe60406080815260049081361015610014575f80fd5b5f905f3560e01c806302ce865c146109b05780630700037d146109795780631ab5b383146107d85780631b68d10d1461095c57806325d5971f146108db578063372500ab1461083f5780633b79a7e4146107d8578063584b62a11461079857806361d027b3146107705780637445917e1461074857806397e1c26b14610575578063da1f12ab14610559578063f0f442601461051b578063f1757707146103ff5763fd55c482146100c3575f80fd5b3461039e5760208060031936011261039e57833591821515806103f4575b6100ea90610e4a565b825f5260038252805f20549081156103c857805167ffffffffffffffff818301818111838210176103b55783526001906001835285830194863687378351156103a25785527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009283549560018060a01b03807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561039e578751637d6e912360e11b8152808e018b9052905f9082908183816101ad602482018b610ea1565b03925af1801561039457610381575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561037d578651633263b83b60e01b8152808d0189905260606024820152908b908290818381610215606482018a610ea1565b62b3a19760e21b604483015203925af1801561037357908b9161035b575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952868b205461034b57878b528852858a20915192831161033857680100000000000000008311610338578154838355808410610311575b50908952868920895b83811061030057505050505080545f1981146102ed579060017f67401e164d58e19a8b59b4854c8d70da760e63dd35bdc849c3952dfd6ee712a7969798920190558287528352848187205551908152a280f35b634e487b7160e01b875260118852602487fd5b82518282015591880191840161029a565b828b5284848a8d2092830192015b82811061032d575050610291565b8c815501859061031f565b634e487b7160e01b8a5260418b5260248afd5b8651633f06d22b60e01b81528c90fd5b61036490610d66565b61036f57895f610233565b8980fd5b87513d8d823e3d90fd5b8a80fd5b61038c919b50610d66565b5f995f6101bc565b88513d5f823e3d90fd5b5f80fd5b60328a634e487b7160e01b5f525260245ffd5b604189634e487b7160e01b5f525260245ffd5b5162461bcd60e51b815280860183905260076024820152661b9bdd1a5b9a5d60ca1b6044820152606490fd5b505f548311156100e1565b83823461039e578060031936011261039e575f54916001830180931161050857825f5581519060a0820182811067ffffffffffffffff8211176104f55783528382526020820133815283830182358152606084019060243582526080850192428452875f526002602052865f2095518655600186019060018060a01b039051166bffffffffffffffffffffffff60a01b825416179055516002850155516003840155519101556003602052805f2054156104db575b507f07333a9c9eaa8444560461e9b6a7295f70328d9b4f6d666c895ccd9610fd7eb85f80a2005b6104e3610ef9565b90825f5260036020525f2055816104b4565b604182634e487b7160e01b5f525260245ffd5b601190634e487b7160e01b5f525260245ffd5b3461039e57602036600319011261039e576001600160a01b0361053c610e06565b166bffffffffffffffffffffffff60a01b60015416176001555f80f35b503461039e575f36600319011261039e57602090516127118152f35b50828160031936011261039e5780359160243590341561071f5783151580610714575b6105a190610e4a565b335f526020809360058252825f20865f528252825f206105c2348254610e3d565b9055855f5260038252825f20549081155f14610613575050507fe3269592f47526e8cedfef28cdf6b36173999f94b4db14b7a0f20949122e759891845f5260038452815f20555b51913483523392a3005b8415610700575b6064905f60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154168651978895869463022f65e760e31b865285015260248401528160448401525af180156106f6575f906106a9575b7fe3269592f47526e8cedfef28cdf6b36173999f94b4db14b7a0f20949122e75989250845f5260038452815f2055610609565b508282813d83116106ef575b6106bf8183610d8e565b8101031261039e577fe3269592f47526e8cedfef28cdf6b36173999f94b4db14b7a0f20949122e75989151610676565b503d6106b5565b50513d5f823e3d90fd5b9350606461070c610ef9565b94905061061a565b505f54841115610598565b5162461bcd60e51b815260208184015260248101839052637a65726f60e01b6044820152606490fd5b83823461039e57602036600319011261039e57602091355f5260038252805f20549051908152f35b503461039e575f36600319011261039e5760015490516001600160a01b039091168152602090f35b503461039e578060031936011261039e576020906001600160a01b036107bc610e06565b165f5260058252805f206024355f528252805f20549051908152f35b83823461039e57602036600319011261039e5781355f908152600260208181529183902080546001820154928201546003830154929096015494519081526001600160a01b039092169282019290925260408101939093526060830152608082015260a090f35b83823461039e575f36600319011261039e57335f526006602052805f20549182156108b45750335f5260066020525f818120555f808080853382f1156108ab57519081527f106f923f993c2149d49b4255ff723acafa1f2d94393f561d3eda32ae348f724160203392a2005b513d5f823e3d90fd5b6020606492519162461bcd60e51b835282015260026024820152616e6f60f01b6044820152fd5b50823461039e5760208060031936011261039e57813590335f5260058152835f20825f528152835f205492831561093157505f809381938293338452600581528784209184525281868120553382f1156108ab57005b60649185519162461bcd60e51b835282015260076024820152666e6f7374616b6560c81b6044820152fd5b503461039e575f36600319011261039e576020905f549051908152f35b503461039e57602036600319011261039e576020906001600160a01b0361099e610e06565b165f5260068252805f20549051908152f35b50823461039e5760031960603682011261039e5781359160249384359267ffffffffffffffff9384811161039e576109eb9036908501610db0565b9360443590811161039e57610a039036908501610db0565b90855f52602094848652835f2054968715610d3b57805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852855f205415610d2b57815f528752845f20855180828a8294549384815201905f528a5f20925f5b8c828210610d1557505050610a7d92500382610d8e565b89835194858a0195868b11610d03578801809611610cf0579089918851938985885199868a019a8b81898501610ab292610e80565b8201908782015203858101875201610aca9086610d8e565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703548a516378542ead60e01b81526060818e01526001600160a01b039a90968795928c16948694859491929190610b25906064870190610ea1565b90838683030190860152610b3891610ed4565b90838203016044840152610b4b91610ed4565b03915a905f91f1908115610ce6575f91610cb0575b5015610ca0579086917f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a280518101031261039e57519263ffffffff841680940361039e5747968715918215610bdf575b877fb79f42e6361b7edc68aa6b2ca9e9d0379aaed0217c85b1918f8a9e0251bfb8e288888851908152a2005b600a890292898404600a141715610c8f575050610c2d7fb79f42e6361b7edc68aa6b2ca9e9d0379aaed0217c85b1918f8a9e0251bfb8e296976064610c28930492838092610e1c565b610e1c565b91875f5260028652806001855f200154165f5260068652835f20610c52838254610e3d565b9055600154165f5260068552610c6c835f20918254610e3d565b9055305f5260068452610c83825f20918254610e3d565b90558493868080610bb3565b601190634e487b7160e01b5f52525ffd5b845163cf6c44e960e01b81528690fd5b90508781813d8311610cdf575b610cc78183610d8e565b8101031261039e5751801515810361039e578a610b60565b503d610cbd565b86513d5f823e3d90fd5b50634e487b7160e01b5f90815260118952fd5b8260118b634e487b7160e01b5f52525ffd5b8554845260019586019587955093019201610a66565b855163d66ca67560e01b81528790fd5b845162461bcd60e51b81528087018890526006818b01526562616472657160d01b6044820152606490fd5b67ffffffffffffffff8111610d7a57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610d7a57604052565b81601f8201121561039e5780359067ffffffffffffffff8211610d7a5760405192610de5601f8401601f191660200185610d8e565b8284526020838301011161039e57815f926020809301838601378301015290565b600435906001600160a01b038216820361039e57565b91908203918211610e2957565b634e487b7160e01b5f52601160045260245ffd5b91908201809211610e2957565b15610e5157565b60405162461bcd60e51b81526020600482015260076024820152661a5b9d985b1a5960ca1b6044820152606490fd5b5f5b838110610e915750505f910152565b8181015183820152602001610e82565b9081518082526020808093019301915f5b828110610ec0575050505090565b835185529381019392810192600101610eb2565b90602091610eed81518092818552858086019101610e80565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610f8d575f91610f5e575090565b90506020813d602011610f85575b81610f7960209383610d8e565b8101031261039e575190565b3d9150610f6c565b6040513d5f823e3d90fdfea164736f6c6343000818000a";
-
-type CuratedListsFHEConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: CuratedListsFHEConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class CuratedListsFHE__factory extends ContractFactory {
-  constructor(...args: CuratedListsFHEConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      CuratedListsFHE & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): CuratedListsFHE__factory {
-    return super.connect(runner) as CuratedListsFHE__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): CuratedListsFHEInterface {
-    return new Interface(_abi) as CuratedListsFHEInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): CuratedListsFHE {
-    return new Contract(address, _abi, runner) as unknown as CuratedListsFHE;
-  }
-}
@@ -0,0 +1,249 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  GameRecords,
+  GameRecordsInterface,
+} from "../../contracts/GameRecords";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "EmptyRecord",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPageSize",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecordNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecordTooLarge",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "RecordAppended",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RECORD_BYTES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "appendRecord",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRecord",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "author",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "timestamp",
+            type: "uint64",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct GameRecords.GameRecord",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "before",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getRecords",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "indexes",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "author",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "timestamp",
+            type: "uint64",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct GameRecords.GameRecord[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recordCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610890908161001b8239f35b5f80fdfe60406080815260049081361015610014575f80fd5b5f3560e01c806303e9e609146105b957806348f4da201461059e57806389856e46146102a2578063900407bc146102855780639e64fef0146102695763a0569b571461005e575f80fd5b3461026557806003193601126102655781359160248035848115801561025b575b61024b575f54809111610243575b508085101561023c575092805b6100a382610857565b936100b0815195866106b5565b8285526100bc83610857565b9260209283870197601f19809601368a376100d683610857565b966100e3855198896106b5565b838852866100f085610857565b015f5b8181106102205750505f5b848110610197575050505050805194818601918652518091526060850195905f5b818110610183575050508385038185015282519081865280860181808460051b8901019501935f975b8489106101555787870388f35b9091929394958480610171838686600196030188528a51610615565b98019401980197919094939294610148565b82518852968301969183019160010161011f565b9699965f198481019085821161020e57828603019081116101fc57906101dd6101d76101d1838e6001966101cb838361086f565b5261086f565b516106f6565b50610778565b6101e7828c61086f565b526101f2818b61086f565b50019996996100fe565b83601184634e487b7160e01b5f52525ffd5b84601185634e487b7160e01b5f52525ffd5b879061022d9c999c6106d7565b82828d010152019a979a6100f3565b909361009a565b94505f61008d565b84516372dbed9760e11b81528490fd5b506064821161007f565b5f80fd5b5034610265575f36600319011261026557602090516110008152f35b5034610265575f366003190112610265576020905f549051908152f35b50903461026557602091826003193601126102655767ffffffffffffffff91803583811161026557366023820112156102655780820135848111610265576024820191602482369201011161026557801561058e57611000811161057e575f549484519061030f82610685565b3382528782018142168152601f1980601f860116968851946103338c8a01876106b5565b86865286888d8801375f8c8888010152898101958652680100000000000000008b101561056b57600193848c015f5561036b8c6106f6565b9290926105595751825491516001600160e01b03199092166001600160a01b03919091161760a09190911b67ffffffffffffffff60a01b161781559451805195840195949091908511610546575091899695939185936103cc8b9754610740565b601f81116104e8575b508c91601f8511600114610457575092807f4c85fe231593c95766fbbac0defb1360ff9f17210e30666dc16279312ca4af9b9897959381935f9896899461044c575b50501b9186199060031b1c19161790555b808251948b8652818c8701528386013783010152848133958101030190a351908152f35b015192505f80610417565b5f8681528e81209a99989796959392918416908f5b8282106104cd575050917f4c85fe231593c95766fbbac0defb1360ff9f17210e30666dc16279312ca4af9b999a91845f999897969594106104b5575b505050811b019055610428565b0151871960f88460031b161c191690555f80806104a8565b848401518d559b86019b8f9b508e995093840193018f61046c565b91939597985091938096505f528b5f20601f860160051c8101918d871061053c575b918b97959391601f8e9b9a9896940160051c01905b81811061052c57506103d5565b5f81558d9a508c9850840161051f565b909150819061050a565b604190634e487b7160e01b5f525260245ffd5b5f84634e487b7160e01b82525260245ffd5b604182634e487b7160e01b5f525260245ffd5b8351633f30a19d60e01b81528390fd5b835163d17badf160e01b81528390fd5b5034610265575f366003190112610265576020905160648152f35b5034610265576020366003190112610265578135916105d66106d7565b505f5483101561060757506105f06101d7610603936106f6565b9051918291602083526020830190610615565b0390f35b9051633e07f1a160e01b8152fd5b919060018060a01b038351168152604060209367ffffffffffffffff60208201511660208401520151606060408301528051908160608401525f5b82811061067157505060809293505f838284010152601f8019910116010190565b818101860151848201608001528501610650565b6060810190811067ffffffffffffffff8211176106a157604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176106a157604052565b604051906106e482610685565b60606040835f81525f60208201520152565b5f5481101561072c575f805260011b7f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e56301905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c9216801561076e575b602083101461075a57565b634e487b7160e01b5f52602260045260245ffd5b91607f169161074f565b906040519161078683610685565b8281549160018060a01b038316825267ffffffffffffffff60209360a01c16838301526001809101906040519384925f928154916107c383610740565b808752926001811690811561083657506001146107f2575b50505050604092916107ee9103846106b5565b0152565b5f9081528381209695945091905b81831061081e575093945091925090820101816107ee60405f6107db565b86548884018501529586019587945091830191610800565b60ff191685880152505050151560051b8301019050816107ee60405f6107db565b67ffffffffffffffff81116106a15760051b60200190565b805182101561072c5760209160051b01019056fea164736f6c6343000818000a";
+
+type GameRecordsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GameRecordsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class GameRecords__factory extends ContractFactory {
+  constructor(...args: GameRecordsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      GameRecords & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): GameRecords__factory {
+    return super.connect(runner) as GameRecords__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GameRecordsInterface {
+    return new Interface(_abi) as GameRecordsInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): GameRecords {
+    return new Contract(address, _abi, runner) as unknown as GameRecords;
+  }
+}
@@ -1,401 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../common";
-import type {
-  VeriIdWalletFHE,
-  VeriIdWalletFHEInterface,
-} from "../../contracts/VeriIdWalletFHE";
-
-const _abi = [
-  {
-    inputs: [],
-    stateMutability: "nonpayable",
-    type: "constructor",
-  },
-  {
-    inputs: [],
-    name: "HandlesAlreadySavedForRequestID",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "InvalidKMSSignatures",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "NoHandleFoundForRequestID",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "credId",
-        type: "uint256",
-      },
-      {
-        indexed: false,
-        internalType: "bytes32",
-        name: "credType",
-        type: "bytes32",
-      },
-    ],
-    name: "CredentialAdded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "requestID",
-        type: "uint256",
-      },
-    ],
-    name: "DecryptionFulfilled",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "proofId",
-        type: "bytes32",
-      },
-      {
-        indexed: false,
-        internalType: "bytes32",
-        name: "credType",
-        type: "bytes32",
-      },
-    ],
-    name: "ProofRequested",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "proofId",
-        type: "bytes32",
-      },
-      {
-        indexed: false,
-        internalType: "bool",
-        name: "isValid",
-        type: "bool",
-      },
-    ],
-    name: "ProofVerified",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "credType",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedValue",
-        type: "bytes32",
-      },
-      {
-        internalType: "uint256",
-        name: "expiresAt",
-        type: "uint256",
-      },
-    ],
-    name: "addEncryptedCredential",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "credCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "encryptedCreds",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "credId",
-        type: "uint256",
-      },
-      {
-        internalType: "bytes32",
-        name: "credType",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedValue",
-        type: "bytes32",
-      },
-      {
-        internalType: "uint256",
-        name: "issuedAt",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "expiresAt",
-        type: "uint256",
-      },
-      {
-        internalType: "bool",
-        name: "isActive",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "proofId",
-        type: "bytes32",
-      },
-      {
-        internalType: "bytes32",
-        name: "credType",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "threshold",
-        type: "bytes32",
-      },
-      {
-        internalType: "ebool",
-        name: "condition",
-        type: "bytes32",
-      },
-    ],
-    name: "generateProof",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "proofId",
-        type: "bytes32",
-      },
-    ],
-    name: "getProofResult",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "isValid",
-        type: "bool",
-      },
-      {
-        internalType: "uint256",
-        name: "verifiedAt",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "requestId",
-        type: "uint256",
-      },
-      {
-        internalType: "bytes",
-        name: "cleartexts",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
-      },
-    ],
-    name: "handleProofVerification",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    name: "proofResults",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "isValid",
-        type: "bool",
-      },
-      {
-        internalType: "uint256",
-        name: "verifiedAt",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "protocolId",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "credTypeHash",
-        type: "bytes32",
-      },
-    ],
-    name: "registerCredentialType",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "credId",
-        type: "uint256",
-      },
-    ],
-    name: "revokeCredential",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
-      },
-    ],
-    name: "transferOwnership",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "walletOwner",
-    outputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x60806040523461015f575f6060610014610163565b828152826020820152826040820152015261002d610163565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533906003541617600355604051610fbc90816101978239f35b5f80fd5b60405190608082016001600160401b0381118382101761018257604052565b634e487b7160e01b5f52604160045260245ffdfe608060409080825260049081361015610016575f80fd5b5f925f3560e01c9182631ae879e814610cb0575081631b87278d14610c155781631d143dce14610ae5578163424eb7bd14610aa6578163561c5a3114610a625781636dcf43be14610a465781637530c198146105015781639992ed5a1461049f578163a1e0085214610154578163b1db799214610112578163da1f12ab146100f5575063f2fde38b146100a7575f80fd5b346100f15760203660031901126100f157356001600160a01b03818116918290036100ed576100dc6003549182163314610d73565b6001600160a01b0319161760035580f35b8280fd5b5080fd5b8390346100f157816003193601126100f157602090516127118152f35b919050346100ed5760203660031901126100ed5735825260026020908152918190208054600190910154915160ff9091161515815291820152604090f35b0390f35b8383346100f157600319906060368301126100ed57803560249485359267ffffffffffffffff9384811161049b5761018f9036908301610d1d565b93604435818111610497576101a79036908401610d1d565b958488526020958387528489205497881561046357868a527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952868b205415610453578a938c918986528a52878520885190819687928d835491828152019282528d80832092905b828210610430575050505090610228910386610cfb565b835194858b0195868c1161041e57890180961161040c57908a92918d898b51968c888a519b898c019c8d818c850161025f92610e6b565b8201908a820152038881018a52016102779089610cfb565b600160a01b600190037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948d51988997889687956378542ead60e01b8752860160609052606486016102ca91610e38565b908386830301908601526102dd91610e8c565b908382030160448401526102f091610e8c565b03925af1908115610402578a916103d5575b50156103c557908661033f928651977f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8c80a28051010190610e20565b91848401918211858310176103b357507ff8ea4b84d199e84ff35249e26840ceba1b2a1711d50a01b47e981737011721809596975082521515918281526001848201428152878952600286526103a7848a2093511515849060ff801983541691151516179055565b5191015551908152a280f35b60418991634e487b7160e01b5f52525ffd5b845163cf6c44e960e01b81528490fd5b6103f59150883d8a116103fb575b6103ed8183610cfb565b810190610e20565b8b610302565b503d6103e3565b86513d8c823e3d90fd5b634e487b7160e01b8d5260118852828dfd5b634e487b7160e01b8e5260118952838efd5b909383600194979850849396505481520194019101908f9493919288938e610211565b865163d66ca67560e01b81528690fd5b855162461bcd60e51b8152808601899052600f818d01526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b8780fd5b8680fd5b9050346100ed5760203660031901126100ed578060c0938335815260016020522080549260018201549260028301549060ff600560038601549486015495015416948151968752602087015285015260608401526080830152151560a0820152f35b905082346108c25760803660031901126108c25782356024928335604435916064359660018060a01b0361053a81600354163314610d73565b835f526005976020956005875260ff61055860ff875f205416610db2565b5f9a6001915f54925b838111156109e8575b5050505090919293949596979880156109a6575f52600187526002855f200154818115610996575b15610986575b877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970192606486855416935f8a5195869485936385362ee760e01b85528c850152898401528160448401525af190811561097c575f9161094f575b50808b15610936575b908489939215610923575b6064919254169b5f88519d8e94859363d99882d560e01b85528a850152878401528160448401525af1988915610919575f996108ea575b5083519867ffffffffffffffff908a86018281118c8210176108d857865260018b52878b0190883683378b51156108c65781527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0092835494807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156108c2575f8e6106e8928d838c8e5196879586948593637d6e912360e11b85528401528a830190610e38565b03925af180156108b8576108a5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156108a1578b8d6107519288838b8d5196879586948593633263b83b60e01b855284015260608a8401526064830190610e38565b6350f0042960e11b604483015203925af1801561089757908c9161087f575b508590527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808a52878c205461086f57858c528952868b209b5192831161085e5768010000000000000000831161085e57508a54828c55808310610839575b509989528689209989905b828210610826575050507f72358f4a8a7d6728662ccf55190b7196702257c2207a2cdba16f9f3f07d6e487969798506108138154610dfe565b905587528352848187205551908152a280f35b80518c83015560019091019088016107da565b8b8b5282898c2091820191015b81811061085357506107cf565b8b8155600101610846565b634e487b7160e01b8b52604186528afd5b8751633f06d22b60e01b81528790fd5b61088890610cd3565b610893578a8d610770565b8a80fd5b88513d8e823e3d90fd5b8b80fd5b6108b0919c50610cd3565b5f9a8d6106f7565b89513d5f823e3d90fd5b5f80fd5b83603287634e487b7160e01b5f52525ffd5b83604187634e487b7160e01b5f52525ffd5b9098508581813d8311610912575b6109028183610cfb565b810103126108c25751978961063d565b503d6108f8565b84513d5f823e3d90fd5b6064915061092f610f50565b9150610606565b9a5090879184610944610f50565b9c91929350506105fb565b90508781813d8311610975575b6109668183610cfb565b810103126108c257518b6105f2565b503d61095c565b86513d5f823e3d90fd5b9050610990610eb1565b90610598565b90506109a0610eb1565b90610592565b855162461bcd60e51b81528086018990526019818501527f4e6f2076616c69642063726564656e7469616c20666f756e64000000000000006044820152606490fd5b805f5260018b52885f20888b6001830154149182610a39575b82610a2c575b5050610a1b57610a1690610dfe565b610561565b9c508e92508291508190508061056a565b015442109050885f610a07565b8581015485169250610a01565b346108c2575f3660031901126108c2576020905f549051908152f35b82346108c25760203660031901126108c257355f526002602052805f20610150600160ff835416920154925192839283602090939291936040810194151581520152565b82346108c25760203660031901126108c257610acd60018060a01b03600354163314610d73565b355f908152600560205220805460ff19166001179055005b9050346108c25760603660031901126108c257813590610b1060018060a01b03600354163314610d73565b815f526005602052610b2760ff825f205416610db2565b5f549260018401809411610c0257835f5581519060c0820182811067ffffffffffffffff821117610bef577fbe4c0498c406dcb7c105ab3e7d0658c05e14e292beca65df06cae16567b7e6ab949260058593610be89360209752888352868301908682528584016024358152606085014281526080860191604435835260a0870194600186528d5f5260018c52895f2097518855516001880155516002870155516003860155519084015551151591019060ff801983541691151516179055565b51908152a2005b604182634e487b7160e01b5f525260245ffd5b601190634e487b7160e01b5f525260245ffd5b9050346108c25760203660031901126108c2578135610c3f60018060a01b03600354163314610d73565b805f52600160205260ff6005835f2001541615610c6d575f908152600160205220600501805460ff19169055005b815162461bcd60e51b8152602081850152601a60248201527f43726564656e7469616c20616c7265616479207265766f6b65640000000000006044820152606490fd5b346108c2575f3660031901126108c2576003546001600160a01b03168152602090f35b67ffffffffffffffff8111610ce757604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610ce757604052565b81601f820112156108c25780359067ffffffffffffffff8211610ce75760405192610d52601f8401601f191660200185610cfb565b828452602083830101116108c257815f926020809301838601378301015290565b15610d7a57565b60405162461bcd60e51b815260206004820152601060248201526f21b0b63632b9103737ba1037bbb732b960811b6044820152606490fd5b15610db957565b60405162461bcd60e51b815260206004820152601d60248201527f43726564656e7469616c2074797065206e6f7420737570706f727465640000006044820152606490fd5b5f198114610e0c5760010190565b634e487b7160e01b5f52601160045260245ffd5b908160209103126108c2575180151581036108c25790565b9081518082526020808093019301915f5b828110610e57575050505090565b835185529381019392810192600101610e49565b5f5b838110610e7c5750505f910152565b8181015183820152602001610e6d565b90602091610ea581518092818552858086019101610e6b565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610f45575f91610f16575090565b90506020813d602011610f3d575b81610f3160209383610cfb565b810103126108c2575190565b3d9150610f24565b6040513d5f823e3d90fd5b5f602060018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610f45575f91610f1657509056fea164736f6c6343000818000a";
-
-type VeriIdWalletFHEConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: VeriIdWalletFHEConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class VeriIdWalletFHE__factory extends ContractFactory {
-  constructor(...args: VeriIdWalletFHEConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      VeriIdWalletFHE & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): VeriIdWalletFHE__factory {
-    return super.connect(runner) as VeriIdWalletFHE__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): VeriIdWalletFHEInterface {
-    return new Interface(_abi) as VeriIdWalletFHEInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): VeriIdWalletFHE {
-    return new Contract(address, _abi, runner) as unknown as VeriIdWalletFHE;
-  }
-}
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as battleshipPlusFheSol from "./Battleship_Plus_FHE.sol";
+export * as test from "./test";
+export { GameRecords__factory } from "./GameRecords__factory";
@@ -0,0 +1,304 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  TestToken,
+  TestTokenInterface,
+} from "../../../contracts/test/TestToken";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610479908161001b8239f35b5f80fdfe60806040908082526004361015610014575f80fd5b5f3560e01c90816306fdde031461031557508063095ea7b3146102a757806318160ddd1461028a57806323b872dd14610232578063313ce5671461021757806340c10f19146101a257806370a082311461016b57806395d89b4114610108578063a9059cbb146100d85763dd62ed3e1461008c575f80fd5b346100d457806003193601126100d4576020906100a76103a8565b6100af6103be565b9060018060a01b038091165f5260028452825f2091165f528252805f20549051908152f35b5f80fd5b50346100d457806003193601126100d4576020906101016100f76103a8565b6024359033610402565b5160018152f35b50346100d4575f3660031901126100d45780518181019181831067ffffffffffffffff841117610157576101539281526004825263151154d560e21b60208301525191829182610361565b0390f35b634e487b7160e01b5f52604160045260245ffd5b50346100d45760203660031901126100d4576020906001600160a01b036101906103a8565b165f5260018252805f20549051908152f35b50346100d457806003193601126100d4575f7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60206101df6103a8565b602435906101ee8286546103f5565b855560018060a01b0316948585526001835280852061020e8382546103f5565b905551908152a3005b50346100d4575f3660031901126100d4576020905160128152f35b50346100d45760603660031901126100d4576020906101016102526103a8565b61025a6103be565b6044359160018060a01b0381165f5260028652845f20335f528652845f206102838482546103d4565b9055610402565b50346100d4575f3660031901126100d4576020905f549051908152f35b50346100d457806003193601126100d4576020906102c36103a8565b602435335f5260028452825f209160018060a01b031691825f52845280835f205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b9050346100d4575f3660031901126100d4578181019181831067ffffffffffffffff84111761015757610153928152600a8252692a32b9ba102a37b5b2b760b11b602083015251918291825b602080825282518183018190529093925f5b82811061039457505060409293505f838284010152601f8019910116010190565b818101860151848201604001528501610373565b600435906001600160a01b03821682036100d457565b602435906001600160a01b03821682036100d457565b919082039182116103e157565b634e487b7160e01b5f52601160045260245ffd5b919082018092116103e157565b60207fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9160018060a01b0380911693845f526001835260405f206104478782546103d4565b90551693845f526001825260405f206104618282546103f5565b9055604051908152a356fea164736f6c6343000818000a";
+
+type TestTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TestTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TestToken__factory extends ContractFactory {
+  constructor(...args: TestTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      TestToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TestToken__factory {
+    return super.connect(runner) as TestToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TestTokenInterface {
+    return new Interface(_abi) as TestTokenInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): TestToken {
+    return new Contract(address, _abi, runner) as unknown as TestToken;
+  }
+}
@@ -22,5 +22,11 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { BattleshipPlusFHE } from "./contracts/Battleship_Plus_FHE.sol/BattleshipPlusFHE";
+export { BattleshipPlusFHE__factory } from "./factories/contracts/Battleship_Plus_FHE.sol/BattleshipPlusFHE__factory";
+export type { IERC20 } from "./contracts/Battleship_Plus_FHE.sol/IERC20";
+export { IERC20__factory } from "./factories/contracts/Battleship_Plus_FHE.sol/IERC20__factory";
+export type { GameRecords } from "./contracts/GameRecords";
+export { GameRecords__factory } from "./factories/contracts/GameRecords__factory";
+export type { TestToken } from "./contracts/test/TestToken";
+export { TestToken__factory } from "./factories/contracts/test/TestToken__factory";